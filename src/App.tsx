@@ -1,15 +1,29 @@
-import React, { useState } from 'react'
+import { BrowserRouter, Navigate, Route, Routes, useLocation } from 'react-router-dom'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { SyncProvider } from './contexts/SyncContext'
+import { ProjectProvider, useProject } from './contexts/ProjectContext'
 import { Layout } from './components/Layout'
 import { AuthForm } from './components/AuthForm'
 import { Dashboard } from './components/Dashboard'
 import { DataCollectionForm } from './components/DataCollectionForm'
 import { RecordsView } from './components/RecordsView'
 import { Chatbot } from './components/Chatbot'
+import { TemplateDesigner } from './components/TemplateDesigner'
+import { KnowledgeBaseEditor } from './components/KnowledgeBaseEditor'
+import { ChatQualityReport } from './components/ChatQualityReport'
+import { TrashView } from './components/TrashView'
+import { UserRoles } from './components/UserRoles'
+import { ProjectAdmin } from './components/ProjectAdmin'
+import { UpdatePrompt } from './components/UpdatePrompt'
+import { ProfileSettings } from './components/ProfileSettings'
+import { NewPasswordForm } from './components/NewPasswordForm'
+
+const PROJECT_FREE_PATHS = ['/templates', '/knowledge', '/feedback', '/users', '/projects', '/profile']
 
 function AppContent() {
-  const { user, loading } = useAuth()
-  const [currentView, setCurrentView] = useState('dashboard')
+  const { user, loading, passwordRecovery } = useAuth()
+  const { activeProject, loading: projectsLoading, can } = useProject()
+  const location = useLocation()
 
   if (loading) {
     return (
@@ -23,33 +37,63 @@ function AppContent() {
     return <AuthForm />
   }
 
-  const renderCurrentView = () => {
-    switch (currentView) {
-      case 'dashboard':
-        return <Dashboard />
-      case 'collection':
-        return <DataCollectionForm />
-      case 'records':
-        return <RecordsView />
-      case 'chatbot':
-        return <Chatbot />
-      default:
-        return <Dashboard />
-    }
+  if (passwordRecovery) {
+    return <NewPasswordForm />
   }
 
+  // Admin pages work without a project; everything else shows one
+  // project's records.
+  const needsProject = !PROJECT_FREE_PATHS.some(path => location.pathname.startsWith(path))
+
   return (
-    <Layout currentView={currentView} onViewChange={setCurrentView}>
-      {renderCurrentView()}
+    <Layout>
+      {needsProject && !activeProject ? (
+        !projectsLoading && (
+          <div className="max-w-2xl mx-auto bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+            <p className="text-gray-600">You are not a member of any project yet. Ask an administrator to add you to one.</p>
+          </div>
+        )
+      ) : (
+        // Remounting on a project switch reloads every view for the new project.
+        <div key={activeProject?.id}>
+          <Routes>
+            <Route path="/" element={<Dashboard />} />
+            <Route
+              path="/collect"
+              element={can('records.create') ? <DataCollectionForm /> : <Navigate to="/" replace />}
+            />
+            <Route path="/records/:recordId?" element={<RecordsView />} />
+            <Route path="/chat/:sessionId?" element={<Chatbot />} />
+            <Route
+              path="/trash"
+              element={can('records.editOwn') ? <TrashView /> : <Navigate to="/" replace />}
+            />
+            <Route path="/templates" element={<TemplateDesigner />} />
+            <Route path="/knowledge" element={<KnowledgeBaseEditor />} />
+            <Route path="/feedback" element={<ChatQualityReport />} />
+            <Route path="/users" element={<UserRoles />} />
+            <Route path="/projects" element={<ProjectAdmin />} />
+            <Route path="/profile" element={<ProfileSettings />} />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </div>
+      )}
     </Layout>
   )
 }
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <SyncProvider>
+          <ProjectProvider>
+            <AppContent />
+            <UpdatePrompt />
+          </ProjectProvider>
+        </SyncProvider>
+      </AuthProvider>
+    </BrowserRouter>
   )
 }
 
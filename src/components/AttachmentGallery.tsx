@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react'
+import { AttachmentView, formatFileSize } from '../lib/attachments'
+import { formatDateTime } from '../lib/format'
+import { useAuth } from '../contexts/AuthContext'
+import { X, ChevronLeft, ChevronRight, FileText, Music, Download } from 'lucide-react'
+
+const THUMBNAIL_LIMIT = 3
+
+interface AttachmentThumbnailsProps {
+  attachments: AttachmentView[]
+  onOpen: (index: number) => void
+}
+
+export function AttachmentThumbnails({ attachments, onOpen }: AttachmentThumbnailsProps) {
+  if (attachments.length === 0) return null
+
+  const hidden = attachments.length - THUMBNAIL_LIMIT
+
+  return (
+    <div className="flex items-center mt-1 space-x-1">
+      {attachments.slice(0, THUMBNAIL_LIMIT).map((attachment, index) => (
+        <button
+          key={attachment.id}
+          onClick={() => onOpen(index)}
+          className={`h-8 w-8 rounded border overflow-hidden flex items-center justify-center bg-gray-50 ${
+            attachment.pending ? 'border-amber-300' : 'border-gray-200'
+          }`}
+          title={attachment.pending ? `${attachment.fileName} (waiting to upload)` : attachment.fileName}
+        >
+          <AttachmentIcon attachment={attachment} className="h-8 w-8 object-cover" />
+        </button>
+      ))}
+      {hidden > 0 && (
+        <button onClick={() => onOpen(THUMBNAIL_LIMIT)} className="text-xs text-gray-500 hover:text-gray-700">
+          +{hidden}
+        </button>
+      )}
+    </div>
+  )
+}
+
+function AttachmentIcon({ attachment, className }: { attachment: AttachmentView; className: string }) {
+  if (attachment.kind === 'image' && attachment.url) {
+    return <img src={attachment.url} alt={attachment.fileName} className={className} />
+  }
+  if (attachment.kind === 'audio') {
+    return <Music className="h-4 w-4 text-gray-400" />
+  }
+  return <FileText className="h-4 w-4 text-gray-400" />
+}
+
+interface AttachmentGalleryProps {
+  attachments: AttachmentView[]
+  initialIndex: number
+  onClose: () => void
+}
+
+export function AttachmentGallery({ attachments, initialIndex, onClose }: AttachmentGalleryProps) {
+  const { profile } = useAuth()
+  const [index, setIndex] = useState(initialIndex)
+  const current = attachments[index]
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+      if (event.key === 'ArrowLeft') setIndex(prev => Math.max(prev - 1, 0))
+      if (event.key === 'ArrowRight') setIndex(prev => Math.min(prev + 1, attachments.length - 1))
+    }
+    document.addEventListener('keydown', handleKey)
+    return () => document.removeEventListener('keydown', handleKey)
+  }, [attachments.length, onClose])
+
+  if (!current) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-900 bg-opacity-90" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900 truncate">{current.fileName}</h2>
+            <p className="text-sm text-gray-500">
+              {index + 1} of {attachments.length} · {formatFileSize(current.sizeBytes)}
+              {current.capturedAt && ` · taken ${formatDateTime(current.capturedAt, profile)}`}
+              {current.pending && ' · waiting to upload'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="relative flex items-center justify-center bg-gray-50 min-h-64 p-4">
+          {!current.url ? (
+            <p className="text-sm text-gray-500">This file is unavailable while offline.</p>
+          ) : current.kind === 'image' ? (
+            <img src={current.url} alt={current.fileName} className="max-h-[60vh] object-contain" />
+          ) : current.kind === 'audio' ? (
+            <audio src={current.url} controls className="w-full max-w-md" />
+          ) : (
+            <a
+              href={current.url}
+              download={current.fileName}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          )}
+
+          {index > 0 && (
+            <button
+              onClick={() => setIndex(index - 1)}
+              className="absolute left-2 bg-white rounded-full p-1 shadow text-gray-700 hover:text-gray-900"
+              title="Previous"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </button>
+          )}
+          {index < attachments.length - 1 && (
+            <button
+              onClick={() => setIndex(index + 1)}
+              className="absolute right-2 bg-white rounded-full p-1 shadow text-gray-700 hover:text-gray-900"
+              title="Next"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+
+        {attachments.length > 1 && (
+          <div className="flex space-x-2 px-6 py-3 border-t border-gray-200 overflow-x-auto">
+            {attachments.map((attachment, position) => (
+              <button
+                key={attachment.id}
+                onClick={() => setIndex(position)}
+                className={`h-12 w-12 flex-shrink-0 rounded border-2 overflow-hidden flex items-center justify-center bg-gray-50 ${
+                  position === index ? 'border-blue-500' : 'border-transparent'
+                }`}
+              >
+                <AttachmentIcon attachment={attachment} className="h-12 w-12 object-cover" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
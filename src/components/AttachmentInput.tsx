@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { MAX_ATTACHMENT_BYTES, PendingAttachment, formatFileSize, prepareAttachment } from '../lib/attachments'
+import { Camera, Mic, Square, Paperclip, X, FileText, Music } from 'lucide-react'
+
+interface AttachmentInputProps {
+  attachments: PendingAttachment[]
+  onAdd: (attachments: PendingAttachment[]) => void
+  onRemove: (id: string) => void
+}
+
+const canRecordAudio =
+  typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia
+
+export function AttachmentInput({ attachments, onAdd, onRemove }: AttachmentInputProps) {
+  const cameraRef = useRef<HTMLInputElement>(null)
+  const filesRef = useRef<HTMLInputElement>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const [recording, setRecording] = useState(false)
+  const [processing, setProcessing] = useState(false)
+  const [error, setError] = useState('')
+
+  // Release the microphone if the form unmounts mid-recording.
+  useEffect(() => () => recorderRef.current?.stop(), [])
+
+  const addFiles = async (files: File[]) => {
+    setError('')
+    setProcessing(true)
+    try {
+      const prepared = await Promise.all(files.map(prepareAttachment))
+      const tooLarge = prepared.filter(attachment => attachment.file.size > MAX_ATTACHMENT_BYTES)
+      tooLarge.forEach(attachment => attachment.previewUrl && URL.revokeObjectURL(attachment.previewUrl))
+      if (tooLarge.length > 0) {
+        setError(
+          `${tooLarge.map(attachment => attachment.file.name).join(', ')} exceeds ${formatFileSize(MAX_ATTACHMENT_BYTES)}`
+        )
+      }
+      onAdd(prepared.filter(attachment => !tooLarge.includes(attachment)))
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length > 0) addFiles(files)
+  }
+
+  const startRecording = async () => {
+    setError('')
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true })
+      const recorder = new MediaRecorder(stream)
+      const chunks: Blob[] = []
+
+      recorder.ondataavailable = event => chunks.push(event.data)
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop())
+        recorderRef.current = null
+        setRecording(false)
+
+        const type = recorder.mimeType || 'audio/webm'
+        const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm'
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+        addFiles([new File(chunks, `voice-memo-${stamp}.${extension}`, { type })])
+      }
+
+      recorder.start()
+      recorderRef.current = recorder
+      setRecording(true)
+    } catch (error) {
+      console.error('Error starting audio recording:', error)
+      setError('Microphone access was denied or is unavailable')
+    }
+  }
+
+  const buttonClassName =
+    'px-4 py-2 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors flex items-center text-sm text-gray-700'
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Attachments</label>
+      <div className="flex flex-wrap gap-3">
+        <button type="button" onClick={() => cameraRef.current?.click()} className={buttonClassName}>
+          <Camera className="h-4 w-4 mr-2 text-gray-600" />
+          Take photo
+        </button>
+        {canRecordAudio && (
+          recording ? (
+            <button
+              type="button"
+              onClick={() => recorderRef.current?.stop()}
+              className="px-4 py-2 bg-red-50 border border-red-300 rounded-md hover:bg-red-100 transition-colors flex items-center text-sm text-red-700"
+            >
+              <Square className="h-4 w-4 mr-2" />
+              Stop recording
+            </button>
+          ) : (
+            <button type="button" onClick={startRecording} className={buttonClassName}>
+              <Mic className="h-4 w-4 mr-2 text-gray-600" />
+              Voice memo
+            </button>
+          )
+        )}
+        <button type="button" onClick={() => filesRef.current?.click()} className={buttonClassName}>
+          <Paperclip className="h-4 w-4 mr-2 text-gray-600" />
+          Add files
+        </button>
+        <input
+          ref={cameraRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={handleSelect}
+          className="hidden"
+        />
+        <input ref={filesRef} type="file" multiple onChange={handleSelect} className="hidden" />
+      </div>
+
+      {processing && <p className="mt-2 text-sm text-gray-500">Preparing files...</p>}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {attachments.length > 0 && (
+        <ul className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="relative border border-gray-200 rounded-md overflow-hidden">
+              {attachment.previewUrl ? (
+                <img src={attachment.previewUrl} alt={attachment.file.name} className="h-24 w-full object-cover" />
+              ) : (
+                <div className="h-24 flex items-center justify-center bg-gray-50">
+                  {attachment.file.type.startsWith('audio/') ? (
+                    <Music className="h-8 w-8 text-gray-400" />
+                  ) : (
+                    <FileText className="h-8 w-8 text-gray-400" />
+                  )}
+                </div>
+              )}
+              <div className="px-2 py-1">
+                <p className="text-xs text-gray-700 truncate">{attachment.file.name}</p>
+                <p className="text-xs text-gray-500">{formatFileSize(attachment.file.size)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemove(attachment.id)}
+                className="absolute top-1 right-1 bg-white bg-opacity-80 rounded-full p-0.5 text-gray-600 hover:text-gray-900"
+                title="Remove attachment"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
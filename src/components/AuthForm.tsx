@@ -1,10 +1,19 @@
 import React, { useState } from 'react'
 import { useAuth } from '../contexts/AuthContext'
-import { Eye, EyeOff, AlertCircle, Settings } from 'lucide-react'
+import { isSupabaseConfigured } from '../lib/supabase'
+import { Eye, EyeOff, AlertCircle, Settings, Clock, Mail, CheckCircle } from 'lucide-react'
+
+type Mode = 'signIn' | 'signUp' | 'reset'
+
+const TITLES: Record<Mode, string> = {
+  signIn: 'Sign in to your account',
+  signUp: 'Create your account',
+  reset: 'Reset your password'
+}
 
 export function AuthForm() {
-  const { signIn, signUp } = useAuth()
-  const [isLogin, setIsLogin] = useState(true)
+  const { authState, signIn, signUp, resendVerification, requestPasswordReset } = useAuth()
+  const [mode, setMode] = useState<Mode>('signIn')
   const [showPassword, setShowPassword] = useState(false)
   const [formData, setFormData] = useState({
     email: '',
@@ -12,36 +21,66 @@ export function AuthForm() {
     username: ''
   })
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const [loading, setLoading] = useState(false)
-  const isSupabaseConfigured = import.meta.env.VITE_SUPABASE_URL?.includes('.supabase.co')
+  // The address waiting for its confirmation link, after signing up or
+  // trying to sign in before confirming.
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
+    setNotice('')
     setLoading(true)
 
     try {
-      if (isLogin) {
+      if (mode === 'signIn') {
         await signIn(formData.email, formData.password)
+      } else if (mode === 'reset') {
+        await requestPasswordReset(formData.email)
+        setNotice('If an account exists for this address, a link to choose a new password is on its way.')
       } else {
         if (!formData.username.trim()) {
           setError('Username is required')
           setLoading(false)
           return
         }
-        await signUp(formData.email, formData.password, formData.username)
+        const needsVerification = await signUp(formData.email, formData.password, formData.username)
+        if (needsVerification) setPendingEmail(formData.email)
+      }
+    } catch (err) {
+      if ((err as { code?: string }).code === 'email_not_confirmed') {
+        setPendingEmail(formData.email)
+      } else {
+        setError((err as Error).message || 'An error occurred')
       }
-    } catch (err: any) {
-      setError(err.message || 'An error occurred')
     } finally {
       setLoading(false)
     }
   }
 
-  const toggleMode = () => {
-    setIsLogin(!isLogin)
+  const resend = async () => {
+    if (!pendingEmail) return
+
     setError('')
-    setFormData({ email: '', password: '', username: '' })
+    setNotice('')
+    setLoading(true)
+    try {
+      await resendVerification(pendingEmail)
+      setNotice('A new confirmation link has been sent.')
+    } catch (err) {
+      setError((err as Error).message || 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const changeMode = (next: Mode) => {
+    setMode(next)
+    setError('')
+    setNotice('')
+    setPendingEmail(null)
+    setFormData(prev => ({ email: prev.email, password: '', username: '' }))
   }
 
   return (
@@ -53,7 +92,7 @@ export function AuthForm() {
           </svg>
         </div>
         <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">
-          {isLogin ? 'Sign in to your account' : 'Create your account'}
+          {pendingEmail ? 'Confirm your email' : TITLES[mode]}
         </h2>
         <p className="mt-2 text-center text-sm text-gray-600">
           Field Data Collection & Sync Tool
@@ -82,6 +121,14 @@ export function AuthForm() {
             </div>
           </div>
         )}
+        {authState === 'expired' && (
+          <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-start">
+            <Clock className="h-5 w-5 text-blue-600 mt-0.5 mr-3 flex-shrink-0" />
+            <p className="text-sm text-blue-800">
+              Your session has expired. Sign in again to sync the records saved on this device.
+            </p>
+          </div>
+        )}
         <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
           {error && (
             <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-4">
@@ -91,93 +138,136 @@ export function AuthForm() {
               </div>
             </div>
           )}
+          {notice && (
+            <div className="mb-4 bg-green-50 border border-green-200 rounded-md p-4">
+              <div className="flex items-center">
+                <CheckCircle className="h-5 w-5 text-green-500 mr-2 flex-shrink-0" />
+                <span className="text-sm text-green-700">{notice}</span>
+              </div>
+            </div>
+          )}
+
+          {pendingEmail ? (
+            <div className="space-y-6">
+              <div className="flex items-start">
+                <Mail className="h-6 w-6 text-blue-600 mr-3 flex-shrink-0" />
+                <p className="text-sm text-gray-700">
+                  We sent a confirmation link to <span className="font-medium">{pendingEmail}</span>.
+                  Open it on this device to finish setting up your account, then sign in.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={resend}
+                disabled={loading}
+                className={`w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors ${
+                  loading ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                Resend confirmation email
+              </button>
+            </div>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              {mode === 'signUp' && (
+                <div>
+                  <label htmlFor="username" className="block text-sm font-medium text-gray-700">
+                    Username
+                  </label>
+                  <div className="mt-1">
+                    <input
+                      id="username"
+                      name="username"
+                      type="text"
+                      required
+                      value={formData.username}
+                      onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value }))}
+                      className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Enter your username"
+                    />
+                  </div>
+                </div>
+              )}
 
-          <form className="space-y-6" onSubmit={handleSubmit}>
-            {!isLogin && (
               <div>
-                <label htmlFor="username" className="block text-sm font-medium text-gray-700">
-                  Username
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email address
                 </label>
                 <div className="mt-1">
                   <input
-                    id="username"
-                    name="username"
-                    type="text"
-                    required={!isLogin}
-                    value={formData.username}
-                    onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value }))}
+                    id="email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={formData.email}
+                    onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
                     className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Enter your username"
+                    placeholder="Enter your email"
                   />
                 </div>
               </div>
-            )}
-
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1">
-                <input
-                  id="email"
-                  name="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  value={formData.email}
-                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
-                  className="appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter your email"
-                />
-              </div>
-            </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative">
-                <input
-                  id="password"
-                  name="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete={isLogin ? 'current-password' : 'new-password'}
-                  required
-                  value={formData.password}
-                  onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-                  className="appearance-none block w-full px-3 py-2 pr-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter your password"
-                />
+              {mode !== 'reset' && (
+                <div>
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                      Password
+                    </label>
+                    {mode === 'signIn' && (
+                      <button
+                        type="button"
+                        onClick={() => changeMode('reset')}
+                        className="text-sm text-blue-600 hover:text-blue-500 transition-colors"
+                      >
+                        Forgot password?
+                      </button>
+                    )}
+                  </div>
+                  <div className="mt-1 relative">
+                    <input
+                      id="password"
+                      name="password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                      required
+                      value={formData.password}
+                      onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                      className="appearance-none block w-full px-3 py-2 pr-10 border border-gray-300 rounded-md placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      placeholder="Enter your password"
+                    />
+                    <button
+                      type="button"
+                      className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-5 w-5 text-gray-400" />
+                      ) : (
+                        <Eye className="h-5 w-5 text-gray-400" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              <div>
                 <button
-                  type="button"
-                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                  onClick={() => setShowPassword(!showPassword)}
+                  type="submit"
+                  disabled={loading}
+                  className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors ${
+                    loading ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
                 >
-                  {showPassword ? (
-                    <EyeOff className="h-5 w-5 text-gray-400" />
+                  {loading ? (
+                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
                   ) : (
-                    <Eye className="h-5 w-5 text-gray-400" />
+                    { signIn: 'Sign in', signUp: 'Sign up', reset: 'Send reset link' }[mode]
                   )}
                 </button>
               </div>
-            </div>
-
-            <div>
-              <button
-                type="submit"
-                disabled={loading}
-                className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors ${
-                  loading ? 'opacity-50 cursor-not-allowed' : ''
-                }`}
-              >
-                {loading ? (
-                  <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                ) : (
-                  isLogin ? 'Sign in' : 'Sign up'
-                )}
-              </button>
-            </div>
-          </form>
+            </form>
+          )}
 
           <div className="mt-6">
             <div className="relative">
@@ -186,7 +276,7 @@ export function AuthForm() {
               </div>
               <div className="relative flex justify-center text-sm">
                 <span className="px-2 bg-white text-gray-500">
-                  {isLogin ? "Don't have an account?" : 'Already have an account?'}
+                  {mode === 'signIn' && !pendingEmail ? "Don't have an account?" : 'Already have an account?'}
                 </span>
               </div>
             </div>
@@ -194,10 +284,10 @@ export function AuthForm() {
             <div className="mt-6">
               <button
                 type="button"
-                onClick={toggleMode}
+                onClick={() => changeMode(mode === 'signIn' && !pendingEmail ? 'signUp' : 'signIn')}
                 className="w-full text-center text-sm text-blue-600 hover:text-blue-500 font-medium transition-colors"
               >
-                {isLogin ? 'Sign up for free' : 'Sign in instead'}
+                {mode === 'signIn' && !pendingEmail ? 'Sign up for free' : 'Sign in instead'}
               </button>
             </div>
           </div>
@@ -205,4 +295,4 @@ export function AuthForm() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+import { ChatAction } from '../lib/chatSessions'
+import { useProject } from '../contexts/ProjectContext'
+import { Check, X, PlusCircle } from 'lucide-react'
+
+interface ChatActionCardProps {
+  action: ChatAction
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+export function ChatActionCard({ action, onConfirm, onCancel }: ChatActionCardProps) {
+  const { can } = useProject()
+  const { field, value, location } = action.record
+
+  return (
+    <div className="mt-2 bg-white border border-blue-200 rounded-md p-3 text-sm">
+      <div className="flex items-center text-gray-900 font-medium mb-2">
+        <PlusCircle className="h-4 w-4 text-blue-600 mr-2" />
+        New record
+      </div>
+      <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-gray-700">
+        <dt className="text-gray-500">Field</dt>
+        <dd>{field}</dd>
+        <dt className="text-gray-500">Value</dt>
+        <dd>{value}</dd>
+        <dt className="text-gray-500">Site</dt>
+        <dd>{location || <span className="text-gray-400">none</span>}</dd>
+      </dl>
+
+      {action.status === 'confirmed' && (
+        <p className="mt-2 text-xs text-emerald-700">Saved. It will sync when you are online.</p>
+      )}
+      {action.status === 'cancelled' && <p className="mt-2 text-xs text-gray-500">Discarded</p>}
+      {action.status === 'pending' && !can('records.create') && (
+        <p className="mt-2 text-xs text-gray-500">Your role can view records but not add them.</p>
+      )}
+      {(action.status === 'pending' || action.status === 'saving') && can('records.create') && (
+        <div className="flex justify-end space-x-2 mt-3">
+          <button
+            onClick={onCancel}
+            disabled={action.status === 'saving'}
+            className="inline-flex items-center px-3 py-1.5 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            <X className="h-3 w-3 mr-1" />
+            Discard
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={action.status === 'saving'}
+            className="inline-flex items-center px-3 py-1.5 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Check className="h-3 w-3 mr-1" />
+            {action.status === 'saving' ? 'Saving...' : 'Save record'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
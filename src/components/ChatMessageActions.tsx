@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { ChatMessage } from '../lib/chatSessions'
+import { ChatFeedback, saveFeedback } from '../lib/chatFeedback'
+import { stripCitations } from '../lib/citations'
+import { useAuth } from '../contexts/AuthContext'
+import { Copy, Check, ThumbsUp, ThumbsDown } from 'lucide-react'
+
+interface ChatMessageActionsProps {
+  message: ChatMessage
+}
+
+const COPIED_RESET_MS = 2000
+
+export function ChatMessageActions({ message }: ChatMessageActionsProps) {
+  const { user } = useAuth()
+  const [copied, setCopied] = useState(false)
+  const [feedback, setFeedback] = useState<ChatFeedback | null>(message.feedback ?? null)
+  const [comment, setComment] = useState(message.feedback?.comment ?? '')
+  const [showComment, setShowComment] = useState(false)
+  const [error, setError] = useState('')
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(stripCitations(message.content))
+      setCopied(true)
+      setTimeout(() => setCopied(false), COPIED_RESET_MS)
+    } catch (error) {
+      console.error('Error copying message:', error)
+    }
+  }
+
+  const submit = async (next: ChatFeedback) => {
+    if (!user || !message.logId) return
+
+    const previous = feedback
+    setFeedback(next)
+    setError('')
+    try {
+      await saveFeedback(message.logId, user.id, next)
+    } catch (error) {
+      console.error('Error saving feedback:', error)
+      setFeedback(previous)
+      setError('Feedback could not be saved. Please try again when online.')
+    }
+  }
+
+  const rate = (rating: number) => {
+    submit({ rating, comment })
+    setShowComment(true)
+  }
+
+  const buttonClassName = (active: boolean) =>
+    `p-1 rounded transition-colors ${active ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center space-x-1">
+        <button onClick={copy} className={buttonClassName(false)} title={copied ? 'Copied' : 'Copy answer'}>
+          {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+        </button>
+        {message.logId && (
+          <>
+            <button onClick={() => rate(1)} className={buttonClassName(feedback?.rating === 1)} title="Helpful">
+              <ThumbsUp className="h-3.5 w-3.5" />
+            </button>
+            <button onClick={() => rate(-1)} className={buttonClassName(feedback?.rating === -1)} title="Not helpful">
+              <ThumbsDown className="h-3.5 w-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {showComment && feedback && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            submit({ rating: feedback.rating, comment })
+            setShowComment(false)
+          }}
+          className="mt-2 space-y-2"
+        >
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder={feedback.rating === 1 ? 'What was helpful? (optional)' : 'What went wrong? (optional)'}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowComment(false)}
+              className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800"
+            >
+              Skip
+            </button>
+            <button type="submit" className="px-2 py-1 text-xs bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              Send
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
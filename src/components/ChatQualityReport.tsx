@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react'
+import { loadFeedbackReport } from '../lib/chatFeedback'
+import { stripCitations } from '../lib/citations'
+import { formatDateTime } from '../lib/format'
+import { useAuth } from '../contexts/AuthContext'
+import { InlineChart } from './InlineChart'
+import { ThumbsUp, ThumbsDown } from 'lucide-react'
+
+type FeedbackReport = Awaited<ReturnType<typeof loadFeedbackReport>>
+
+const PERIODS = [7, 30, 90]
+const ANSWER_PREVIEW_LENGTH = 240
+
+export function ChatQualityReport() {
+  const { can, profile } = useAuth()
+  const allowed = can('feedback.view')
+  const [days, setDays] = useState(30)
+  const [report, setReport] = useState<FeedbackReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!allowed) return
+
+    setLoading(true)
+    loadFeedbackReport(days)
+      .then(result => {
+        setReport(result)
+        setError('')
+      })
+      .catch(error => {
+        console.error('Error loading feedback report:', error)
+        setError('The feedback report can only be loaded while online.')
+      })
+      .finally(() => setLoading(false))
+  }, [days, allowed])
+
+  if (!allowed) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <p className="text-gray-600">Only administrators and supervisors can view chatbot feedback.</p>
+      </div>
+    )
+  }
+
+  const daily = report?.daily ?? []
+  const positive = daily.reduce((sum, day) => sum + Number(day.positive), 0)
+  const negative = daily.reduce((sum, day) => sum + Number(day.negative), 0)
+  const total = positive + negative
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Assistant Feedback</h1>
+          <p className="text-gray-600">How users rate the AI assistant's answers</p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {PERIODS.map(period => (
+            <option key={period} value={period}>Last {period} days</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Helpful</p>
+              <p className="text-2xl font-bold text-emerald-700">{positive}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Not helpful</p>
+              <p className="text-2xl font-bold text-red-700">{negative}</p>
+            </div>
+            <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+              <p className="text-sm font-medium text-gray-600">Satisfaction</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {total > 0 ? `${Math.round((positive / total) * 100)}%` : '—'}
+              </p>
+            </div>
+          </div>
+
+          {daily.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+                <InlineChart
+                  spec={{
+                    title: 'Ratings per day',
+                    type: 'bar',
+                    unit: '',
+                    points: daily.map(day => ({ label: day.day, value: Number(day.positive) + Number(day.negative) }))
+                  }}
+                />
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
+                <InlineChart
+                  spec={{
+                    title: 'Share rated helpful',
+                    type: 'line',
+                    unit: '%',
+                    points: daily.map(day => ({
+                      label: day.day,
+                      value: (Number(day.positive) / (Number(day.positive) + Number(day.negative))) * 100
+                    }))
+                  }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Recent comments</h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {report && report.comments.length > 0 ? (
+                report.comments.map(item => (
+                  <div key={item.id} className="px-6 py-4 space-y-1">
+                    <div className="flex items-center text-sm text-gray-900">
+                      {item.rating === 1 ? (
+                        <ThumbsUp className="h-4 w-4 text-emerald-600 mr-2" />
+                      ) : (
+                        <ThumbsDown className="h-4 w-4 text-red-600 mr-2" />
+                      )}
+                      <span className="font-medium">{item.comment}</span>
+                      <span className="ml-auto text-xs text-gray-500">{formatDateTime(item.created_at, profile)}</span>
+                    </div>
+                    <p className="text-xs text-gray-600"><span className="font-medium">Question:</span> {item.message}</p>
+                    <p className="text-xs text-gray-500">
+                      <span className="font-medium">Answer:</span>{' '}
+                      {stripCitations(item.response).slice(0, ANSWER_PREVIEW_LENGTH)}
+                      {item.response.length > ANSWER_PREVIEW_LENGTH && '…'}
+                    </p>
+                  </div>
+                ))
+              ) : (
+                <p className="px-6 py-12 text-center text-gray-500">No comments yet</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react'
+import { ChatSession } from '../lib/chatSessions'
+import { formatDate } from '../lib/format'
+import { useAuth } from '../contexts/AuthContext'
+import { Plus, Pencil, Trash2, Check, X, MessageSquare } from 'lucide-react'
+
+interface ChatSessionListProps {
+  sessions: ChatSession[]
+  activeSessionId: string | null
+  onSelect: (id: string) => void
+  onNew: () => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+}
+
+export function ChatSessionList({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete
+}: ChatSessionListProps) {
+  const { profile } = useAuth()
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [title, setTitle] = useState('')
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id)
+    setTitle(session.title)
+  }
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (editingId && title.trim()) onRename(editingId, title.trim())
+    setEditingId(null)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 flex flex-col">
+      <div className="p-3 border-b border-gray-200">
+        <button
+          onClick={onNew}
+          className="w-full inline-flex items-center justify-center px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New conversation
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sessions.length === 0 && (
+          <li className="px-2 py-4 text-sm text-gray-500 text-center">No past conversations</li>
+        )}
+        {sessions.map(session => (
+          <li key={session.id}>
+            {editingId === session.id ? (
+              <form onSubmit={submitRename} className="flex items-center space-x-1 px-1">
+                <input
+                  autoFocus
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button type="submit" className="text-emerald-600 hover:text-emerald-800" title="Save">
+                  <Check className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                  title="Cancel"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </form>
+            ) : (
+              <div
+                className={`group flex items-center rounded-md px-2 py-2 cursor-pointer ${
+                  session.id === activeSessionId ? 'bg-blue-50 text-blue-800' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+                onClick={() => onSelect(session.id)}
+              >
+                <MessageSquare className="h-4 w-4 mr-2 flex-shrink-0 text-gray-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{session.title}</p>
+                  <p className="text-xs text-gray-500">{formatDate(session.updated_at, profile)}</p>
+                </div>
+                <div className="flex space-x-1 ml-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      startRename(session)
+                    }}
+                    className="text-gray-400 hover:text-gray-700"
+                    title="Rename"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      if (confirm('Delete this conversation?')) onDelete(session.id)
+                    }}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
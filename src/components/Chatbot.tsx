@@ -1,28 +1,52 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { supabase } from '../lib/supabase'
+import { useNavigate, useParams } from 'react-router-dom'
+import { citationQuery, splitCitations } from '../lib/citations'
+import {
+  ChatAction,
+  ChatMessage,
+  ChatSession,
+  GREETING,
+  deleteChatSession,
+  getActiveSessionId,
+  listChatSessions,
+  loadSessionMessages,
+  renameChatSession,
+  setActiveSessionId
+} from '../lib/chatSessions'
+import { isAbortError, streamChat } from '../lib/chatStream'
+import { enqueueRecord } from '../lib/outbox'
+import { syncOutbox } from '../lib/sync'
+import { announce, stopSpeaking, toSpeechText } from '../lib/speech'
+import { RecordsQuery, recordsPath } from '../lib/recordFilters'
+import { formatDate, formatTime, utcOffsetMinutes } from '../lib/format'
 import { useAuth } from '../contexts/AuthContext'
-import { Send, Bot, User, AlertCircle } from 'lucide-react'
+import { useProject } from '../contexts/ProjectContext'
+import { ChatSessionList } from './ChatSessionList'
+import { ChatActionCard } from './ChatActionCard'
+import { ChatMessageActions } from './ChatMessageActions'
+import { Markdown } from './Markdown'
+import { PushToTalkButton } from './PushToTalkButton'
+import { ReadAloudToggle } from './ReadAloudToggle'
+import { Send, Bot, User, AlertCircle, FileText, CalendarRange, MessageSquare, Square } from 'lucide-react'
 
-interface Message {
-  id: string
-  content: string
-  isUser: boolean
-  timestamp: Date
-}
+type Message = ChatMessage
 
 export function Chatbot() {
-  const { user } = useAuth()
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: 'Hello! I\'m your AI field assistant. I can help you analyze your data, answer questions about best practices, and provide insights about your field records.',
-      isUser: false,
-      timestamp: new Date()
-    }
-  ])
+  const { user, profile } = useAuth()
+  const { activeProject } = useProject()
+  const navigate = useNavigate()
+  // The conversation in the URL (/chat/:sessionId); sessionId below catches up
+  // once its messages have loaded, or straight away for a session the server
+  // has just started.
+  const { sessionId: routeSessionId } = useParams()
+  const [messages, setMessages] = useState<Message[]>([GREETING])
+  const [sessions, setSessions] = useState<ChatSession[]>([])
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [showSessions, setShowSessions] = useState(false)
   const [inputValue, setInputValue] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -32,6 +56,87 @@ export function Chatbot() {
     scrollToBottom()
   }, [messages])
 
+  const refreshSessions = async () => {
+    try {
+      setSessions(await listChatSessions())
+    } catch (error) {
+      console.error('Error loading chat sessions:', error)
+    }
+  }
+
+  useEffect(() => {
+    refreshSessions()
+
+    // Leaving the view stops an answer that is still streaming, and stops
+    // reading one out.
+    return () => {
+      abortRef.current?.abort()
+      stopSpeaking()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!routeSessionId) {
+      // Reopen the conversation that was active when the user left the view.
+      const activeId = getActiveSessionId()
+      if (activeId) navigate(`/chat/${activeId}`, { replace: true })
+      return
+    }
+    if (routeSessionId === sessionId) return
+
+    let cancelled = false
+    loadSessionMessages(routeSessionId)
+      .then(loaded => {
+        if (cancelled) return
+        setSessionId(routeSessionId)
+        setActiveSessionId(routeSessionId)
+        setMessages([GREETING, ...loaded])
+      })
+      .catch(error => {
+        console.error('Error loading chat session:', error)
+        if (cancelled) return
+        setActiveSessionId(null)
+        navigate('/chat', { replace: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [routeSessionId, sessionId, navigate])
+
+  const selectSession = (id: string) => {
+    setShowSessions(false)
+    navigate(`/chat/${id}`)
+  }
+
+  const startNewSession = () => {
+    setSessionId(null)
+    setActiveSessionId(null)
+    setMessages([GREETING])
+    setShowSessions(false)
+    navigate('/chat')
+  }
+
+  const openRecords = (query: RecordsQuery) => navigate(recordsPath(query))
+
+  const renameSession = async (id: string, title: string) => {
+    try {
+      await renameChatSession(id, title)
+      setSessions(prev => prev.map(session => (session.id === id ? { ...session, title } : session)))
+    } catch (error) {
+      console.error('Error renaming chat session:', error)
+    }
+  }
+
+  const deleteSession = async (id: string) => {
+    try {
+      await deleteChatSession(id)
+      setSessions(prev => prev.filter(session => session.id !== id))
+      if (id === sessionId) startNewSession()
+    } catch (error) {
+      console.error('Error deleting chat session:', error)
+    }
+  }
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!inputValue.trim() || isLoading || !user) return
@@ -43,152 +148,280 @@ export function Chatbot() {
       timestamp: new Date()
     }
 
+    const botId = (Date.now() + 1).toString()
+    const updateBotMessage = (update: (message: Message) => Message) =>
+      setMessages(prev => {
+        // The answer bubble appears with the first token; until then the
+        // typing indicator is shown.
+        if (!prev.some(message => message.id === botId)) {
+          const placeholder: Message = { id: botId, content: '', isUser: false, timestamp: new Date() }
+          return [...prev, update(placeholder)]
+        }
+        return prev.map(message => (message.id === botId ? update(message) : message))
+      })
+
     setMessages(prev => [...prev, userMessage])
     setInputValue('')
     setIsLoading(true)
 
+    const controller = new AbortController()
+    abortRef.current = controller
+    let received = false
+    let answer = ''
+
     try {
-      // Call the chatbot edge function
-      const { data, error } = await supabase.functions.invoke('chatbot', {
-        body: {
+      // The function identifies the user from the session token and writes
+      // the chat log itself, including answers stopped part-way.
+      const result = await streamChat(
+        {
           message: inputValue,
-          user_id: user.id,
-          apiKey: import.meta.env.VITE_GEMINI_API_KEY
-        }
-      })
-
-      if (error) throw error
-
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: data.response || 'I apologize, but I encountered an error processing your request.',
-        isUser: false,
-        timestamp: new Date()
-      }
-
-      setMessages(prev => [...prev, aiMessage])
-
-      // Save to chat logs
-      await supabase
-        .from('chatbot_logs')
-        .insert([
-          {
-            user_id: user.id,
-            message: inputValue,
-            response: data.response,
-            timestamp: new Date().toISOString()
+          session_id: sessionId ?? undefined,
+          project_id: activeProject?.id,
+          utc_offset_minutes: utcOffsetMinutes(profile)
+        },
+        {
+          onSession: (id) => {
+            if (id !== sessionId) {
+              setSessionId(id)
+              setActiveSessionId(id)
+              navigate(`/chat/${id}`, { replace: true })
+            }
+          },
+          onToken: (text) => {
+            received = true
+            answer += text
+            updateBotMessage(message => ({ ...message, content: message.content + text }))
+          },
+          onAction: (action) => {
+            received = true
+            updateBotMessage(message => ({
+              ...message,
+              actions: [...(message.actions ?? []), { ...action, status: 'pending' }]
+            }))
           }
-        ])
+        },
+        controller.signal
+      )
 
+      updateBotMessage(message => ({
+        ...message,
+        citations: result.citations,
+        truncated: result.truncated,
+        logId: result.logId ?? undefined
+      }))
+      if (!result.truncated) announce(toSpeechText(answer))
     } catch (error) {
-      console.error('Error sending message:', error)
-      
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: 'I\'m sorry, but I\'m having trouble connecting right now. Please try again later.',
-        isUser: false,
-        timestamp: new Date()
+      if (isAbortError(error)) {
+        updateBotMessage(message => ({ ...message, truncated: true }))
+      } else if (received) {
+        console.error('Chatbot stream interrupted:', error)
+        updateBotMessage(message => ({ ...message, truncated: true }))
+      } else {
+        console.error('Error sending message:', error)
+        updateBotMessage(message => ({
+          ...message,
+          content: 'I\'m sorry, but I\'m having trouble connecting right now. Please try again later.'
+        }))
       }
-
-      setMessages(prev => [...prev, errorMessage])
     } finally {
+      abortRef.current = null
       setIsLoading(false)
+      refreshSessions()
+    }
+  }
+
+  const setActionStatus = (messageId: string, actionId: string, status: ChatAction['status']) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId
+        ? {
+            ...message,
+            actions: message.actions?.map(action => (action.id === actionId ? { ...action, status } : action))
+          }
+        : message
+    ))
+  }
+
+  // The assistant only proposes records; this is where one is actually
+  // written, through the outbox like a record entered on the form.
+  const confirmAction = async (messageId: string, action: ChatAction) => {
+    if (!user || !activeProject) return
+    setActionStatus(messageId, action.id, 'saving')
+
+    try {
+      await enqueueRecord(
+        {
+          field: action.record.field,
+          value: action.record.value,
+          location: action.record.location,
+          user_id: user.id,
+          project_id: activeProject.id,
+          timestamp: new Date().toISOString()
+        },
+        `Added field record via assistant: ${action.record.field} = ${action.record.value}`
+      )
+      syncOutbox()
+      setActionStatus(messageId, action.id, 'confirmed')
+      announce(`Saved ${action.record.field}, ${action.record.value}`)
+    } catch (error) {
+      console.error('Error saving record from chat:', error)
+      setActionStatus(messageId, action.id, 'pending')
     }
   }
 
+  const stopResponse = () => {
+    abortRef.current?.abort()
+    stopSpeaking()
+  }
+
+  const awaitingAnswer = isLoading && messages[messages.length - 1]?.isUser
+
   return (
-    <div className="max-w-4xl mx-auto h-full flex flex-col">
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 flex-1 flex flex-col">
-        {/* Header */}
-        <div className="px-6 py-4 border-b border-gray-200">
-          <div className="flex items-center">
-            <Bot className="h-6 w-6 text-blue-600 mr-3" />
-            <div>
-              <h2 className="text-xl font-semibold text-gray-900">AI Field Assistant</h2>
-              <p className="text-gray-600 text-sm">Get insights and help with your field data</p>
+    <div className="max-w-6xl mx-auto h-full flex flex-col">
+      <div className="flex-1 flex flex-col md:flex-row gap-4">
+        <aside className={`${showSessions ? 'block' : 'hidden'} md:block md:w-64 flex-shrink-0`}>
+          <ChatSessionList
+            sessions={sessions}
+            activeSessionId={sessionId}
+            onSelect={selectSession}
+            onNew={startNewSession}
+            onRename={renameSession}
+            onDelete={deleteSession}
+          />
+        </aside>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 flex-1 flex flex-col min-w-0">
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-gray-200">
+            <div className="flex items-center">
+              <Bot className="h-6 w-6 text-blue-600 mr-3" />
+              <div className="flex-1">
+                <h2 className="text-xl font-semibold text-gray-900">AI Field Assistant</h2>
+                <p className="text-gray-600 text-sm">
+                  Get insights and help with your field data{activeProject && ` in ${activeProject.name}`}
+                </p>
+              </div>
+              <ReadAloudToggle />
+              <button
+                onClick={() => setShowSessions(!showSessions)}
+                className="md:hidden ml-2 text-gray-500 hover:text-gray-700"
+                title="Conversations"
+              >
+                <MessageSquare className="h-5 w-5" />
+              </button>
             </div>
           </div>
-        </div>
 
-        {/* Messages */}
-        <div className="flex-1 overflow-y-auto p-6 space-y-4" style={{ maxHeight: 'calc(100vh - 300px)' }}>
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex items-start space-x-3 ${
-                message.isUser ? 'justify-end' : 'justify-start'
-              }`}
-            >
-              {!message.isUser && (
-                <div className="flex-shrink-0">
-                  <Bot className="h-8 w-8 text-blue-600 bg-blue-100 rounded-full p-1.5" />
-                </div>
-              )}
-              
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4" style={{ maxHeight: 'calc(100vh - 300px)' }}>
+            {messages.map((message) => (
               <div
-                className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-                  message.isUser
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-100 text-gray-900'
+                key={message.id}
+                className={`flex items-start space-x-3 ${
+                  message.isUser ? 'justify-end' : 'justify-start'
                 }`}
               >
-                <p className="text-sm">{message.content}</p>
-                <p
-                  className={`text-xs mt-1 ${
-                    message.isUser ? 'text-blue-200' : 'text-gray-500'
+                {!message.isUser && (
+                  <div className="flex-shrink-0">
+                    <Bot className="h-8 w-8 text-blue-600 bg-blue-100 rounded-full p-1.5" />
+                  </div>
+                )}
+              
+                <div
+                  className={`px-4 py-2 rounded-lg ${
+                    message.isUser
+                      ? 'max-w-xs lg:max-w-md bg-blue-600 text-white'
+                      : 'min-w-0 max-w-full lg:max-w-2xl bg-gray-100 text-gray-900'
                   }`}
                 >
-                  {message.timestamp.toLocaleTimeString()}
-                </p>
+                  {message.isUser ? (
+                    <p className="text-sm">{message.content}</p>
+                  ) : (
+                    <MessageContent message={message} onOpenRecords={openRecords} />
+                  )}
+                  {message.actions?.map(action => (
+                    <ChatActionCard
+                      key={action.id}
+                      action={action}
+                      onConfirm={() => confirmAction(message.id, action)}
+                      onCancel={() => setActionStatus(message.id, action.id, 'cancelled')}
+                    />
+                  ))}
+                  <p
+                    className={`text-xs mt-1 ${
+                      message.isUser ? 'text-blue-200' : 'text-gray-500'
+                    }`}
+                  >
+                    {formatTime(message.timestamp, profile)}
+                  </p>
+                  {!message.isUser && message.id !== GREETING.id && !(isLoading && message === messages[messages.length - 1]) && (
+                    <ChatMessageActions message={message} />
+                  )}
+                </div>
+
+                {message.isUser && (
+                  <div className="flex-shrink-0">
+                    <User className="h-8 w-8 text-gray-600 bg-gray-200 rounded-full p-1.5" />
+                  </div>
+                )}
               </div>
+            ))}
 
-              {message.isUser && (
+            {awaitingAnswer && (
+              <div className="flex items-start space-x-3">
                 <div className="flex-shrink-0">
-                  <User className="h-8 w-8 text-gray-600 bg-gray-200 rounded-full p-1.5" />
+                  <Bot className="h-8 w-8 text-blue-600 bg-blue-100 rounded-full p-1.5" />
                 </div>
-              )}
-            </div>
-          ))}
-
-          {isLoading && (
-            <div className="flex items-start space-x-3">
-              <div className="flex-shrink-0">
-                <Bot className="h-8 w-8 text-blue-600 bg-blue-100 rounded-full p-1.5" />
-              </div>
-              <div className="bg-gray-100 rounded-lg px-4 py-2">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                  <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                <div className="bg-gray-100 rounded-lg px-4 py-2">
+                  <div className="flex space-x-1">
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
-        </div>
+            <div ref={messagesEndRef} />
+          </div>
 
-        {/* Input Form */}
-        <div className="border-t border-gray-200 p-4">
-          <form onSubmit={sendMessage} className="flex space-x-3">
-            <input
-              type="text"
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              placeholder="Ask me about your field data, best practices, or anything else..."
-              className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              disabled={isLoading}
-            />
-            <button
-              type="submit"
-              disabled={isLoading || !inputValue.trim()}
-              className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors flex items-center ${
-                isLoading || !inputValue.trim() ? 'opacity-50 cursor-not-allowed' : ''
-              }`}
-            >
-              <Send className="h-4 w-4" />
-            </button>
-          </form>
+          {/* Input Form */}
+          <div className="border-t border-gray-200 p-4">
+            <form onSubmit={sendMessage} className="flex space-x-3">
+              <input
+                type="text"
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value)}
+                placeholder="Ask me about your field data, best practices, or anything else..."
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isLoading}
+              />
+              <PushToTalkButton
+                onTranscript={(text) => setInputValue(text)}
+                disabled={isLoading}
+              />
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stopResponse}
+                  className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition-colors flex items-center"
+                  title="Stop generating"
+                >
+                  <Square className="h-4 w-4 mr-2" />
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!inputValue.trim()}
+                  className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors flex items-center ${
+                    !inputValue.trim() ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  <Send className="h-4 w-4" />
+                </button>
+              )}
+            </form>
+          </div>
         </div>
       </div>
 
@@ -206,4 +439,67 @@ export function Chatbot() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+const chipClassName =
+  'inline-flex items-center mx-0.5 px-1.5 py-0.5 rounded bg-blue-50 border border-blue-200 text-xs text-blue-700 hover:bg-blue-100 align-baseline'
+
+function MessageContent({ message, onOpenRecords }: { message: Message; onOpenRecords: (query: RecordsQuery) => void }) {
+  const { profile } = useAuth()
+  const citations = message.citations
+  const records = new Map(citations?.records.map(record => [record.id, record]))
+
+  // Citation tokens can appear anywhere in the Markdown text, including list
+  // items and table cells.
+  const renderText = (text: string, key: string) =>
+    splitCitations(text).map((segment, index) => {
+      if (segment.type === 'text') return <span key={`${key}-${index}`}>{segment.text}</span>
+
+      if (segment.type === 'record') {
+        const record = records.get(segment.id)
+        return (
+          <button
+            key={`${key}-${index}`}
+            onClick={() => onOpenRecords({ recordIds: [segment.id] })}
+            className={chipClassName}
+            title={record ? `${record.field} = ${record.value}` : segment.id}
+          >
+            <FileText className="h-3 w-3 mr-1" />
+            {record
+              ? `${record.field}, ${formatDate(record.timestamp, profile)}`
+              : `Record ${segment.id.slice(0, 8)}`}
+          </button>
+        )
+      }
+
+      const range = { from: segment.from, to: segment.to }
+      return (
+        <button
+          key={`${key}-${index}`}
+          onClick={() =>
+            onOpenRecords(citations ? citationQuery(citations, range) : { dateFrom: range.from, dateTo: range.to })
+          }
+          className={chipClassName}
+        >
+          <CalendarRange className="h-3 w-3 mr-1" />
+          {range.from === range.to ? range.from : `${range.from} – ${range.to}`}
+        </button>
+      )
+    })
+
+  return (
+    <div className="text-sm">
+      <Markdown source={message.content} renderText={renderText} />
+      {message.truncated && (
+        <p className="mt-1 text-xs italic text-gray-500">Response stopped</p>
+      )}
+      {citations && citations.total > 0 && (
+        <button
+          onClick={() => onOpenRecords(citationQuery(citations))}
+          className="mt-2 text-xs text-blue-700 hover:underline"
+        >
+          Based on {citations.total} record{citations.total === 1 ? '' : 's'} · open in Records
+        </button>
+      )}
+    </div>
+  )
+}
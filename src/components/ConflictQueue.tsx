@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Smartphone, Server } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { ConflictEntry, listConflicts, subscribeToOutbox } from '../lib/outbox'
+import { ConflictChoice, conflictingFields, resolveConflict } from '../lib/conflicts'
+import { formatDateTime } from '../lib/format'
+
+export function ConflictQueue() {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [conflicts, setConflicts] = useState<ConflictEntry[]>([])
+
+  useEffect(() => {
+    const loadConflicts = async () => {
+      try {
+        // Conflicts from another user's edits wait for them to sign in here.
+        const all = await listConflicts()
+        setConflicts(all.filter(conflict => conflict.userId === userId))
+      } catch (error) {
+        console.error('Error loading conflicts:', error)
+      }
+    }
+
+    loadConflicts()
+    return subscribeToOutbox(loadConflicts)
+  }, [userId])
+
+  if (conflicts.length === 0) return null
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-amber-300">
+      <div className="flex items-center mb-4">
+        <AlertTriangle className="h-5 w-5 text-amber-600 mr-2" />
+        <h2 className="text-lg font-semibold text-gray-900">
+          {conflicts.length} sync {conflicts.length === 1 ? 'conflict' : 'conflicts'} to review
+        </h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        These records were changed on another device while you were editing them. Choose which values to keep.
+      </p>
+      <div className="space-y-4">
+        {conflicts.map(conflict => (
+          <ConflictCard key={conflict.id} conflict={conflict} />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function ConflictCard({ conflict }: { conflict: ConflictEntry }) {
+  const { profile } = useAuth()
+  const fields = conflictingFields(conflict)
+  const [selections, setSelections] = useState<Record<string, ConflictChoice>>(
+    () => Object.fromEntries(fields.map(key => [key, 'local' as ConflictChoice]))
+  )
+  const [resolving, setResolving] = useState(false)
+
+  const resolve = async (choices: Record<string, ConflictChoice>) => {
+    setResolving(true)
+    try {
+      await resolveConflict(conflict, choices)
+    } catch (error) {
+      console.error('Error resolving conflict:', error)
+      setResolving(false)
+    }
+  }
+
+  const allOf = (choice: ConflictChoice) =>
+    Object.fromEntries(fields.map(key => [key, choice]))
+
+  const formatValue = (value: unknown) =>
+    value === null || value === undefined || value === '' ? '—' : String(value)
+
+  return (
+    <div className="border border-gray-200 rounded-md p-4">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            {conflict.server?.field ?? conflict.local.field ?? 'Field record'}
+          </p>
+          <p className="text-xs text-gray-500">
+            {conflict.server
+              ? `Server copy is version ${conflict.server.version}, updated ${formatDateTime(conflict.server.updated_at, profile)}`
+              : 'This record was deleted on another device'}
+          </p>
+        </div>
+      </div>
+
+      {conflict.server && fields.length > 0 && (
+        <table className="min-w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+              <th className="py-1 pr-4">Field</th>
+              <th className="py-1 pr-4">
+                <span className="inline-flex items-center"><Smartphone className="h-3 w-3 mr-1" />This device</span>
+              </th>
+              <th className="py-1">
+                <span className="inline-flex items-center"><Server className="h-3 w-3 mr-1" />Server</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(key => (
+              <tr key={key} className="border-t border-gray-100">
+                <td className="py-2 pr-4 font-medium text-gray-700 capitalize">{key}</td>
+                <td className="py-2 pr-4">
+                  <label className="inline-flex items-center">
+                    <input
+                      type="radio"
+                      name={`${conflict.id}-${key}`}
+                      checked={selections[key] === 'local'}
+                      onChange={() => setSelections(prev => ({ ...prev, [key]: 'local' }))}
+                      className="mr-2"
+                    />
+                    {formatValue(conflict.local[key])}
+                  </label>
+                </td>
+                <td className="py-2">
+                  <label className="inline-flex items-center">
+                    <input
+                      type="radio"
+                      name={`${conflict.id}-${key}`}
+                      checked={selections[key] === 'server'}
+                      onChange={() => setSelections(prev => ({ ...prev, [key]: 'server' }))}
+                      className="mr-2"
+                    />
+                    {formatValue(conflict.server?.[key])}
+                  </label>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap gap-2 justify-end">
+        {conflict.server && (
+          <>
+            <button
+              onClick={() => resolve(allOf('local'))}
+              disabled={resolving}
+              className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Keep mine
+            </button>
+            <button
+              onClick={() => resolve(selections)}
+              disabled={resolving}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Merge selected
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => resolve(allOf('server'))}
+          disabled={resolving}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+        >
+          {conflict.server ? 'Keep server' : 'Discard my changes'}
+        </button>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -1,6 +1,13 @@
-import React, { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '../lib/supabase'
+import { recordRoundTrip } from '../lib/sync'
+import { toCsv } from '../lib/csv'
+import { fetchAllRecords } from '../lib/recordPages'
+import { calendarDate, formatDateTime } from '../lib/format'
+import { startOfDay } from '../lib/recordFilters'
 import { useAuth } from '../contexts/AuthContext'
+import { useProject } from '../contexts/ProjectContext'
+import { useSync } from '../contexts/SyncContext'
 import { 
   Database, 
   TrendingUp, 
@@ -13,8 +20,6 @@ import {
 interface DashboardStats {
   totalRecords: number
   todayRecords: number
-  syncStatus: 'synced' | 'pending' | 'error'
-  lastSync: string
 }
 
 interface FieldData {
@@ -24,38 +29,50 @@ interface FieldData {
 }
 
 export function Dashboard() {
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
+  const { activeProject, loading: projectsLoading } = useProject()
+  const projectId = activeProject?.id ?? ''
+  const { status: syncStatus, health: syncHealth } = useSync()
   const [stats, setStats] = useState<DashboardStats>({
     totalRecords: 0,
-    todayRecords: 0,
-    syncStatus: 'synced',
-    lastSync: new Date().toISOString()
+    todayRecords: 0
   })
   const [recentRecords, setRecentRecords] = useState<FieldData[]>([])
   const [loading, setLoading] = useState(true)
 
-  useEffect(() => {
-    loadDashboardData()
-  }, [user])
+  const loadDashboardData = useCallback(async () => {
+    // Nothing is asked for until a project is active.
+    if (!projectId) {
+      setLoading(projectsLoading)
+      return
+    }
 
-  const loadDashboardData = async () => {
     try {
       // Get total records
-      const { count: totalRecords } = await supabase
+      const { count: totalRecords, error } = await supabase
         .from('field_records')
         .select('*', { count: 'exact', head: true })
+        .eq('project_id', projectId)
+        .is('deleted_at', null)
+
+      if (error) throw error
+      recordRoundTrip()
 
-      // Get today's records
-      const today = new Date().toISOString().split('T')[0]
+      // Get today's records, today being the day in the profile's timezone
+      const today = startOfDay(calendarDate(new Date(), profile), profile)!
       const { count: todayRecords } = await supabase
         .from('field_records')
         .select('*', { count: 'exact', head: true })
+        .eq('project_id', projectId)
+        .is('deleted_at', null)
         .gte('timestamp', today)
 
       // Get recent records grouped by field
       const { data: fieldData } = await supabase
         .from('field_records')
         .select('field, value')
+        .eq('project_id', projectId)
+        .is('deleted_at', null)
         .order('timestamp', { ascending: false })
         .limit(10)
 
@@ -73,42 +90,45 @@ export function Dashboard() {
 
       setStats({
         totalRecords: totalRecords || 0,
-        todayRecords: todayRecords || 0,
-        syncStatus: 'synced',
-        lastSync: new Date().toISOString()
+        todayRecords: todayRecords || 0
       })
 
       setRecentRecords(Object.values(groupedData).slice(0, 5))
       setLoading(false)
     } catch (error) {
       console.error('Error loading dashboard data:', error)
-      setStats(prev => ({ ...prev, syncStatus: 'error' }))
       setLoading(false)
     }
-  }
+  }, [projectId, projectsLoading, profile])
+
+  useEffect(() => {
+    loadDashboardData()
+  }, [user, loadDashboardData])
 
   const exportData = async (format: 'csv' | 'json') => {
-    try {
-      const { data: records } = await supabase
-        .from('field_records')
-        .select('*')
-        .order('timestamp', { ascending: false })
+    if (!projectId) return
 
-      if (!records) return
+    try {
+      // Read in pages; a single request stops at the server's row limit.
+      const records = await fetchAllRecords(projectId, {}, null, profile)
 
       let content = ''
       let filename = ''
       let mimeType = ''
 
       if (format === 'csv') {
-        const headers = ['ID', 'Field', 'Value', 'Location', 'Timestamp']
-        const csvContent = [
-          headers.join(','),
-          ...records.map(record => 
-            [record.id, record.field, record.value, record.location, record.timestamp].join(',')
-          )
-        ].join('\n')
-        
+        const headers = ['ID', 'Field', 'Value', 'Location', 'Latitude', 'Longitude', 'Accuracy', 'Timestamp']
+        const csvContent = toCsv(headers, records.map(record => [
+          record.id,
+          record.field,
+          record.value,
+          record.location,
+          record.latitude,
+          record.longitude,
+          record.accuracy,
+          record.timestamp
+        ]))
+
         content = csvContent
         filename = `field_data_${new Date().toISOString().split('T')[0]}.csv`
         mimeType = 'text/csv'
@@ -146,7 +166,9 @@ export function Dashboard() {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-          <p className="text-gray-600">Overview of your field data collection</p>
+          <p className="text-gray-600">
+            Overview of {activeProject ? activeProject.name : 'your field data collection'}
+          </p>
         </div>
         <div className="flex space-x-3">
           <button
@@ -190,16 +212,21 @@ export function Dashboard() {
 
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <div className="flex items-center">
-            {stats.syncStatus === 'synced' ? (
+            {syncHealth === 'synced' ? (
               <CheckCircle className="h-8 w-8 text-emerald-600" />
-            ) : stats.syncStatus === 'pending' ? (
+            ) : syncHealth === 'pending' ? (
               <Clock className="h-8 w-8 text-amber-600" />
             ) : (
               <AlertCircle className="h-8 w-8 text-red-600" />
             )}
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Sync Status</p>
-              <p className="text-lg font-semibold capitalize text-gray-900">{stats.syncStatus}</p>
+              <p className="text-lg font-semibold capitalize text-gray-900">{syncHealth}</p>
+              <p className="text-xs text-gray-500">
+                {syncStatus.pending + syncStatus.inFlight} queued · {syncStatus.failed} failed
+                {syncStatus.conflicts > 0 && ` · ${syncStatus.conflicts} conflicts`}
+                {!syncStatus.online && ' · offline'}
+              </p>
             </div>
           </div>
         </div>
@@ -210,8 +237,13 @@ export function Dashboard() {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Last Sync</p>
               <p className="text-sm font-semibold text-gray-900">
-                {new Date(stats.lastSync).toLocaleTimeString()}
+                {syncStatus.lastSyncAt ? formatDateTime(syncStatus.lastSyncAt, profile) : 'Never'}
               </p>
+              {syncStatus.lastError && (
+                <p className="text-xs text-red-600 truncate" title={syncStatus.lastError}>
+                  {syncStatus.lastError}
+                </p>
+              )}
             </div>
           </div>
         </div>
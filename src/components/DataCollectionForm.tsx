@@ -1,7 +1,30 @@
-import React, { useState } from 'react'
-import { supabase } from '../lib/supabase'
+import React, { useState, useEffect, useRef } from 'react'
+import { enqueueRecord } from '../lib/outbox'
+import { syncOutbox } from '../lib/sync'
+import {
+  FormTemplate,
+  TemplateData,
+  TemplateValue,
+  emptyTemplateData,
+  loadActiveTemplates,
+  summarizeTemplateData,
+  validateTemplateData
+} from '../lib/templates'
+import { GeoPosition, formatCoordinates, getCurrentPosition } from '../lib/geo'
+import { PendingAttachment } from '../lib/attachments'
+import { config } from '../lib/config'
+import { announce, isSpeechRecognitionSupported } from '../lib/speech'
+import { parseSpokenMeasurement } from '../lib/spokenMeasurement'
+import { formatDateTime, formatDistance } from '../lib/format'
+import { Json } from '../types/database'
 import { useAuth } from '../contexts/AuthContext'
-import { MapPin, Calendar, Save, AlertCircle } from 'lucide-react'
+import { useProject } from '../contexts/ProjectContext'
+import { TemplateFieldInput } from './TemplateFieldInput'
+import { MapPicker } from './MapPicker'
+import { AttachmentInput } from './AttachmentInput'
+import { PushToTalkButton } from './PushToTalkButton'
+import { ReadAloudToggle } from './ReadAloudToggle'
+import { MapPin, Map as MapIcon, Calendar, Save, AlertCircle, AlertTriangle, X } from 'lucide-react'
 
 interface FormData {
   field: string
@@ -13,10 +36,12 @@ interface FormErrors {
   field?: string
   value?: string
   location?: string
+  submit?: string
 }
 
 export function DataCollectionForm() {
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
+  const { activeProject, loading: projectsLoading } = useProject()
   const [formData, setFormData] = useState<FormData>({
     field: '',
     value: '',
@@ -25,99 +50,216 @@ export function DataCollectionForm() {
   const [errors, setErrors] = useState<FormErrors>({})
   const [loading, setLoading] = useState(false)
   const [success, setSuccess] = useState(false)
+  const [savedOffline, setSavedOffline] = useState(false)
+  const [heard, setHeard] = useState<{ text: string; understood: boolean } | null>(null)
+  const [templates, setTemplates] = useState<FormTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [templateData, setTemplateData] = useState<TemplateData>({})
+  const [templateErrors, setTemplateErrors] = useState<Record<string, string>>({})
+  const [position, setPosition] = useState<GeoPosition | null>(null)
+  const [locating, setLocating] = useState(false)
+  const [showMapPicker, setShowMapPicker] = useState(false)
+  const [positionFromPhoto, setPositionFromPhoto] = useState(false)
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
+  const attachmentsRef = useRef(attachments)
+  attachmentsRef.current = attachments
+
+  const selectedTemplate = templates.find(template => template.id === templateId)
+
+  useEffect(() => {
+    loadActiveTemplates().then(setTemplates)
+  }, [])
+
+  useEffect(() => () => {
+    attachmentsRef.current.forEach(attachment => {
+      if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl)
+    })
+  }, [])
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find(item => item.id === id)
+    setTemplateId(id)
+    setTemplateData(template ? emptyTemplateData(template.fields) : {})
+    setTemplateErrors({})
+    setErrors({})
+  }
 
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {}
 
-    if (!formData.field.trim()) {
-      newErrors.field = 'Field name is required'
-    }
+    if (selectedTemplate) {
+      const fieldErrors = validateTemplateData(selectedTemplate.fields, templateData)
+      setTemplateErrors(fieldErrors)
+      if (Object.keys(fieldErrors).length > 0) {
+        newErrors.submit = 'Please fix the highlighted fields'
+      }
+    } else {
+      if (!formData.field.trim()) {
+        newErrors.field = 'Field name is required'
+      }
 
-    if (!formData.value.trim()) {
-      newErrors.value = 'Value is required'
+      if (!formData.value.trim()) {
+        newErrors.value = 'Value is required'
+      }
     }
 
-    if (!formData.location.trim()) {
-      newErrors.location = 'Location is required'
+    if (!position && !formData.location.trim()) {
+      newErrors.location = 'Capture a position or enter a site label'
     }
 
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
 
-  const getCurrentLocation = () => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const { latitude, longitude } = position.coords
-          setFormData(prev => ({
-            ...prev,
-            location: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`
-          }))
-        },
-        (error) => {
-          console.error('Error getting location:', error)
-          setFormData(prev => ({
-            ...prev,
-            location: 'Location unavailable'
-          }))
-        }
-      )
-    } else {
-      console.error('Geolocation is not supported by this browser')
+  const getCurrentLocation = async () => {
+    setLocating(true)
+    try {
+      setPosition(await getCurrentPosition())
+      setPositionFromPhoto(false)
+      setErrors(prev => ({ ...prev, location: undefined }))
+    } catch (error) {
+      console.error('Error getting location:', error)
+      setErrors(prev => ({
+        ...prev,
+        location: `${(error as Error).message}. Pick the point on the map or enter a site label.`
+      }))
+    } finally {
+      setLocating(false)
+    }
+  }
+
+  const pickOnMap = (latitude: number, longitude: number) => {
+    setPosition({ latitude, longitude, accuracy: null, altitude: null, source: 'manual' })
+    setPositionFromPhoto(false)
+    setErrors(prev => ({ ...prev, location: undefined }))
+    setShowMapPicker(false)
+  }
+
+  const addAttachments = (added: PendingAttachment[]) => {
+    setAttachments(prev => [...prev, ...added])
+
+    // A geotagged photo stands in for a GPS fix when none was taken yet.
+    const geotagged = added.find(attachment => attachment.latitude !== null && attachment.longitude !== null)
+    if (!position && geotagged) {
+      setPosition({
+        latitude: geotagged.latitude!,
+        longitude: geotagged.longitude!,
+        accuracy: null,
+        altitude: null,
+        source: 'gps'
+      })
+      setPositionFromPhoto(true)
+      setErrors(prev => ({ ...prev, location: undefined }))
     }
   }
 
+  const removeAttachment = (id: string) => {
+    const removed = attachments.find(attachment => attachment.id === id)
+    if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl)
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
     if (!validateForm()) return
-    if (!user) return
+    if (!user || !activeProject) {
+      setErrors(prev => ({
+        ...prev,
+        submit: projectsLoading
+          ? 'Your projects are still loading. Please try again in a moment.'
+          : 'You are not a member of any project yet. Ask an admin to add you to one before recording data.'
+      }))
+      return
+    }
 
     setLoading(true)
     setSuccess(false)
 
     try {
-      const { error } = await supabase
-        .from('field_records')
-        .insert([
+      // Write to the local outbox first so a record is never lost to a dead
+      // connection; background sync pushes it to field_records.
+      const timestamp = new Date().toISOString()
+      const coordinates = {
+        latitude: position?.latitude ?? null,
+        longitude: position?.longitude ?? null,
+        accuracy: position?.accuracy ?? null,
+        altitude: position?.altitude ?? null,
+        location_source: position?.source ?? null
+      }
+      if (selectedTemplate) {
+        const summary = summarizeTemplateData(selectedTemplate.fields, templateData)
+        await enqueueRecord(
+          {
+            field: selectedTemplate.name,
+            value: summary,
+            location: formData.location.trim(),
+            ...coordinates,
+            user_id: user.id,
+            project_id: activeProject.id,
+            timestamp,
+            template_id: selectedTemplate.id,
+            data: templateData as Json
+          },
+          `Added ${selectedTemplate.name} record: ${summary}`,
+          attachments
+        )
+      } else {
+        await enqueueRecord(
           {
             field: formData.field.trim(),
             value: formData.value.trim(),
             location: formData.location.trim(),
+            ...coordinates,
             user_id: user.id,
-            timestamp: new Date().toISOString()
-          }
-        ])
+            project_id: activeProject.id,
+            timestamp
+          },
+          `Added field record: ${formData.field} = ${formData.value}`,
+          attachments
+        )
+      }
 
-      if (error) throw error
-
-      // Log the activity
-      await supabase
-        .from('activity_logs')
-        .insert([
-          {
-            user_id: user.id,
-            action: 'DATA_ENTRY',
-            details: `Added field record: ${formData.field} = ${formData.value}`,
-            timestamp: new Date().toISOString()
-          }
-        ])
+      syncOutbox()
 
+      setSavedOffline(!navigator.onLine)
       setSuccess(true)
+      announce(navigator.onLine ? 'Record saved' : 'Record saved on this device')
+      setHeard(null)
       setFormData({ field: '', value: '', location: '' })
+      setPosition(null)
+      setPositionFromPhoto(false)
+      attachments.forEach(attachment => {
+        if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl)
+      })
+      setAttachments([])
       setErrors({})
+      if (selectedTemplate) {
+        setTemplateData(emptyTemplateData(selectedTemplate.fields))
+        setTemplateErrors({})
+      }
 
       // Hide success message after 3 seconds
       setTimeout(() => setSuccess(false), 3000)
     } catch (error) {
       console.error('Error saving record:', error)
-      setErrors({ field: 'Failed to save record. Please try again.' })
+      setErrors({ submit: 'Failed to save record on this device. Please try again.' })
     } finally {
       setLoading(false)
     }
   }
 
+  const handleTemplateChange = (key: string, value: TemplateValue) => {
+    setTemplateData(prev => ({ ...prev, [key]: value }))
+    if (templateErrors[key]) {
+      setTemplateErrors(prev => {
+        const next = { ...prev }
+        delete next[key]
+        return next
+      })
+    }
+  }
+
   const handleInputChange = (field: keyof FormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }))
     if (errors[field]) {
@@ -125,12 +267,34 @@ export function DataCollectionForm() {
     }
   }
 
+  // A dictated reading fills whichever of field, value and location it
+  // mentions; anything it leaves out keeps what was typed.
+  const handleSpokenReading = (text: string, final: boolean) => {
+    if (!final) {
+      setHeard({ text, understood: true })
+      return
+    }
+
+    const reading = parseSpokenMeasurement(text)
+    setHeard({ text, understood: reading !== null })
+    if (!reading) return
+
+    if (reading.field) handleInputChange('field', reading.field)
+    handleInputChange('value', reading.value)
+    if (reading.location) handleInputChange('location', reading.location)
+  }
+
   return (
     <div className="max-w-2xl mx-auto">
       <div className="bg-white shadow-sm rounded-lg border border-gray-200">
-        <div className="px-6 py-4 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Data Collection Form</h2>
-          <p className="text-gray-600 mt-1">Enter field measurements and observations</p>
+        <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Data Collection Form</h2>
+            <p className="text-gray-600 mt-1">
+              Enter field measurements and observations{activeProject && ` for ${activeProject.name}`}
+            </p>
+          </div>
+          <ReadAloudToggle />
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
@@ -144,84 +308,183 @@ export function DataCollectionForm() {
                 </div>
                 <div className="ml-3">
                   <p className="text-sm font-medium text-emerald-800">
-                    Record saved successfully!
+                    {savedOffline
+                      ? 'Record saved on this device. It will sync when you are back online.'
+                      : 'Record saved successfully!'}
                   </p>
                 </div>
               </div>
             </div>
           )}
 
-          {/* Field Name */}
+          {/* Form Template */}
+          {templates.length > 0 && (
+            <div>
+              <label htmlFor="template" className="block text-sm font-medium text-gray-700 mb-2">
+                Form
+              </label>
+              <select
+                id="template"
+                value={templateId}
+                onChange={(e) => selectTemplate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Quick entry (field and value)</option>
+                {templates.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              {selectedTemplate?.description && (
+                <p className="mt-1 text-sm text-gray-500">{selectedTemplate.description}</p>
+              )}
+            </div>
+          )}
+
+          {selectedTemplate ? (
+            selectedTemplate.fields.map(field => (
+              <TemplateFieldInput
+                key={field.key}
+                field={field}
+                value={templateData[field.key] ?? null}
+                error={templateErrors[field.key]}
+                onChange={(value) => handleTemplateChange(field.key, value)}
+              />
+            ))
+          ) : (
+            <>
+              {/* Voice Entry */}
+              {isSpeechRecognitionSupported() && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <PushToTalkButton label="Hold to speak a reading" onTranscript={handleSpokenReading} />
+                  <p className="text-sm text-gray-500 min-w-0">
+                    {heard
+                      ? heard.understood
+                        ? `Heard: "${heard.text}"`
+                        : `No number found in "${heard.text}". Try e.g. "temperature twenty five point five at north plot".`
+                      : 'e.g. "temperature twenty five point five degrees at north plot"'}
+                  </p>
+                </div>
+              )}
+
+              {/* Field Name */}
+              <div>
+                <label htmlFor="field" className="block text-sm font-medium text-gray-700 mb-2">
+                  Field Name *
+                </label>
+                <input
+                  type="text"
+                  id="field"
+                  value={formData.field}
+                  onChange={(e) => handleInputChange('field', e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    errors.field ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                  placeholder="e.g., Temperature, Humidity, Soil pH"
+                />
+                {errors.field && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-1" />
+                    {errors.field}
+                  </p>
+                )}
+              </div>
+
+              {/* Value */}
+              <div>
+                <label htmlFor="value" className="block text-sm font-medium text-gray-700 mb-2">
+                  Value *
+                </label>
+                <input
+                  type="text"
+                  id="value"
+                  value={formData.value}
+                  onChange={(e) => handleInputChange('value', e.target.value)}
+                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    errors.value ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                  placeholder="e.g., 25.5°C, 60%, 7.2"
+                />
+                {errors.value && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-1" />
+                    {errors.value}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          {/* Position */}
           <div>
-            <label htmlFor="field" className="block text-sm font-medium text-gray-700 mb-2">
-              Field Name *
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Position
             </label>
-            <input
-              type="text"
-              id="field"
-              value={formData.field}
-              onChange={(e) => handleInputChange('field', e.target.value)}
-              className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                errors.field ? 'border-red-300' : 'border-gray-300'
-              }`}
-              placeholder="e.g., Temperature, Humidity, Soil pH"
-            />
-            {errors.field && (
-              <p className="mt-1 text-sm text-red-600 flex items-center">
-                <AlertCircle className="h-4 w-4 mr-1" />
-                {errors.field}
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={getCurrentLocation}
+                disabled={locating}
+                className="px-4 py-2 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors flex items-center text-sm text-gray-700"
+              >
+                <MapPin className="h-4 w-4 mr-2 text-gray-600" />
+                {locating ? 'Locating...' : 'Use GPS'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowMapPicker(true)}
+                className="px-4 py-2 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors flex items-center text-sm text-gray-700"
+              >
+                <MapIcon className="h-4 w-4 mr-2 text-gray-600" />
+                Pick on map
+              </button>
+            </div>
+            {position && (
+              <div className="mt-2 flex items-center justify-between px-3 py-2 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-700">
+                <span>
+                  {formatCoordinates(position.latitude, position.longitude)}
+                  {position.accuracy !== null && ` ±${formatDistance(position.accuracy, profile)}`}
+                  {position.altitude !== null && ` · ${formatDistance(position.altitude, profile)} altitude`}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {positionFromPhoto ? 'From photo' : position.source === 'gps' ? 'GPS' : 'Placed manually'}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPosition(null)
+                    setPositionFromPhoto(false)
+                  }}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Clear position"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+            {position?.accuracy != null && position.accuracy > config.gpsAccuracyThresholdM && (
+              <p className="mt-1 text-sm text-amber-700 flex items-center">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                GPS accuracy is ±{formatDistance(position.accuracy, profile)}, worse than the {formatDistance(config.gpsAccuracyThresholdM, profile)} target.
+                Wait for a better fix or pick the point on the map.
               </p>
             )}
           </div>
 
-          {/* Value */}
+          {/* Site Label */}
           <div>
-            <label htmlFor="value" className="block text-sm font-medium text-gray-700 mb-2">
-              Value *
+            <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
+              Site Label
             </label>
             <input
               type="text"
-              id="value"
-              value={formData.value}
-              onChange={(e) => handleInputChange('value', e.target.value)}
+              id="location"
+              value={formData.location}
+              onChange={(e) => handleInputChange('location', e.target.value)}
               className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                errors.value ? 'border-red-300' : 'border-gray-300'
+                errors.location ? 'border-red-300' : 'border-gray-300'
               }`}
-              placeholder="e.g., 25.5°C, 60%, 7.2"
+              placeholder="e.g., Field A, North plot"
             />
-            {errors.value && (
-              <p className="mt-1 text-sm text-red-600 flex items-center">
-                <AlertCircle className="h-4 w-4 mr-1" />
-                {errors.value}
-              </p>
-            )}
-          </div>
-
-          {/* Location */}
-          <div>
-            <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
-              Location *
-            </label>
-            <div className="flex space-x-3">
-              <input
-                type="text"
-                id="location"
-                value={formData.location}
-                onChange={(e) => handleInputChange('location', e.target.value)}
-                className={`flex-1 px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                  errors.location ? 'border-red-300' : 'border-gray-300'
-                }`}
-                placeholder="e.g., Field A, GPS coordinates, or address"
-              />
-              <button
-                type="button"
-                onClick={getCurrentLocation}
-                className="px-4 py-2 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
-                title="Get current location"
-              >
-                <MapPin className="h-5 w-5 text-gray-600" />
-              </button>
-            </div>
             {errors.location && (
               <p className="mt-1 text-sm text-red-600 flex items-center">
                 <AlertCircle className="h-4 w-4 mr-1" />
@@ -230,6 +493,12 @@ export function DataCollectionForm() {
             )}
           </div>
 
+          <AttachmentInput
+            attachments={attachments}
+            onAdd={addAttachments}
+            onRemove={removeAttachment}
+          />
+
           {/* Timestamp Display */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -238,11 +507,18 @@ export function DataCollectionForm() {
             <div className="flex items-center px-3 py-2 bg-gray-50 border border-gray-200 rounded-md">
               <Calendar className="h-5 w-5 text-gray-400 mr-2" />
               <span className="text-gray-700">
-                {new Date().toLocaleString()}
+                {formatDateTime(new Date(), profile)}
               </span>
             </div>
           </div>
 
+          {errors.submit && (
+            <p className="text-sm text-red-600 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              {errors.submit}
+            </p>
+          )}
+
           {/* Submit Button */}
           <div className="flex justify-end">
             <button
@@ -262,6 +538,14 @@ export function DataCollectionForm() {
           </div>
         </form>
       </div>
+
+      {showMapPicker && (
+        <MapPicker
+          initial={position}
+          onConfirm={pickOnMap}
+          onClose={() => setShowMapPicker(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { ChartSpec, formatChartValue } from '../lib/charts'
+
+interface InlineChartProps {
+  spec: ChartSpec
+}
+
+const WIDTH = 320
+const HEIGHT = 140
+const PADDING = { top: 10, right: 10, bottom: 22, left: 44 }
+
+export function InlineChart({ spec }: InlineChartProps) {
+  const { points, type, unit, title } = spec
+  const values = points.map(point => point.value)
+  // Bars grow from zero; a line is scaled to its own range so small changes
+  // stay visible.
+  let min = type === 'bar' ? Math.min(0, ...values) : Math.min(...values)
+  let max = type === 'bar' ? Math.max(0, ...values) : Math.max(...values)
+  if (min === max) {
+    min -= 1
+    max += 1
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight
+  const slot = plotWidth / points.length
+  const x = (index: number) =>
+    type === 'bar'
+      ? PADDING.left + slot * index + slot / 2
+      : PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth)
+
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(index)},${y(point.value)}`).join(' ')
+
+  return (
+    <figure className="my-2 bg-white border border-gray-200 rounded-md p-2">
+      {title && <figcaption className="text-xs font-medium text-gray-700 mb-1">{title}</figcaption>}
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title || 'Chart'}>
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={PADDING.top + plotHeight}
+          y2={PADDING.top + plotHeight}
+          stroke="#d1d5db"
+        />
+        <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" fontSize="9" fill="#6b7280">
+          {formatChartValue(max, unit)}
+        </text>
+        <text x={PADDING.left - 4} y={PADDING.top + plotHeight} textAnchor="end" fontSize="9" fill="#6b7280">
+          {formatChartValue(min, unit)}
+        </text>
+
+        {type === 'bar' ? (
+          points.map((point, index) => (
+            <rect
+              key={index}
+              x={x(index) - (slot * 0.7) / 2}
+              width={slot * 0.7}
+              y={Math.min(y(point.value), y(0))}
+              height={Math.abs(y(0) - y(point.value))}
+              fill="#2563eb"
+            >
+              <title>{`${point.label}: ${formatChartValue(point.value, unit)}`}</title>
+            </rect>
+          ))
+        ) : (
+          <>
+            <path d={path} fill="none" stroke="#2563eb" strokeWidth="2" />
+            {points.map((point, index) => (
+              <circle key={index} cx={x(index)} cy={y(point.value)} r="3" fill="#2563eb">
+                <title>{`${point.label}: ${formatChartValue(point.value, unit)}`}</title>
+              </circle>
+            ))}
+          </>
+        )}
+
+        <text x={x(0)} y={HEIGHT - 6} textAnchor="start" fontSize="9" fill="#6b7280">
+          {points[0].label}
+        </text>
+        {points.length > 1 && (
+          <text x={x(points.length - 1)} y={HEIGHT - 6} textAnchor="end" fontSize="9" fill="#6b7280">
+            {points[points.length - 1].label}
+          </text>
+        )}
+      </svg>
+    </figure>
+  )
+}
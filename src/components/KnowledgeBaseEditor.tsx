@@ -0,0 +1,315 @@
+import React, { useState, useEffect } from 'react'
+import { supabase, Tables } from '../lib/supabase'
+import { Database } from '../types/database'
+import { useAuth } from '../contexts/AuthContext'
+import { Plus, Trash2, Save, AlertCircle, BookOpen, Search } from 'lucide-react'
+
+type KbArticle = Tables<'kb_articles'>
+type SearchMatch = Database['public']['Functions']['search_kb_articles']['Returns'][number]
+
+interface ArticleDraft {
+  id?: string
+  title: string
+  body: string
+  published: boolean
+}
+
+const emptyDraft: ArticleDraft = {
+  title: '',
+  body: '',
+  published: true
+}
+
+export function KnowledgeBaseEditor() {
+  const { user, can } = useAuth()
+  const [articles, setArticles] = useState<KbArticle[]>([])
+  const [draft, setDraft] = useState<ArticleDraft | null>(null)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [testQuestion, setTestQuestion] = useState('')
+  const [testMatches, setTestMatches] = useState<SearchMatch[] | null>(null)
+
+  useEffect(() => {
+    loadArticles()
+  }, [])
+
+  const loadArticles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('kb_articles')
+        .select('*')
+        .order('title')
+
+      if (error) throw error
+
+      setArticles(data || [])
+    } catch (error) {
+      console.error('Error loading knowledge base:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveArticle = async () => {
+    if (!draft || !user) return
+
+    if (!draft.title.trim() || !draft.body.trim()) {
+      setError('Title and answer text are required')
+      return
+    }
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const payload = {
+        title: draft.title.trim(),
+        body: draft.body.trim(),
+        published: draft.published
+      }
+
+      const { error } = draft.id
+        ? await supabase.from('kb_articles').update(payload).eq('id', draft.id)
+        : await supabase.from('kb_articles').insert([{ ...payload, created_by: user.id }])
+
+      if (error) throw error
+
+      await supabase
+        .from('activity_logs')
+        .insert([
+          {
+            user_id: user.id,
+            action: draft.id ? 'KB_ARTICLE_UPDATE' : 'KB_ARTICLE_CREATE',
+            details: `${draft.id ? 'Updated' : 'Created'} knowledge base article: ${payload.title}`,
+            timestamp: new Date().toISOString()
+          }
+        ])
+
+      setDraft(null)
+      loadArticles()
+    } catch (error) {
+      console.error('Error saving article:', error)
+      setError('Failed to save the article. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteArticle = async (article: KbArticle) => {
+    if (!confirm(`Delete "${article.title}"? The assistant will stop using it.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('kb_articles')
+        .delete()
+        .eq('id', article.id)
+
+      if (error) throw error
+
+      setArticles(prev => prev.filter(item => item.id !== article.id))
+    } catch (error) {
+      console.error('Error deleting article:', error)
+    }
+  }
+
+  // Runs the same search the assistant uses, so admins can check which
+  // article a question will surface.
+  const testSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!testQuestion.trim()) return
+
+    const { data, error } = await supabase.rpc('search_kb_articles', {
+      search_query: testQuestion,
+      max_results: 5
+    })
+
+    if (error) {
+      console.error('Error searching knowledge base:', error)
+      return
+    }
+    setTestMatches(data || [])
+  }
+
+  if (!can('knowledge.manage')) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <p className="text-gray-600">Only administrators can manage the knowledge base.</p>
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Knowledge Base</h1>
+          <p className="text-gray-600">Articles the assistant answers from when no AI model is available</p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => {
+              setDraft({ ...emptyDraft })
+              setError('')
+            }}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Article
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Title *</label>
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="e.g., Calibrating a pH meter"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Answer *</label>
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Shown to users as written. Words in the title count more when matching questions.
+            </p>
+          </div>
+
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.published}
+              onChange={(e) => setDraft({ ...draft, published: e.target.checked })}
+              className="mr-2 rounded border-gray-300"
+            />
+            Published
+          </label>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveArticle}
+              disabled={saving}
+              className={`px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center ${
+                saving ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Article'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200 divide-y divide-gray-200">
+            {articles.length > 0 ? (
+              articles.map(article => (
+                <div key={article.id} className="px-6 py-4 flex justify-between items-center">
+                  <div className="flex items-center min-w-0">
+                    <BookOpen className="h-5 w-5 text-gray-400 mr-3 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {article.title}
+                        {!article.published && <span className="ml-2 text-xs text-gray-500">(draft)</span>}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">{article.body}</p>
+                    </div>
+                  </div>
+                  <div className="flex space-x-3 ml-4">
+                    <button
+                      onClick={() => {
+                        setDraft({
+                          id: article.id,
+                          title: article.title,
+                          body: article.body,
+                          published: article.published
+                        })
+                        setError('')
+                      }}
+                      className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteArticle(article)}
+                      className="text-red-600 hover:text-red-900 transition-colors"
+                      title="Delete article"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="px-6 py-12 text-center text-gray-500">No articles yet</p>
+            )}
+          </div>
+
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Test a question</h2>
+            <form onSubmit={testSearch} className="flex space-x-3">
+              <input
+                type="text"
+                value={testQuestion}
+                onChange={(e) => setTestQuestion(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., What humidity is too high?"
+              />
+              <button
+                type="submit"
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </button>
+            </form>
+            {testMatches && (
+              testMatches.length > 0 ? (
+                <ol className="space-y-1 text-sm text-gray-700 list-decimal list-inside">
+                  {testMatches.map(match => (
+                    <li key={match.id}>
+                      {match.title} <span className="text-xs text-gray-500">(score {match.rank.toFixed(3)})</span>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-sm text-gray-500">No published article matches this question.</p>
+              )
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,32 +1,70 @@
 import React from 'react'
+import { NavLink } from 'react-router-dom'
 import { useAuth } from '../contexts/AuthContext'
+import { useProject } from '../contexts/ProjectContext'
+import { Permission, ROLE_LABELS } from '../lib/permissions'
+import { profileName } from '../lib/profiles'
 import { 
   Database, 
   FileText, 
   MessageSquare, 
   BarChart3, 
+  ClipboardList,
+  FolderKanban,
+  BookOpen,
+  ThumbsUp,
+  Trash2,
+  Users,
+  UserCircle,
   LogOut,
   Menu,
   X
 } from 'lucide-react'
 import { useState } from 'react'
+import { SyncIndicator } from './SyncIndicator'
+import { ProjectSwitcher } from './ProjectSwitcher'
 
 interface LayoutProps {
   children: React.ReactNode
-  currentView: string
-  onViewChange: (view: string) => void
 }
 
-export function Layout({ children, currentView, onViewChange }: LayoutProps) {
-  const { user, signOut } = useAuth()
+interface NavItem {
+  name: string
+  icon: typeof BarChart3
+  path: string
+  // Hidden unless the signed-in user's role grants it.
+  permission?: Permission
+}
+
+const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+  `w-full flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+    isActive ? 'bg-blue-100 text-blue-700' : 'text-gray-700 hover:bg-gray-100'
+  }`
+
+export function Layout({ children }: LayoutProps) {
+  const { user, profile, role, authState, can, signOut } = useAuth()
+  const project = useProject()
   const [sidebarOpen, setSidebarOpen] = useState(false)
 
-  const navigation = [
-    { name: 'Dashboard', icon: BarChart3, value: 'dashboard' },
-    { name: 'Data Collection', icon: FileText, value: 'collection' },
-    { name: 'Records', icon: Database, value: 'records' },
-    { name: 'AI Assistant', icon: MessageSquare, value: 'chatbot' },
+  const items: NavItem[] = [
+    { name: 'Dashboard', icon: BarChart3, path: '/' },
+    { name: 'Data Collection', icon: FileText, path: '/collect', permission: 'records.create' },
+    { name: 'Records', icon: Database, path: '/records' },
+    { name: 'AI Assistant', icon: MessageSquare, path: '/chat' },
+    { name: 'Trash', icon: Trash2, path: '/trash', permission: 'records.editOwn' },
+    { name: 'Form Templates', icon: ClipboardList, path: '/templates', permission: 'templates.manage' },
+    { name: 'Knowledge Base', icon: BookOpen, path: '/knowledge', permission: 'knowledge.manage' },
+    { name: 'Assistant Feedback', icon: ThumbsUp, path: '/feedback', permission: 'feedback.view' },
+    { name: 'Projects', icon: FolderKanban, path: '/projects', permission: 'projects.manage' },
+    { name: 'Users', icon: Users, path: '/users', permission: 'users.manage' },
+    { name: 'Profile', icon: UserCircle, path: '/profile' },
   ]
+  // What a user may do with records depends on the active project; the
+  // admin pages depend on their account.
+  const allowed = (permission: Permission) =>
+    permission.startsWith('records.') ? project.can(permission) : can(permission)
+  const navigation = items.filter(item => !item.permission || allowed(item.permission))
+  const name = profileName(profile)
 
   const handleSignOut = async () => {
     try {
@@ -51,23 +89,21 @@ export function Layout({ children, currentView, onViewChange }: LayoutProps) {
               <X className="h-6 w-6" />
             </button>
           </div>
+          <div className="px-4 pt-4">
+            <ProjectSwitcher />
+          </div>
           <nav className="flex-1 px-4 py-6 space-y-2">
             {navigation.map((item) => (
-              <button
+              <NavLink
                 key={item.name}
-                onClick={() => {
-                  onViewChange(item.value)
-                  setSidebarOpen(false)
-                }}
-                className={`w-full flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                  currentView === item.value
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'text-gray-700 hover:bg-gray-100'
-                }`}
+                to={item.path}
+                end={item.path === '/'}
+                onClick={() => setSidebarOpen(false)}
+                className={navLinkClass}
               >
                 <item.icon className="mr-3 h-5 w-5" />
                 {item.name}
-              </button>
+              </NavLink>
             ))}
           </nav>
           <div className="border-t px-4 py-4">
@@ -85,32 +121,33 @@ export function Layout({ children, currentView, onViewChange }: LayoutProps) {
       {/* Desktop sidebar */}
       <div className="hidden lg:fixed lg:inset-y-0 lg:flex lg:w-64 lg:flex-col">
         <div className="flex flex-col flex-grow bg-white border-r border-gray-200">
-          <div className="flex items-center h-16 px-4 border-b">
+          <div className="flex items-center justify-between h-16 px-4 border-b">
             <span className="text-lg font-semibold text-gray-900">Field Data Tool</span>
+            <SyncIndicator />
+          </div>
+          <div className="px-4 pt-4">
+            <ProjectSwitcher />
           </div>
           <nav className="flex-1 px-4 py-6 space-y-2">
             {navigation.map((item) => (
-              <button
-                key={item.name}
-                onClick={() => onViewChange(item.value)}
-                className={`w-full flex items-center px-3 py-2 text-sm font-medium rounded-md transition-colors ${
-                  currentView === item.value
-                    ? 'bg-blue-100 text-blue-700'
-                    : 'text-gray-700 hover:bg-gray-100'
-                }`}
-              >
+              <NavLink key={item.name} to={item.path} end={item.path === '/'} className={navLinkClass}>
                 <item.icon className="mr-3 h-5 w-5" />
                 {item.name}
-              </button>
+              </NavLink>
             ))}
           </nav>
           <div className="border-t px-4 py-4">
             <div className="flex items-center mb-4">
               <div className="h-8 w-8 bg-blue-500 rounded-full flex items-center justify-center text-white text-sm font-medium">
-                {user?.email?.charAt(0).toUpperCase()}
+                {(name || user?.email)?.charAt(0).toUpperCase()}
               </div>
-              <div className="ml-3">
-                <p className="text-sm font-medium text-gray-700">{user?.email}</p>
+              <div className="ml-3 min-w-0">
+                <p className="text-sm font-medium text-gray-700 truncate">{name || user?.email}</p>
+                {name && <p className="text-xs text-gray-500 truncate">{user?.email}</p>}
+                {role && <p className="text-xs text-gray-500">{ROLE_LABELS[role]}</p>}
+                {authState === 'offline-cached' && (
+                  <p className="text-xs text-amber-600">Offline; your session renews on reconnect</p>
+                )}
               </div>
             </div>
             <button
@@ -136,7 +173,7 @@ export function Layout({ children, currentView, onViewChange }: LayoutProps) {
               <Menu className="h-6 w-6" />
             </button>
             <span className="text-lg font-semibold text-gray-900">Field Data Tool</span>
-            <div className="w-6" /> {/* Spacer */}
+            <SyncIndicator />
           </div>
         </div>
 
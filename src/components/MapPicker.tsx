@@ -0,0 +1,91 @@
+import { useState, useEffect, useRef } from 'react'
+import L from 'leaflet'
+import { DEFAULT_CENTER, DEFAULT_ZOOM, createPointMarker, createTileLayer } from '../lib/map'
+import { formatCoordinates } from '../lib/geo'
+import { X, Check } from 'lucide-react'
+
+interface MapPickerProps {
+  initial: { latitude: number; longitude: number } | null
+  onConfirm: (latitude: number, longitude: number) => void
+  onClose: () => void
+}
+
+export function MapPicker({ initial, onConfirm, onClose }: MapPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  // The map is created once per open; later prop changes are ignored.
+  const initialPoint = useRef(initial)
+  const [point, setPoint] = useState<L.LatLng | null>(
+    initial ? L.latLng(initial.latitude, initial.longitude) : null
+  )
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const start = initialPoint.current
+    const map = L.map(containerRef.current).setView(
+      start ? [start.latitude, start.longitude] : DEFAULT_CENTER,
+      start ? 16 : DEFAULT_ZOOM
+    )
+    createTileLayer().addTo(map)
+
+    let marker = start ? createPointMarker([start.latitude, start.longitude]).addTo(map) : null
+
+    map.on('click', (event: L.LeafletMouseEvent) => {
+      if (marker) {
+        marker.setLatLng(event.latlng)
+      } else {
+        marker = createPointMarker(event.latlng).addTo(map)
+      }
+      setPoint(event.latlng)
+    })
+
+    return () => {
+      map.remove()
+    }
+  }, [])
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Pick a Location</h2>
+            <p className="text-sm text-gray-500">Click the map to place the point</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div ref={containerRef} className="h-96 w-full" />
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200">
+          <span className="text-sm text-gray-600">
+            {point ? formatCoordinates(point.lat, point.lng) : 'No point selected'}
+          </span>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={!point}
+              onClick={() => point && onConfirm(point.lat, point.lng)}
+              className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center ${
+                point ? '' : 'opacity-50 cursor-not-allowed'
+              }`}
+            >
+              <Check className="h-4 w-4 mr-2" />
+              Use this point
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import React from 'react'
+import { BlockNode, InlineNode, parseMarkdown } from '../lib/markdown'
+import { parseChartSpec } from '../lib/charts'
+import { InlineChart } from './InlineChart'
+
+interface MarkdownProps {
+  source: string
+  // Renders plain text runs, so callers can turn tokens such as citations
+  // into elements of their own.
+  renderText?: (text: string, key: string) => React.ReactNode
+}
+
+const HEADING_CLASSES = ['text-base font-semibold', 'text-sm font-semibold', 'text-sm font-medium']
+
+function renderInline(
+  nodes: InlineNode[],
+  renderText: NonNullable<MarkdownProps['renderText']>,
+  keyPrefix: string
+): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    const key = `${keyPrefix}.${index}`
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={key}>{renderText(node.text, key)}</React.Fragment>
+      case 'strong':
+        return <strong key={key}>{renderInline(node.children, renderText, key)}</strong>
+      case 'em':
+        return <em key={key}>{renderInline(node.children, renderText, key)}</em>
+      case 'code':
+        return <code key={key} className="px-1 rounded bg-gray-200 text-xs font-mono">{node.text}</code>
+      case 'link':
+        return (
+          <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-700 underline">
+            {renderInline(node.children, renderText, key)}
+          </a>
+        )
+    }
+  })
+}
+
+function renderBlock(
+  block: BlockNode,
+  renderText: NonNullable<MarkdownProps['renderText']>,
+  key: string
+): React.ReactNode {
+  const inline = (nodes: InlineNode[], suffix = '') => renderInline(nodes, renderText, `${key}${suffix}`)
+
+  switch (block.type) {
+    case 'heading':
+      return (
+        <p key={key} className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}>
+          {inline(block.content)}
+        </p>
+      )
+    case 'paragraph':
+      return <p key={key} className="whitespace-pre-wrap">{inline(block.content)}</p>
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul'
+      return (
+        <List key={key} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-0.5`}>
+          {block.items.map((item, index) => <li key={index}>{inline(item, `.${index}`)}</li>)}
+        </List>
+      )
+    }
+    case 'table':
+      return (
+        <div key={key} className="overflow-x-auto">
+          <table className="min-w-full text-xs border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {block.header.map((cell, index) => (
+                  <th key={index} className="px-2 py-1 text-left font-medium border-b border-gray-200">
+                    {inline(cell, `.h${index}`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white">
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-gray-100">
+                  {row.map((cell, index) => (
+                    <td key={index} className="px-2 py-1">{inline(cell, `.${rowIndex}.${index}`)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )
+    case 'code': {
+      if (block.language === 'chart') {
+        const spec = parseChartSpec(block.text)
+        if (spec) return <InlineChart key={key} spec={spec} />
+        // Still streaming in; the JSON is incomplete until the fence closes.
+        if (!block.closed) return <p key={key} className="text-xs text-gray-500 italic">Preparing chart...</p>
+      }
+      return (
+        <pre key={key} className="bg-gray-800 text-gray-100 text-xs rounded-md p-2 overflow-x-auto">
+          <code>{block.text}</code>
+        </pre>
+      )
+    }
+  }
+}
+
+export function Markdown({ source, renderText = text => text }: MarkdownProps) {
+  return (
+    <div className="space-y-2">
+      {parseMarkdown(source).map((block, index) => renderBlock(block, renderText, String(index)))}
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+import React, { useState } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { AlertCircle, KeyRound } from 'lucide-react'
+
+// Shown after following a password reset link; the link has already signed
+// the user in, so only the new password is asked for.
+export function NewPasswordForm() {
+  const { user, updatePassword } = useAuth()
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== confirmation) {
+      setError('The passwords do not match')
+      return
+    }
+
+    setError('')
+    setSaving(true)
+    try {
+      await updatePassword(password)
+    } catch (err) {
+      setError((err as Error).message || 'The password could not be changed')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="mx-auto h-12 w-12 bg-blue-600 rounded-lg flex items-center justify-center">
+          <KeyRound className="h-7 w-7 text-white" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-bold text-gray-900">Choose a new password</h2>
+        <p className="mt-2 text-center text-sm text-gray-600">{user?.email}</p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-4">
+              <div className="flex items-center">
+                <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+                <span className="text-sm text-red-700">{error}</span>
+              </div>
+            </div>
+          )}
+
+          <form className="space-y-6" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="new-password" className="block text-sm font-medium text-gray-700">
+                New password
+              </label>
+              <input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={6}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="confirm-password" className="block text-sm font-medium text-gray-700">
+                Confirm new password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                className="mt-1 appearance-none block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={saving}
+              className={`w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors ${
+                saving ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              {saving ? 'Saving...' : 'Save password'}
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
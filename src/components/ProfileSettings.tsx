@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react'
+import { useAuth } from '../contexts/AuthContext'
+import { EditableProfile, Units } from '../lib/profiles'
+import { SignedInSession, listSessions, revokeSession } from '../lib/session'
+import { ROLE_LABELS } from '../lib/permissions'
+import { formatDateTime, isValidTimeZone } from '../lib/format'
+import { AlertCircle, CheckCircle, LogOut, Monitor } from 'lucide-react'
+
+// Readings are free text and shown as entered; units apply to the distances
+// the app measures itself, GPS accuracy and altitude.
+const UNIT_LABELS: Record<Units, string> = {
+  metric: 'Metric (metres)',
+  imperial: 'Imperial (feet)'
+}
+
+const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+// Not in the ES2020 lib typings, and missing from older browsers.
+const timeZones: string[] =
+  (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? []
+
+// "Chrome on Android" from a user agent string, good enough to tell devices
+// apart.
+function describeDevice(userAgent: string): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+  const system =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : ''
+
+  return system ? `${browser} on ${system}` : browser
+}
+
+export function ProfileSettings() {
+  const { user, profile, role, saveProfile, signOut } = useAuth()
+  const [form, setForm] = useState<EditableProfile>({
+    username: profile?.username ?? '',
+    display_name: profile?.display_name ?? '',
+    units: profile?.units ?? 'metric',
+    timezone: profile?.timezone ?? ''
+  })
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState('')
+  const [sessions, setSessions] = useState<SignedInSession[]>([])
+  const [sessionsError, setSessionsError] = useState('')
+
+  // The profile may arrive from the server after the cached copy was shown.
+  useEffect(() => {
+    if (!profile) return
+    setForm({
+      username: profile.username,
+      display_name: profile.display_name,
+      units: profile.units,
+      timezone: profile.timezone
+    })
+  }, [profile])
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => {
+        console.error('Error loading sessions:', error)
+        setSessionsError('Sessions can only be loaded while online.')
+      })
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form.username.trim()) {
+      setError('Username is required')
+      return
+    }
+    if (form.timezone && !isValidTimeZone(form.timezone)) {
+      setError('Choose a timezone from the list, such as Europe/Oslo')
+      return
+    }
+
+    setError('')
+    setSaved(false)
+    setSaving(true)
+    try {
+      await saveProfile({
+        ...form,
+        username: form.username.trim(),
+        display_name: form.display_name.trim()
+      })
+      setSaved(true)
+    } catch (error) {
+      console.error('Error saving profile:', error)
+      setError('Your profile could not be saved. Please try again while online.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const endSession = async (session: SignedInSession) => {
+    try {
+      await revokeSession(session.id)
+      setSessions(prev => prev.filter(item => item.id !== session.id))
+    } catch (error) {
+      console.error('Error signing out session:', error)
+      setSessionsError('That device could not be signed out. Please try again.')
+    }
+  }
+
+  const signOutOthers = async () => {
+    try {
+      await signOut('others')
+      setSessions(prev => prev.filter(item => item.is_current))
+    } catch (error) {
+      console.error('Error signing out other devices:', error)
+      setSessionsError((error as Error).message)
+    }
+  }
+
+  const signOutEverywhere = async () => {
+    if (!confirm('Sign out on every device, including this one? Records not yet synced stay on each device, hidden from anyone else, and sync when you sign in there again.')) return
+
+    try {
+      await signOut('global')
+    } catch (error) {
+      console.error('Error signing out everywhere:', error)
+      setSessionsError((error as Error).message)
+    }
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Profile</h1>
+        <p className="text-gray-600">
+          {user?.email}
+          {role && <span className="ml-2 text-sm text-gray-500">· {ROLE_LABELS[role]}</span>}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 space-y-4">
+        <div>
+          <label htmlFor="profile-username" className="block text-sm font-medium text-gray-700 mb-2">Username</label>
+          <input
+            id="profile-username"
+            type="text"
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="profile-display-name" className="block text-sm font-medium text-gray-700 mb-2">Display name</label>
+          <input
+            id="profile-display-name"
+            type="text"
+            value={form.display_name}
+            onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+            placeholder={form.username || 'Shown instead of your username'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="profile-units" className="block text-sm font-medium text-gray-700 mb-2">Preferred units</label>
+            <select
+              id="profile-units"
+              value={form.units}
+              onChange={(e) => setForm({ ...form, units: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.entries(UNIT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="profile-timezone" className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+            <input
+              id="profile-timezone"
+              type="text"
+              list="profile-timezones"
+              value={form.timezone}
+              onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+              placeholder={`This device (${deviceTimeZone})`}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <datalist id="profile-timezones">
+              {timeZones.map(zone => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center">
+            <AlertCircle className="h-4 w-4 mr-1" />
+            {error}
+          </p>
+        )}
+        {saved && (
+          <p className="text-sm text-green-600 flex items-center">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Profile saved
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors ${
+              saving ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            {saving ? 'Saving...' : 'Save Profile'}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Signed-in devices</h2>
+        </div>
+        {sessionsError && (
+          <p className="px-6 pt-4 text-sm text-red-600 flex items-center">
+            <AlertCircle className="h-4 w-4 mr-1" />
+            {sessionsError}
+          </p>
+        )}
+        <div className="divide-y divide-gray-200">
+          {sessions.map(session => (
+            <div key={session.id} className="px-6 py-3 flex items-center justify-between">
+              <div className="flex items-center">
+                <Monitor className="h-5 w-5 text-gray-400 mr-3" />
+                <div>
+                  <p className="text-sm text-gray-900">
+                    {describeDevice(session.user_agent)}
+                    {session.is_current && <span className="ml-2 text-xs text-green-600">This device</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ip && `${session.ip} · `}
+                    Last active {formatDateTime(session.refreshed_at, profile)}
+                  </p>
+                </div>
+              </div>
+              {!session.is_current && (
+                <button
+                  onClick={() => endSession(session)}
+                  className="text-sm text-red-600 hover:text-red-900 transition-colors"
+                >
+                  Sign out
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="px-6 py-4 border-t border-gray-200 flex flex-wrap justify-end gap-3">
+          <button
+            onClick={signOutOthers}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Sign out other devices
+          </button>
+          <button
+            onClick={signOutEverywhere}
+            className="inline-flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out everywhere
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react'
+import { Tables } from '../lib/supabase'
+import { ROLES, ROLE_LABELS, Role } from '../lib/permissions'
+import { Profile, listProfiles, profileName } from '../lib/profiles'
+import {
+  ProjectMember,
+  createOrganization,
+  createProject,
+  listMembers,
+  listOrganizations,
+  removeMember,
+  saveMember
+} from '../lib/projects'
+import { useAuth } from '../contexts/AuthContext'
+import { useProject } from '../contexts/ProjectContext'
+import { Plus, Trash2, AlertCircle, FolderKanban } from 'lucide-react'
+
+type Organization = Tables<'organizations'>
+
+const NEW_ORGANIZATION = 'new'
+
+export function ProjectAdmin() {
+  const { user, can } = useAuth()
+  const { projects, refreshProjects } = useProject()
+  const allowed = can('projects.manage')
+  const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [error, setError] = useState('')
+  const [draft, setDraft] = useState<{ organizationId: string; organizationName: string; name: string } | null>(null)
+  const [newMember, setNewMember] = useState<{ userId: string; role: Role }>({ userId: '', role: 'collector' })
+
+  useEffect(() => {
+    if (!allowed) return
+
+    Promise.all([listOrganizations(), listProfiles()])
+      .then(([loadedOrganizations, loadedProfiles]) => {
+        setOrganizations(loadedOrganizations)
+        setProfiles(loadedProfiles)
+      })
+      .catch(error => {
+        console.error('Error loading organizations:', error)
+        setError('Projects can only be managed while online.')
+      })
+  }, [allowed])
+
+  useEffect(() => {
+    if (!selectedId) return
+
+    listMembers(selectedId)
+      .then(setMembers)
+      .catch(error => {
+        console.error('Error loading project members:', error)
+        setError('Members could not be loaded.')
+      })
+  }, [selectedId])
+
+  if (!allowed) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <p className="text-gray-600">Only administrators can manage projects.</p>
+      </div>
+    )
+  }
+
+  const memberName = (userId: string) =>
+    profileName(profiles.find(profile => profile.id === userId)) || 'Unnamed user'
+
+  const saveProject = async () => {
+    if (!draft || !user) return
+
+    const creatingOrganization = draft.organizationId === NEW_ORGANIZATION
+    if (!draft.name.trim() || (creatingOrganization && !draft.organizationName.trim())) {
+      setError('Organization and project names are required')
+      return
+    }
+
+    setError('')
+    try {
+      const organizationId = creatingOrganization
+        ? await createOrganization(draft.organizationName, user.id)
+        : draft.organizationId
+      await createProject(organizationId, draft.name)
+      setOrganizations(await listOrganizations())
+      await refreshProjects()
+      setDraft(null)
+    } catch (error) {
+      console.error('Error creating project:', error)
+      setError('Failed to create the project. Please try again.')
+    }
+  }
+
+  const changeMember = async (userId: string, role: Role) => {
+    const project = projects.find(item => item.id === selectedId)
+    if (!project || !userId) return
+
+    setError('')
+    try {
+      await saveMember(project, userId, role)
+      setMembers(await listMembers(project.id))
+      setNewMember({ userId: '', role: 'collector' })
+    } catch (error) {
+      console.error('Error saving project member:', error)
+      setError('The member could not be saved. Please try again.')
+    }
+  }
+
+  const dropMember = async (userId: string) => {
+    if (!selectedId || !confirm(`Remove ${memberName(userId)} from this project?`)) return
+
+    try {
+      await removeMember(selectedId, userId)
+      setMembers(prev => prev.filter(member => member.user_id !== userId))
+    } catch (error) {
+      console.error('Error removing project member:', error)
+      setError('The member could not be removed. Please try again.')
+    }
+  }
+
+  const selected = projects.find(project => project.id === selectedId)
+  const candidates = profiles.filter(profile => !members.some(member => member.user_id === profile.id))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Projects</h1>
+          <p className="text-gray-600">Group crews into projects and choose what each member can do</p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => setDraft({
+              organizationId: organizations[0]?.id ?? NEW_ORGANIZATION,
+              organizationName: '',
+              name: ''
+            })}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Project
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      {draft && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 space-y-4">
+          <div>
+            <label htmlFor="organization" className="block text-sm font-medium text-gray-700 mb-2">Organization</label>
+            <select
+              id="organization"
+              value={draft.organizationId}
+              onChange={(e) => setDraft({ ...draft, organizationId: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {organizations.map(organization => (
+                <option key={organization.id} value={organization.id}>{organization.name}</option>
+              ))}
+              <option value={NEW_ORGANIZATION}>New organization...</option>
+            </select>
+            {draft.organizationId === NEW_ORGANIZATION && (
+              <input
+                type="text"
+                value={draft.organizationName}
+                onChange={(e) => setDraft({ ...draft, organizationName: e.target.value })}
+                placeholder="Organization name"
+                className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            )}
+          </div>
+          <div>
+            <label htmlFor="project-name" className="block text-sm font-medium text-gray-700 mb-2">Project name</label>
+            <input
+              id="project-name"
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g., North Basin Survey 2026"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button onClick={() => setDraft(null)} className="px-4 py-2 text-gray-700 hover:text-gray-900">
+              Cancel
+            </button>
+            <button
+              onClick={saveProject}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Create Project
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {projects.map(project => (
+            <button
+              key={project.id}
+              onClick={() => setSelectedId(project.id)}
+              className={`w-full text-left px-4 py-3 transition-colors ${
+                project.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="flex items-center text-sm font-medium text-gray-900">
+                <FolderKanban className="h-4 w-4 text-gray-400 mr-2" />
+                {project.name}
+              </div>
+              <div className="text-xs text-gray-500 ml-6">{project.organizationName}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2 bg-white shadow-sm rounded-lg border border-gray-200">
+          {selected ? (
+            <>
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">{selected.name} members</h2>
+              </div>
+              <div className="divide-y divide-gray-200">
+                {members.map(member => (
+                  <div key={member.user_id} className="px-6 py-3 flex items-center justify-between">
+                    <span className="text-sm text-gray-900">{memberName(member.user_id)}</span>
+                    <div className="flex items-center space-x-3">
+                      <select
+                        value={member.role}
+                        onChange={(e) => changeMember(member.user_id, e.target.value as Role)}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {ROLES.map(role => (
+                          <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => dropMember(member.user_id)}
+                        className="text-red-600 hover:text-red-900 transition-colors"
+                        title="Remove from project"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {candidates.length > 0 && (
+                  <div className="px-6 py-3 flex flex-wrap items-center gap-3">
+                    <select
+                      value={newMember.userId}
+                      onChange={(e) => setNewMember({ ...newMember, userId: e.target.value })}
+                      className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Add a user...</option>
+                      {candidates.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profileName(profile) || 'Unnamed user'}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={newMember.role}
+                      onChange={(e) => setNewMember({ ...newMember, role: e.target.value as Role })}
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => changeMember(newMember.userId, newMember.role)}
+                      disabled={!newMember.userId}
+                      className={`inline-flex items-center px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors ${
+                        !newMember.userId ? 'opacity-50 cursor-not-allowed' : ''
+                      }`}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </button>
+                  </div>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="px-6 py-12 text-center text-gray-500">Select a project to manage its members</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
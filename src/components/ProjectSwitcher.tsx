@@ -0,0 +1,35 @@
+import { useProject } from '../contexts/ProjectContext'
+import { ROLE_LABELS } from '../lib/permissions'
+import { FolderKanban } from 'lucide-react'
+
+export function ProjectSwitcher() {
+  const { projects, activeProject, selectProject } = useProject()
+
+  if (!activeProject) return null
+
+  return (
+    <div>
+      <label htmlFor="project" className="flex items-center text-xs font-medium text-gray-500 mb-1">
+        <FolderKanban className="h-3.5 w-3.5 mr-1" />
+        Project
+      </label>
+      {projects.length > 1 ? (
+        <select
+          id="project"
+          value={activeProject.id}
+          onChange={(e) => selectProject(e.target.value)}
+          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {projects.map(project => (
+            <option key={project.id} value={project.id}>
+              {project.organizationName ? `${project.organizationName} / ${project.name}` : project.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <p id="project" className="text-sm font-medium text-gray-900">{activeProject.name}</p>
+      )}
+      <p className="mt-1 text-xs text-gray-500">Your role: {ROLE_LABELS[activeProject.role]}</p>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import React, { useState, useRef, useEffect } from 'react'
+import { Dictation, isSpeechRecognitionSupported, startDictation } from '../lib/speech'
+import { Mic } from 'lucide-react'
+
+interface PushToTalkButtonProps {
+  onTranscript: (text: string, final: boolean) => void
+  disabled?: boolean
+  label?: string
+  className?: string
+}
+
+const ERROR_DISPLAY_MS = 4000
+
+// Listens only while held, so a reading cannot be picked up by accident
+// from a conversation nearby. Space and Enter work the same way as a press.
+export function PushToTalkButton({ onTranscript, disabled = false, label, className = '' }: PushToTalkButtonProps) {
+  const [listening, setListening] = useState(false)
+  const [error, setError] = useState('')
+  const dictationRef = useRef<Dictation | null>(null)
+  const supported = isSpeechRecognitionSupported()
+
+  useEffect(() => () => dictationRef.current?.cancel(), [])
+
+  useEffect(() => {
+    if (!error) return
+    const timer = setTimeout(() => setError(''), ERROR_DISPLAY_MS)
+    return () => clearTimeout(timer)
+  }, [error])
+
+  if (!supported) return null
+
+  const start = () => {
+    if (disabled || dictationRef.current) return
+    setError('')
+    try {
+      dictationRef.current = startDictation({
+        onText: onTranscript,
+        onError: setError,
+        onEnd: () => {
+          dictationRef.current = null
+          setListening(false)
+        }
+      })
+      setListening(true)
+    } catch (error) {
+      console.error('Error starting speech recognition:', error)
+      setError('Speech recognition could not start')
+    }
+  }
+
+  const stop = () => dictationRef.current?.stop()
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+      e.preventDefault()
+      start()
+    }
+  }
+
+  const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault()
+      stop()
+    }
+  }
+
+  return (
+    <span className="relative inline-flex">
+      <button
+        type="button"
+        disabled={disabled}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          start()
+        }}
+        onPointerUp={stop}
+        onPointerCancel={stop}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        onContextMenu={(e) => e.preventDefault()}
+        className={`flex items-center px-3 py-2 rounded-md border select-none touch-none transition-colors ${
+          listening
+            ? 'bg-red-600 border-red-600 text-white animate-pulse'
+            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : ''} ${className}`}
+        title={listening ? 'Listening... release to stop' : 'Hold to speak'}
+        aria-pressed={listening}
+      >
+        <Mic className={`h-4 w-4 ${label ? 'mr-2' : ''}`} />
+        {label && <span className="text-sm">{listening ? 'Listening...' : label}</span>}
+      </button>
+      {error && (
+        <span
+          role="alert"
+          className="absolute bottom-full right-0 mb-1 whitespace-nowrap rounded-md bg-red-50 border border-red-200 px-2 py-1 text-xs text-red-700"
+        >
+          {error}
+        </span>
+      )}
+    </span>
+  )
+}
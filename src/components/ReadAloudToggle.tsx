@@ -0,0 +1,28 @@
+import { useState } from 'react'
+import { isReadAloudEnabled, isSpeechSynthesisSupported, setReadAloudEnabled, stopSpeaking } from '../lib/speech'
+import { Volume2, VolumeX } from 'lucide-react'
+
+export function ReadAloudToggle() {
+  const [enabled, setEnabled] = useState(isReadAloudEnabled)
+
+  if (!isSpeechSynthesisSupported()) return null
+
+  const toggle = () => {
+    const next = !enabled
+    setEnabled(next)
+    setReadAloudEnabled(next)
+    if (!next) stopSpeaking()
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      className={`p-1 rounded transition-colors ${enabled ? 'text-blue-600' : 'text-gray-400 hover:text-gray-600'}`}
+      title={enabled ? 'Turn read-aloud off' : 'Turn read-aloud on'}
+      aria-pressed={enabled}
+    >
+      {enabled ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+    </button>
+  )
+}
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react'
+import { Tables, Updates } from '../lib/supabase'
+import { enqueueRecordUpdate } from '../lib/outbox'
+import { syncOutbox } from '../lib/sync'
+import {
+  FormTemplate,
+  TemplateData,
+  loadActiveTemplates,
+  summarizeTemplateData,
+  validateTemplateData
+} from '../lib/templates'
+import { formatCoordinates, hasCoordinates } from '../lib/geo'
+import { Json } from '../types/database'
+import { useAuth } from '../contexts/AuthContext'
+import { TemplateFieldInput } from './TemplateFieldInput'
+import { MapPicker } from './MapPicker'
+import { X, Save, AlertCircle, Map as MapIcon } from 'lucide-react'
+
+type FieldRecord = Tables<'field_records'>
+
+interface RecordEditModalProps {
+  record: FieldRecord
+  onClose: () => void
+}
+
+export function RecordEditModal({ record, onClose }: RecordEditModalProps) {
+  const { user } = useAuth()
+  const [field, setField] = useState(record.field)
+  const [value, setValue] = useState(record.value)
+  const [location, setLocation] = useState(record.location)
+  const [point, setPoint] = useState(
+    hasCoordinates(record) ? { latitude: record.latitude, longitude: record.longitude } : null
+  )
+  const [showMapPicker, setShowMapPicker] = useState(false)
+  const [template, setTemplate] = useState<FormTemplate | null>(null)
+  const [templateData, setTemplateData] = useState<TemplateData>(
+    (record.data ?? {}) as TemplateData
+  )
+  const [templateErrors, setTemplateErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!record.template_id) return
+    loadActiveTemplates().then(templates => {
+      setTemplate(templates.find(item => item.id === record.template_id) ?? null)
+    })
+  }, [record.template_id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    const changes: Updates<'field_records'> = {}
+
+    if (template) {
+      const fieldErrors = validateTemplateData(template.fields, templateData)
+      setTemplateErrors(fieldErrors)
+      if (Object.keys(fieldErrors).length > 0) return
+
+      const summary = summarizeTemplateData(template.fields, templateData)
+      if (JSON.stringify(templateData) !== JSON.stringify(record.data)) {
+        changes.data = templateData as Json
+        changes.value = summary
+      }
+    } else {
+      if (!field.trim() || !value.trim()) {
+        setError('Field name and value are required')
+        return
+      }
+      if (field.trim() !== record.field) changes.field = field.trim()
+      if (value.trim() !== record.value) changes.value = value.trim()
+    }
+
+    if (location.trim() !== record.location) changes.location = location.trim()
+
+    // A moved point is a manual placement; the original GPS accuracy and
+    // altitude no longer describe it.
+    if (point && (point.latitude !== record.latitude || point.longitude !== record.longitude)) {
+      changes.latitude = point.latitude
+      changes.longitude = point.longitude
+      changes.accuracy = null
+      changes.altitude = null
+      changes.location_source = 'manual'
+    }
+
+    if (Object.keys(changes).length === 0) {
+      onClose()
+      return
+    }
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const summary = Object.entries(changes)
+        .filter(([key]) => key !== 'data')
+        .map(([key, next]) => `${key}: ${record[key as keyof FieldRecord]} → ${next}`)
+        .join(', ')
+
+      // Goes through the outbox like new records, so edits made offline are
+      // pushed later and checked against the version this device last saw.
+      await enqueueRecordUpdate(
+        record.id,
+        changes,
+        record.version,
+        user.id,
+        'DATA_EDIT',
+        `Edited field record ${record.id}: ${summary}`
+      )
+      syncOutbox()
+      onClose()
+    } catch (error) {
+      console.error('Error saving record:', error)
+      setError('Failed to save changes on this device. Please try again.')
+      setSaving(false)
+    }
+  }
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Edit Record</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          {template ? (
+            template.fields.map(templateField => (
+              <TemplateFieldInput
+                key={templateField.key}
+                field={templateField}
+                value={templateData[templateField.key] ?? null}
+                error={templateErrors[templateField.key]}
+                onChange={(next) => setTemplateData(prev => ({ ...prev, [templateField.key]: next }))}
+              />
+            ))
+          ) : (
+            <>
+              <div>
+                <label htmlFor="edit-field" className="block text-sm font-medium text-gray-700 mb-2">Field Name *</label>
+                <input
+                  id="edit-field"
+                  type="text"
+                  value={field}
+                  onChange={(e) => setField(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="edit-value" className="block text-sm font-medium text-gray-700 mb-2">Value *</label>
+                <input
+                  id="edit-value"
+                  type="text"
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <label htmlFor="edit-location" className="block text-sm font-medium text-gray-700 mb-2">Site Label</label>
+            <input
+              id="edit-location"
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Position</label>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-700">
+                {point ? formatCoordinates(point.latitude, point.longitude) : 'No coordinates'}
+              </span>
+              <button
+                type="button"
+                onClick={() => setShowMapPicker(true)}
+                className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                <MapIcon className="h-4 w-4 mr-1" />
+                Adjust on map
+              </button>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className={`px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center ${
+                saving ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {showMapPicker && (
+        <MapPicker
+          initial={point}
+          onConfirm={(latitude, longitude) => {
+            setPoint({ latitude, longitude })
+            setShowMapPicker(false)
+          }}
+          onClose={() => setShowMapPicker(false)}
+        />
+      )}
+    </div>
+  )
+}
\ No newline at end of file
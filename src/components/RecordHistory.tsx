@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react'
+import { Tables } from '../lib/supabase'
+import { enqueueRecordUpdate } from '../lib/outbox'
+import { syncOutbox } from '../lib/sync'
+import { RecordRevision, diffRevisions, loadRevisions, revertChanges } from '../lib/revisions'
+import { canEditRecord } from '../lib/permissions'
+import { loadProfileNames } from '../lib/profiles'
+import { formatDateTime } from '../lib/format'
+import { useAuth } from '../contexts/AuthContext'
+import { useProject } from '../contexts/ProjectContext'
+import { X, RotateCcw } from 'lucide-react'
+
+type FieldRecord = Tables<'field_records'>
+
+interface RecordHistoryProps {
+  record: FieldRecord
+  onClose: () => void
+}
+
+export function RecordHistory({ record, onClose }: RecordHistoryProps) {
+  const { user, profile } = useAuth()
+  const { activeProject } = useProject()
+  // Anyone who can read the record sees its history; only editors revert it.
+  const canRevert = canEditRecord(activeProject?.role ?? null, user?.id, record)
+  const [revisions, setRevisions] = useState<RecordRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [reverting, setReverting] = useState<number | null>(null)
+  const [editorNames, setEditorNames] = useState<Map<string, string>>(new Map())
+
+  useEffect(() => {
+    loadRevisions(record.id)
+      .then(async loaded => {
+        setRevisions(loaded)
+        const editors = new Set(loaded.flatMap(revision => (revision.edited_by ? [revision.edited_by] : [])))
+        // Without names the history still shows; edits are then credited to
+        // "another user".
+        setEditorNames(await loadProfileNames([...editors]).catch(error => {
+          console.error('Error loading editor names:', error)
+          return new Map<string, string>()
+        }))
+      })
+      .catch(error => {
+        console.error('Error loading revisions:', error)
+        setError('Revision history is unavailable while offline.')
+      })
+      .finally(() => setLoading(false))
+  }, [record.id])
+
+  const editorName = (editedBy: string | null) => {
+    if (!editedBy) return 'unknown user'
+    if (editedBy === user?.id) return 'you'
+    return editorNames.get(editedBy) || 'another user'
+  }
+
+  const revert = async (revision: RecordRevision) => {
+    if (!user || !canRevert) return
+    setReverting(revision.version)
+
+    try {
+      await enqueueRecordUpdate(
+        record.id,
+        revertChanges(revision),
+        record.version,
+        user.id,
+        'DATA_REVERT',
+        `Reverted field record ${record.id} to version ${revision.version}`
+      )
+      syncOutbox()
+      onClose()
+    } catch (error) {
+      console.error('Error reverting record:', error)
+      setError('Failed to revert the record. Please try again.')
+      setReverting(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="fixed inset-0 bg-gray-600 bg-opacity-75" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Revision History</h2>
+            <p className="text-sm text-gray-500">{record.field} · currently version {record.version}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            revisions.map((revision, index) => {
+              const changes = diffRevisions(revisions[index + 1], revision)
+              const isCurrent = revision.version === record.version
+
+              return (
+                <div key={revision.id} className="border border-gray-200 rounded-md p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        Version {revision.version}
+                        {isCurrent && <span className="ml-2 text-xs text-emerald-700">(current)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDateTime(revision.edited_at, profile)} by{' '}
+                        {editorName(revision.edited_by)}
+                      </p>
+                    </div>
+                    {!isCurrent && canRevert && (
+                      <button
+                        onClick={() => revert(revision)}
+                        disabled={reverting !== null}
+                        className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {reverting === revision.version ? 'Reverting...' : 'Revert'}
+                      </button>
+                    )}
+                  </div>
+
+                  {changes.length > 0 ? (
+                    <table className="min-w-full text-sm">
+                      <tbody>
+                        {changes.map(change => (
+                          <tr key={change.key} className="border-t border-gray-100">
+                            <td className="py-1 pr-4 font-medium text-gray-700 align-top">{change.key}</td>
+                            <td className="py-1 pr-4 align-top">
+                              {change.before && (
+                                <span className="bg-red-50 text-red-800 line-through px-1 rounded">{change.before}</span>
+                              )}
+                            </td>
+                            <td className="py-1 align-top">
+                              {change.after && (
+                                <span className="bg-emerald-50 text-emerald-800 px-1 rounded">{change.after}</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-xs text-gray-500">No visible changes</p>
+                  )}
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,286 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import L from 'leaflet'
+import { GeoArea, hasCoordinates } from '../lib/geo'
+import { RecordPoint } from '../lib/recordPages'
+import {
+  DEFAULT_CENTER,
+  DEFAULT_ZOOM,
+  areaStyle,
+  clusterPoints,
+  colorForField,
+  createClusterMarker,
+  createPointMarker,
+  createTileLayer
+} from '../lib/map'
+import { Square, Hexagon, Check, X } from 'lucide-react'
+
+type PlacedRecord = RecordPoint & { latitude: number; longitude: number }
+
+type DrawMode = 'rectangle' | 'polygon'
+
+interface RecordsMapProps {
+  records: RecordPoint[]
+  area: GeoArea | null
+  onAreaChange: (area: GeoArea | null) => void
+  onSelect: (record: RecordPoint) => void
+}
+
+const LEGEND_LIMIT = 8
+
+export function RecordsMap({ records, area, onAreaChange, onSelect }: RecordsMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<L.Map | null>(null)
+  const markersRef = useRef<L.LayerGroup | null>(null)
+  const areaLayerRef = useRef<L.LayerGroup | null>(null)
+  const finishDrawingRef = useRef<(() => void) | null>(null)
+  const fittedRef = useRef(false)
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null)
+
+  const placed = useMemo(
+    () => records.filter((record): record is PlacedRecord => hasCoordinates(record)),
+    [records]
+  )
+
+  // Kept in a ref so the zoom handler registered at mount always sees the
+  // latest records and callback.
+  const renderStateRef = useRef({ placed, onSelect })
+  renderStateRef.current = { placed, onSelect }
+
+  const renderMarkers = () => {
+    const map = mapRef.current
+    const layer = markersRef.current
+    if (!map || !layer) return
+
+    const { placed, onSelect } = renderStateRef.current
+    layer.clearLayers()
+
+    clusterPoints(map, placed, record => L.latLng(record.latitude, record.longitude)).forEach(cluster => {
+      if (cluster.items.length === 1) {
+        const [record] = cluster.items
+        // Leaflet inserts string content as HTML, so pass a text node.
+        const label = document.createElement('span')
+        label.textContent = `${record.field}: ${record.value}`
+        createPointMarker(cluster.center, colorForField(record.field))
+          .bindTooltip(label)
+          .on('click', () => onSelect(record))
+          .addTo(layer)
+        return
+      }
+
+      const fields = new Set(cluster.items.map(record => record.field))
+      const color = fields.size === 1 ? colorForField(cluster.items[0].field) : '#4b5563'
+      const marker = createClusterMarker(cluster.center, cluster.items.length, color).addTo(layer)
+
+      const samePoint = cluster.bounds.getNorthEast().equals(cluster.bounds.getSouthWest())
+      if (samePoint || map.getZoom() >= map.getMaxZoom()) {
+        // Zooming cannot separate these, so list them instead.
+        const list = document.createElement('div')
+        list.className = 'space-y-1 max-h-48 overflow-y-auto'
+        cluster.items.forEach(record => {
+          const button = document.createElement('button')
+          button.type = 'button'
+          button.className = 'block w-full text-left text-sm text-blue-700 hover:underline'
+          button.textContent = `${record.field}: ${record.value}`
+          button.onclick = () => onSelect(record)
+          list.appendChild(button)
+        })
+        marker.bindPopup(list)
+      } else {
+        marker.on('click', () => map.fitBounds(cluster.bounds.pad(0.2)))
+      }
+    })
+  }
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const map = L.map(containerRef.current).setView(DEFAULT_CENTER, DEFAULT_ZOOM)
+    createTileLayer().addTo(map)
+    markersRef.current = L.layerGroup().addTo(map)
+    areaLayerRef.current = L.layerGroup().addTo(map)
+    mapRef.current = map
+    map.on('zoomend', renderMarkers)
+
+    return () => {
+      map.remove()
+      mapRef.current = null
+      markersRef.current = null
+      areaLayerRef.current = null
+      fittedRef.current = false
+    }
+  }, [])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    // Frame the data once; after that the user owns the viewport.
+    if (!fittedRef.current && placed.length > 0) {
+      fittedRef.current = true
+      map.fitBounds(
+        L.latLngBounds(placed.map(record => L.latLng(record.latitude, record.longitude))).pad(0.1),
+        { maxZoom: 16 }
+      )
+    }
+    renderMarkers()
+  }, [placed])
+
+  useEffect(() => {
+    const layer = areaLayerRef.current
+    if (!layer) return
+
+    layer.clearLayers()
+    if (area?.type === 'rectangle') {
+      L.rectangle([[area.south, area.west], [area.north, area.east]], areaStyle()).addTo(layer)
+    } else if (area?.type === 'polygon') {
+      L.polygon(area.points, areaStyle()).addTo(layer)
+    }
+  }, [area])
+
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !drawMode) return
+
+    const draft = L.layerGroup().addTo(map)
+    const points: L.LatLng[] = []
+    const container = map.getContainer()
+
+    const redraw = (cursor?: L.LatLng) => {
+      draft.clearLayers()
+      const shape = cursor ? [...points, cursor] : points
+      if (drawMode === 'rectangle' && shape.length === 2) {
+        L.rectangle(L.latLngBounds(shape[0], shape[1]), areaStyle()).addTo(draft)
+      } else if (drawMode === 'polygon' && shape.length > 1) {
+        L.polygon(shape, areaStyle()).addTo(draft)
+      }
+      points.forEach(point => createPointMarker(point, '#2563eb').setRadius(4).addTo(draft))
+    }
+
+    const finish = () => {
+      if (drawMode === 'polygon' && points.length >= 3) {
+        onAreaChange({ type: 'polygon', points: points.map(point => [point.lat, point.lng]) })
+      }
+      setDrawMode(null)
+    }
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      // A double click also fires two clicks on the same spot.
+      if (points.length > 0 && points[points.length - 1].equals(event.latlng)) return
+      points.push(event.latlng)
+
+      if (drawMode === 'rectangle' && points.length === 2) {
+        const bounds = L.latLngBounds(points[0], points[1])
+        onAreaChange({
+          type: 'rectangle',
+          south: bounds.getSouth(),
+          west: bounds.getWest(),
+          north: bounds.getNorth(),
+          east: bounds.getEast()
+        })
+        setDrawMode(null)
+        return
+      }
+      redraw()
+    }
+
+    const handleMove = (event: L.LeafletMouseEvent) => {
+      if (points.length > 0) redraw(event.latlng)
+    }
+
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setDrawMode(null)
+    }
+
+    finishDrawingRef.current = finish
+    map.doubleClickZoom.disable()
+    container.style.cursor = 'crosshair'
+    map.on('click', handleClick)
+    map.on('mousemove', handleMove)
+    map.on('dblclick', finish)
+    document.addEventListener('keydown', handleKey)
+
+    return () => {
+      finishDrawingRef.current = null
+      draft.remove()
+      map.doubleClickZoom.enable()
+      container.style.cursor = ''
+      map.off('click', handleClick)
+      map.off('mousemove', handleMove)
+      map.off('dblclick', finish)
+      document.removeEventListener('keydown', handleKey)
+    }
+  }, [drawMode, onAreaChange])
+
+  const legend = useMemo(() => {
+    const counts = new Map<string, number>()
+    placed.forEach(record => counts.set(record.field, (counts.get(record.field) ?? 0) + 1))
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])
+  }, [placed])
+
+  const unplaced = records.length - placed.length
+
+  const toolButton = (active: boolean) =>
+    `inline-flex items-center px-3 py-1.5 text-sm border rounded-md transition-colors ${
+      active ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+    }`
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-gray-200">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setDrawMode(drawMode === 'rectangle' ? null : 'rectangle')}
+            className={toolButton(drawMode === 'rectangle')}
+          >
+            <Square className="h-4 w-4 mr-1" />
+            Rectangle
+          </button>
+          <button
+            onClick={() => setDrawMode(drawMode === 'polygon' ? null : 'polygon')}
+            className={toolButton(drawMode === 'polygon')}
+          >
+            <Hexagon className="h-4 w-4 mr-1" />
+            Polygon
+          </button>
+          {drawMode === 'polygon' && (
+            <button onClick={() => finishDrawingRef.current?.()} className={toolButton(false)}>
+              <Check className="h-4 w-4 mr-1" />
+              Finish
+            </button>
+          )}
+          {area && !drawMode && (
+            <button onClick={() => onAreaChange(null)} className={toolButton(false)}>
+              <X className="h-4 w-4 mr-1" />
+              Clear area
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          {drawMode === 'rectangle' && 'Click two opposite corners. Press Esc to cancel.'}
+          {drawMode === 'polygon' && 'Click to add points, double-click or Finish to close. Press Esc to cancel.'}
+          {!drawMode && unplaced > 0 && `${unplaced} record${unplaced === 1 ? ' has' : 's have'} no coordinates and ${unplaced === 1 ? 'is' : 'are'} not shown`}
+        </p>
+      </div>
+
+      {/* Own stacking context so Leaflet's high z-index panes stay under modals. */}
+      <div ref={containerRef} className="relative z-0 h-96 md:h-[32rem] w-full" />
+
+      {legend.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 px-4 py-3 border-t border-gray-200">
+          {legend.slice(0, LEGEND_LIMIT).map(([field, count]) => (
+            <span key={field} className="flex items-center text-xs text-gray-700">
+              <span
+                className="inline-block h-3 w-3 rounded-full mr-1"
+                style={{ backgroundColor: colorForField(field) }}
+              />
+              {field} ({count})
+            </span>
+          ))}
+          {legend.length > LEGEND_LIMIT && (
+            <span className="text-xs text-gray-500">+{legend.length - LEGEND_LIMIT} more</span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
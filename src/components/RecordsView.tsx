@@ -1,8 +1,52 @@
-import React, { useState, useEffect } from 'react'
-import { supabase } from '../lib/supabase'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { useVirtualizer } from '@tanstack/react-virtual'
 import { useAuth } from '../contexts/AuthContext'
-import { Search, Filter, Calendar, MapPin, Trash2, Download } from 'lucide-react'
+import { useProject } from '../contexts/ProjectContext'
+import { Search, Filter, Calendar, MapPin, Trash2, Download, Pencil, History, Table, Map as MapIcon, X, Link2, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react'
 import { Tables } from '../lib/supabase'
+import { recordRoundTrip, syncOutbox } from '../lib/sync'
+import { GeoArea, formatCoordinates, hasCoordinates, isInsideArea } from '../lib/geo'
+import { ConflictQueue } from './ConflictQueue'
+import { RecordEditModal } from './RecordEditModal'
+import { RecordHistory } from './RecordHistory'
+import { RecordsMap } from './RecordsMap'
+import { AttachmentGallery, AttachmentThumbnails } from './AttachmentGallery'
+import { Attachment, AttachmentView, loadAttachments, signedAttachmentUrls } from '../lib/attachments'
+import {
+  DEFAULT_SORT,
+  RecordSort,
+  RecordSortColumn,
+  RecordsQuery,
+  matchesRecordsQuery,
+  parseRecordsQuery,
+  recordsSearchParams
+} from '../lib/recordFilters'
+import {
+  RecordCursor,
+  RecordPoint,
+  compareRecords,
+  countRecords,
+  fetchAllRecords,
+  fetchRecord,
+  fetchRecordPage,
+  fetchRecordPoints
+} from '../lib/recordPages'
+import { canEditRecord } from '../lib/permissions'
+import { toCsv } from '../lib/csv'
+import { formatDateTime, formatDistance } from '../lib/format'
+import {
+  InsertEntry,
+  OutboxEntry,
+  SyncState,
+  UpdateEntry,
+  UploadEntry,
+  enqueueRecordUpdate,
+  entryOwner,
+  listOutbox,
+  localRecord,
+  subscribeToOutbox
+} from '../lib/outbox'
 
 type FieldRecord = Tables<'field_records'>
 
@@ -14,125 +58,398 @@ interface FilterState {
 }
 
 export function RecordsView() {
-  const { user } = useAuth()
+  const { user, profile } = useAuth()
+  const { activeProject, loading: projectsLoading, selectProject } = useProject()
+  const navigate = useNavigate()
+  const { recordId } = useParams()
+  const [searchParams] = useSearchParams()
+  // Search and filters are read from the URL and written back to it, so the
+  // back button and shared links restore them.
+  const query = useMemo(() => parseRecordsQuery(searchParams), [searchParams])
+  const searchTerm = query.search ?? ''
+  const filters: FilterState = useMemo(() => ({
+    field: query.field ?? '',
+    location: query.location ?? '',
+    dateFrom: query.dateFrom ?? '',
+    dateTo: query.dateTo ?? ''
+  }), [query])
+  const recordIds = useMemo(
+    () => (recordId ? [recordId] : query.recordIds ?? null),
+    [recordId, query]
+  )
+  const listQuery = useMemo(() => ({ ...query, recordIds: recordIds ?? undefined }), [query, recordIds])
+  const sort = query.sort ?? DEFAULT_SORT
+  const projectId = activeProject?.id ?? ''
+  const role = activeProject?.role ?? null
+  // Records fetched from the server so far, one page at a time.
   const [records, setRecords] = useState<FieldRecord[]>([])
-  const [filteredRecords, setFilteredRecords] = useState<FieldRecord[]>([])
+  const [nextPage, setNextPage] = useState<RecordCursor | null>(null)
+  const [total, setTotal] = useState<number | null>(null)
+  const [projectTotal, setProjectTotal] = useState<number | null>(null)
+  const [points, setPoints] = useState<RecordPoint[]>([])
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([])
   const [loading, setLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [showFilters, setShowFilters] = useState(false)
-  const [filters, setFilters] = useState<FilterState>({
-    field: '',
-    location: '',
-    dateFrom: '',
-    dateTo: ''
-  })
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [showFilters, setShowFilters] = useState(
+    Boolean(query.field || query.location || query.dateFrom || query.dateTo)
+  )
+  const [editingRecord, setEditingRecord] = useState<FieldRecord | null>(null)
+  const [historyRecord, setHistoryRecord] = useState<FieldRecord | null>(null)
+  const [lastDeleted, setLastDeleted] = useState<FieldRecord | null>(null)
+  const [viewMode, setViewMode] = useState<'table' | 'map'>('table')
+  const [area, setArea] = useState<GeoArea | null>(null)
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [attachmentUrls, setAttachmentUrls] = useState<Map<string, string>>(new Map())
+  const [localUrls, setLocalUrls] = useState<Map<string, string>>(new Map())
+  const [gallery, setGallery] = useState<{ items: AttachmentView[]; index: number } | null>(null)
+
+  // Replaces rather than pushes history entries, so typing a search does not
+  // leave one entry per keystroke.
+  const updateQuery = (changes: RecordsQuery) => {
+    const search = recordsSearchParams({ ...query, recordIds: recordIds ?? undefined, ...changes }).toString()
+    navigate(search ? `/records?${search}` : '/records', { replace: true })
+  }
 
-  useEffect(() => {
-    loadRecords()
-  }, [user])
+  const sortBy = (column: RecordSortColumn) => {
+    // Text columns read naturally A to Z, timestamps newest first.
+    const next: RecordSort = column === sort.column
+      ? { column, ascending: !sort.ascending }
+      : { column, ascending: column !== 'timestamp' }
+    updateQuery({ sort: next })
+  }
+
+  // The server is asked once typing pauses rather than on every keystroke.
+  // Keyed by the serialized query so an unchanged query never refetches.
+  const queryKey = recordsSearchParams(listQuery).toString()
+  const [serverKey, setServerKey] = useState(queryKey)
+  const serverQuery = useMemo(() => parseRecordsQuery(new URLSearchParams(serverKey)), [serverKey])
 
   useEffect(() => {
-    applyFilters()
-  }, [records, searchTerm, filters])
+    const timer = setTimeout(() => setServerKey(queryKey), 300)
+    return () => clearTimeout(timer)
+  }, [queryKey])
+
+  // Bumped when rows have changed on the server, e.g. after a sync.
+  const [reloads, setReloads] = useState(0)
+  // Responses to an older query are dropped if a newer one was sent since.
+  const latestRequest = useRef(0)
+  const attachmentsLoaded = useRef(new Set<string>())
+
+  const loadRecords = useCallback(async () => {
+    const request = ++latestRequest.current
+    // Every query is scoped to a project, so nothing is asked for until one is
+    // active; a user without any simply has nothing to list.
+    if (!projectId) {
+      setRecords([])
+      setNextPage(null)
+      setTotal(0)
+      setLoading(projectsLoading)
+      return
+    }
 
-  const loadRecords = async () => {
     try {
-      const { data, error } = await supabase
-        .from('field_records')
-        .select('*')
-        .order('timestamp', { ascending: false })
-
-      if (error) throw error
-
-      setRecords(data || [])
+      const page = await fetchRecordPage(projectId, serverQuery, area, profile)
+      if (request !== latestRequest.current) return
+
+      recordRoundTrip()
+      attachmentsLoaded.current = new Set()
+      setRecords(page.records)
+      setNextPage(page.next)
+      setTotal(page.total)
       setLoading(false)
     } catch (error) {
       console.error('Error loading records:', error)
       setLoading(false)
     }
-  }
+  }, [projectId, projectsLoading, serverQuery, area, profile])
 
-  const applyFilters = () => {
-    let filtered = [...records]
+  const loadMore = useCallback(async () => {
+    if (!nextPage || loadingMore) return
 
-    // Text search
-    if (searchTerm) {
-      filtered = filtered.filter(record =>
-        record.field.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        record.value.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        record.location.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    }
+    const request = latestRequest.current
+    setLoadingMore(true)
+    try {
+      const page = await fetchRecordPage(projectId, serverQuery, area, profile, nextPage)
+      if (request !== latestRequest.current) return
 
-    // Field filter
-    if (filters.field) {
-      filtered = filtered.filter(record =>
-        record.field.toLowerCase().includes(filters.field.toLowerCase())
-      )
+      setRecords(prev => [...prev, ...page.records])
+      setNextPage(page.next)
+    } catch (error) {
+      console.error('Error loading more records:', error)
+    } finally {
+      setLoadingMore(false)
     }
+  }, [projectId, serverQuery, area, profile, nextPage, loadingMore])
 
-    // Location filter
-    if (filters.location) {
-      filtered = filtered.filter(record =>
-        record.location.toLowerCase().includes(filters.location.toLowerCase())
-      )
-    }
+  useEffect(() => {
+    loadRecords()
+  }, [user, loadRecords, reloads])
 
-    // Date filters
-    if (filters.dateFrom) {
-      filtered = filtered.filter(record =>
-        new Date(record.timestamp) >= new Date(filters.dateFrom)
-      )
+  useEffect(() => {
+    if (!projectId) return
+
+    countRecords(projectId)
+      .then(setProjectTotal)
+      .catch(error => console.error('Error counting records:', error))
+  }, [projectId, reloads])
+
+  // The map shows every matching record with coordinates, not just the pages
+  // scrolled to, so it reads a light coordinates-only list of its own.
+  const showsPoints = viewMode === 'map' || area !== null
+
+  useEffect(() => {
+    if (!showsPoints || !projectId) return
+
+    let cancelled = false
+    fetchRecordPoints(projectId, serverQuery, profile)
+      .then(loaded => {
+        if (!cancelled) setPoints(loaded)
+      })
+      .catch(error => console.error('Error loading map points:', error))
+    return () => {
+      cancelled = true
     }
+  }, [showsPoints, projectId, serverQuery, profile, reloads])
 
-    if (filters.dateTo) {
-      filtered = filtered.filter(record =>
-        new Date(record.timestamp) <= new Date(filters.dateTo + 'T23:59:59')
-      )
+  // A shared link may point at a record in another of the user's projects;
+  // RLS only returns it if they are a member there.
+  useEffect(() => {
+    if (!recordId) return
+
+    fetchRecord(recordId)
+      .then(record => {
+        if (record && record.project_id !== projectId) selectProject(record.project_id)
+      })
+      .catch(error => console.error('Error looking up record:', error))
+  }, [recordId, projectId, selectProject])
+
+  const outboxSize = useRef(0)
+  const userId = user?.id
+
+  useEffect(() => {
+    const loadOutbox = async () => {
+      try {
+        // Records another user left unsynced on this device stay hidden.
+        const entries = (await listOutbox()).filter(entry => entryOwner(entry) === userId)
+        // Entries leave the outbox once they reach the server, so pick up
+        // the synced rows whenever it shrinks.
+        if (entries.length < outboxSize.current) {
+          setReloads(count => count + 1)
+        }
+        outboxSize.current = entries.length
+        setOutboxEntries(entries)
+      } catch (error) {
+        console.error('Error loading outbox:', error)
+      }
     }
 
-    setFilteredRecords(filtered)
-  }
+    loadOutbox()
+    return subscribeToOutbox(loadOutbox)
+  }, [userId])
+
+  // Records that only exist on this device are listed alongside server rows
+  // until background sync pushes them.
+  const syncStates = useMemo(() => {
+    const states = new Map<string, SyncState>()
+    outboxEntries
+      .filter(entry => entry.operation !== 'log')
+      .forEach(entry => states.set(entry.recordId, entry.state))
+    return states
+  }, [outboxEntries])
+
+  const serverIds = useMemo(() => new Set(records.map(record => record.id)), [records])
+
+  const localEdits = useMemo(() => {
+    const edits = new Map<string, UpdateEntry>()
+    outboxEntries.forEach(entry => {
+      if (entry.operation === 'update') edits.set(entry.recordId, entry)
+    })
+    return edits
+  }, [outboxEntries])
+
+  const pendingRecords = useMemo(
+    () => outboxEntries
+      .filter((entry): entry is InsertEntry => entry.operation === 'insert' && entry.payload.project_id === projectId)
+      .map(localRecord)
+      .filter(record => !record.deleted_at),
+    [outboxEntries, projectId]
+  )
 
-  const deleteRecord = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this record?')) return
+  // Unsynced records are not on the server to be searched, so the query is
+  // applied to them here.
+  const matchingPending = useMemo(
+    () => pendingRecords.filter(record =>
+      matchesRecordsQuery(record, listQuery, profile) && (!area || isInsideArea(record, area))
+    ),
+    [pendingRecords, listQuery, area, profile]
+  )
 
-    try {
-      const { error } = await supabase
-        .from('field_records')
-        .delete()
-        .eq('id', id)
-
-      if (error) throw error
-
-      // Log the activity
-      if (user) {
-        await supabase
-          .from('activity_logs')
-          .insert([
-            {
-              user_id: user.id,
-              action: 'DATA_DELETE',
-              details: `Deleted field record with ID: ${id}`,
-              timestamp: new Date().toISOString()
-            }
-          ])
+  // Pending records beyond the last loaded row belong to a later page.
+  const allRecords = useMemo(
+    () => withLocalChanges(
+      records,
+      nextPage ? matchingPending.filter(record => compareRecords(record, nextPage, sort) <= 0) : matchingPending,
+      localEdits,
+      sort
+    ),
+    [records, nextPage, matchingPending, localEdits, sort]
+  )
+
+  // The server filtered polygons by their bounding box; the exact shape is
+  // checked here.
+  const filteredRecords = useMemo(
+    () => (area ? allRecords.filter(record => isInsideArea(record, area)) : allRecords),
+    [allRecords, area]
+  )
+
+  const mapPoints = useMemo(() => {
+    const fetchedIds = new Set(points.map(point => point.id))
+    const located = [
+      ...matchingPending.filter(record => !fetchedIds.has(record.id)),
+      ...points
+        .filter(point => !localEdits.get(point.id)?.payload.deleted_at)
+        .map(point => withEdit(point, localEdits))
+    ].filter(hasCoordinates)
+    return area ? located.filter(point => isInsideArea(point, area)) : located
+  }, [points, matchingPending, localEdits, area])
+
+  // Each page only fetches attachments for the records it added; a fresh
+  // first page starts over so newly synced files show up.
+  useEffect(() => {
+    const ids = records.map(record => record.id).filter(id => !attachmentsLoaded.current.has(id))
+    if (ids.length === 0) return
+    ids.forEach(id => attachmentsLoaded.current.add(id))
+    const reset = ids.length === records.length
+
+    const loadRecordAttachments = async () => {
+      try {
+        const loaded = await loadAttachments(ids)
+        const urls = await signedAttachmentUrls(loaded)
+        setAttachments(prev => (reset ? loaded : [...prev, ...loaded]))
+        setAttachmentUrls(prev => (reset ? urls : new Map([...prev, ...urls])))
+      } catch (error) {
+        console.error('Error loading attachments:', error)
       }
+    }
 
-      setRecords(prev => prev.filter(record => record.id !== id))
+    loadRecordAttachments()
+  }, [records])
+
+  const queuedUploads = useMemo(
+    () => outboxEntries.filter((entry): entry is UploadEntry => entry.operation === 'upload'),
+    [outboxEntries]
+  )
+
+  // Files still waiting in the outbox are previewed straight from IndexedDB.
+  useEffect(() => {
+    const urls = new Map<string, string>()
+    queuedUploads.forEach(entry => urls.set(entry.payload.id, URL.createObjectURL(entry.file)))
+    setLocalUrls(urls)
+    return () => urls.forEach(url => URL.revokeObjectURL(url))
+  }, [queuedUploads])
+
+  const attachmentsByRecord = useMemo(() => {
+    const byRecord = new Map<string, AttachmentView[]>()
+    const add = (view: AttachmentView) => byRecord.set(view.recordId, [...(byRecord.get(view.recordId) ?? []), view])
+    const stored = new Set(attachments.map(attachment => attachment.id))
+
+    attachments.forEach(attachment =>
+      add({
+        id: attachment.id,
+        recordId: attachment.record_id,
+        fileName: attachment.file_name,
+        kind: attachment.kind,
+        sizeBytes: attachment.size_bytes,
+        capturedAt: attachment.captured_at,
+        url: attachmentUrls.get(attachment.id) ?? null,
+        pending: false
+      })
+    )
+    queuedUploads
+      .filter(entry => !stored.has(entry.payload.id))
+      .forEach(entry =>
+        add({
+          id: entry.payload.id,
+          recordId: entry.recordId,
+          fileName: entry.payload.file_name,
+          kind: entry.payload.kind,
+          sizeBytes: entry.payload.size_bytes,
+          capturedAt: entry.payload.captured_at ?? null,
+          url: localUrls.get(entry.payload.id) ?? null,
+          pending: true
+        })
+      )
+    return byRecord
+  }, [attachments, attachmentUrls, queuedUploads, localUrls])
+
+  // Deleting only moves the record to the trash, and the change goes through
+  // the outbox so it syncs like any other edit and can be undone.
+  const deleteRecord = async (record: FieldRecord) => {
+    if (!user) return
+
+    try {
+      await enqueueRecordUpdate(
+        record.id,
+        { deleted_at: new Date().toISOString() },
+        record.version,
+        user.id,
+        'DATA_DELETE',
+        `Moved field record to trash: ${record.field} = ${record.value} (ID: ${record.id})`
+      )
+      syncOutbox()
+      setLastDeleted(record)
     } catch (error) {
       console.error('Error deleting record:', error)
     }
   }
 
-  const exportFiltered = () => {
-    const csvHeaders = ['ID', 'Field', 'Value', 'Location', 'Timestamp']
-    const csvContent = [
-      csvHeaders.join(','),
-      ...filteredRecords.map(record =>
-        [record.id, record.field, record.value, record.location, record.timestamp].join(',')
+  const undoDelete = async () => {
+    if (!user || !lastDeleted) return
+
+    try {
+      await enqueueRecordUpdate(
+        lastDeleted.id,
+        { deleted_at: null },
+        lastDeleted.version,
+        user.id,
+        'DATA_RESTORE',
+        `Restored field record from trash: ${lastDeleted.field} (ID: ${lastDeleted.id})`
       )
-    ].join('\n')
+      syncOutbox()
+      setLastDeleted(null)
+    } catch (error) {
+      console.error('Error restoring record:', error)
+    }
+  }
+
+  // Exports everything matching the query, not just the pages scrolled to.
+  const exportFiltered = async () => {
+    if (!projectId) return
+
+    setExporting(true)
+    let exported: FieldRecord[]
+    try {
+      exported = withLocalChanges(await fetchAllRecords(projectId, listQuery, area, profile), matchingPending, localEdits, sort)
+      if (area) exported = exported.filter(record => isInsideArea(record, area))
+    } catch (error) {
+      console.error('Error exporting records:', error)
+      return
+    } finally {
+      setExporting(false)
+    }
+
+    const csvHeaders = ['ID', 'Field', 'Value', 'Location', 'Latitude', 'Longitude', 'Accuracy', 'Timestamp']
+    const csvContent = toCsv(csvHeaders, exported.map(record => [
+      record.id,
+      record.field,
+      record.value,
+      record.location,
+      record.latitude,
+      record.longitude,
+      record.accuracy,
+      record.timestamp
+    ]))
 
     const blob = new Blob([csvContent], { type: 'text/csv' })
     const url = URL.createObjectURL(blob)
@@ -145,14 +462,58 @@ export function RecordsView() {
     URL.revokeObjectURL(url)
   }
 
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const rowVirtualizer = useVirtualizer({
+    count: filteredRecords.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 73,
+    overscan: 10,
+    getItemKey: index => filteredRecords[index].id
+  })
+  const virtualRows = rowVirtualizer.getVirtualItems()
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0
+  const paddingBottom = virtualRows.length > 0
+    ? rowVirtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end
+    : 0
+  const lastVisibleRow = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1
+
+  // Fetch the next page before the user scrolls to the end of this one.
+  useEffect(() => {
+    if (lastVisibleRow >= 0 && lastVisibleRow >= filteredRecords.length - 20) loadMore()
+  }, [lastVisibleRow, filteredRecords.length, loadMore])
+
+  // A new query or sort order starts from the top of the list.
+  useEffect(() => {
+    rowVirtualizer.scrollToOffset(0)
+  }, [serverKey, rowVirtualizer])
+
+  // With an area drawn, only located records can match, and the points
+  // cover all of them; otherwise the server counted the matches.
+  const pendingCount = matchingPending.filter(record => !serverIds.has(record.id)).length
+  const matchingCount = area ? mapPoints.length : (total ?? records.length) + pendingCount
+  const totalCount = (projectTotal ?? total ?? records.length) + pendingRecords.length
+  const hasFilters = Boolean(recordsSearchParams({ ...listQuery, sort: undefined }).toString() || area)
+
+  // Anyone can open a record; those who cannot edit it see its row.
+  const openPoint = async (point: RecordPoint) => {
+    try {
+      const record = allRecords.find(row => row.id === point.id)
+        ?? matchingPending.find(row => row.id === point.id)
+        ?? await fetchRecord(point.id)
+      if (record && canEditRecord(role, user?.id, record)) {
+        setEditingRecord(withEdit(record, localEdits))
+        return
+      }
+    } catch (error) {
+      console.error('Error loading record:', error)
+    }
+    navigate(`/records/${point.id}`)
+    setViewMode('table')
+  }
+
   const clearFilters = () => {
-    setFilters({
-      field: '',
-      location: '',
-      dateFrom: '',
-      dateTo: ''
-    })
-    setSearchTerm('')
+    navigate('/records', { replace: true })
+    setArea(null)
   }
 
   if (loading) {
@@ -170,10 +531,30 @@ export function RecordsView() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Records View</h1>
           <p className="text-gray-600">
-            Showing {filteredRecords.length} of {records.length} records
+            Showing {matchingCount} of {totalCount} records
           </p>
         </div>
         <div className="flex space-x-3">
+          <div className="inline-flex rounded-md shadow-sm">
+            <button
+              onClick={() => setViewMode('table')}
+              className={`inline-flex items-center px-3 py-2 border border-gray-300 rounded-l-md text-sm font-medium transition-colors ${
+                viewMode === 'table' ? 'bg-gray-100 text-gray-900' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Table className="h-4 w-4 mr-2" />
+              Table
+            </button>
+            <button
+              onClick={() => setViewMode('map')}
+              className={`inline-flex items-center px-3 py-2 border border-l-0 border-gray-300 rounded-r-md text-sm font-medium transition-colors ${
+                viewMode === 'map' ? 'bg-gray-100 text-gray-900' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <MapIcon className="h-4 w-4 mr-2" />
+              Map
+            </button>
+          </div>
           <button
             onClick={() => setShowFilters(!showFilters)}
             className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
@@ -183,14 +564,33 @@ export function RecordsView() {
           </button>
           <button
             onClick={exportFiltered}
-            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            disabled={exporting}
+            className={`inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors ${
+              exporting ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
           >
             <Download className="h-4 w-4 mr-2" />
-            Export
+            {exporting ? 'Exporting...' : 'Export'}
           </button>
         </div>
       </div>
 
+      {lastDeleted && (
+        <div className="flex items-center justify-between bg-gray-800 text-white rounded-md px-4 py-3">
+          <span className="text-sm">Moved "{lastDeleted.field}" to the trash.</span>
+          <div className="flex items-center space-x-4">
+            <button onClick={undoDelete} className="text-sm font-medium text-blue-300 hover:text-blue-200">
+              Undo
+            </button>
+            <button onClick={() => setLastDeleted(null)} className="text-sm text-gray-300 hover:text-white">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ConflictQueue />
+
       {/* Search Bar */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
@@ -198,7 +598,7 @@ export function RecordsView() {
           type="text"
           placeholder="Search records..."
           value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
+          onChange={(e) => updateQuery({ search: e.target.value })}
           className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         />
       </div>
@@ -212,7 +612,7 @@ export function RecordsView() {
               <input
                 type="text"
                 value={filters.field}
-                onChange={(e) => setFilters(prev => ({ ...prev, field: e.target.value }))}
+                onChange={(e) => updateQuery({ field: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 placeholder="Filter by field name"
               />
@@ -223,7 +623,7 @@ export function RecordsView() {
               <input
                 type="text"
                 value={filters.location}
-                onChange={(e) => setFilters(prev => ({ ...prev, location: e.target.value }))}
+                onChange={(e) => updateQuery({ location: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 placeholder="Filter by location"
               />
@@ -234,7 +634,7 @@ export function RecordsView() {
               <input
                 type="date"
                 value={filters.dateFrom}
-                onChange={(e) => setFilters(prev => ({ ...prev, dateFrom: e.target.value }))}
+                onChange={(e) => updateQuery({ dateFrom: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
@@ -244,7 +644,7 @@ export function RecordsView() {
               <input
                 type="date"
                 value={filters.dateTo}
-                onChange={(e) => setFilters(prev => ({ ...prev, dateTo: e.target.value }))}
+                onChange={(e) => updateQuery({ dateTo: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               />
             </div>
@@ -261,75 +661,292 @@ export function RecordsView() {
         </div>
       )}
 
-      {/* Records Table */}
+      {recordIds && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-md px-4 py-2">
+          <span className="text-sm text-blue-800">
+            Showing {recordIds.length === 1 ? 'a single record' : `${recordIds.length} selected records`}
+          </span>
+          <button
+            onClick={() => updateQuery({ recordIds: undefined })}
+            className="inline-flex items-center text-sm text-blue-700 hover:text-blue-900"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Show all
+          </button>
+        </div>
+      )}
+
+      {area && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-md px-4 py-2">
+          <span className="text-sm text-blue-800">
+            Limited to the {area.type === 'rectangle' ? 'rectangle' : 'polygon'} drawn on the map
+          </span>
+          <button
+            onClick={() => setArea(null)}
+            className="inline-flex items-center text-sm text-blue-700 hover:text-blue-900"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear area
+          </button>
+        </div>
+      )}
+
+      {viewMode === 'map' ? (
+        <RecordsMap
+          records={mapPoints}
+          area={area}
+          onAreaChange={setArea}
+          onSelect={openPoint}
+        />
+      ) : (
+      /* Records Table */
       <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
-        <div className="overflow-x-auto">
+        {/* Only the rows in view are rendered, so long lists stay responsive. */}
+        <div ref={scrollRef} className="overflow-auto max-h-[70vh]">
           <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
+            <thead className="bg-gray-50 sticky top-0 z-10">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Field
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Value
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Location
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Timestamp
-                </th>
+                <SortHeader column="field" label="Field" sort={sort} onSort={sortBy} />
+                <SortHeader
+                  column="value"
+                  label="Value"
+                  hint="Values sort as text, so 10 comes before 9"
+                  sort={sort}
+                  onSort={sortBy}
+                />
+                <SortHeader column="location" label="Location" sort={sort} onSort={sortBy} />
+                <SortHeader column="timestamp" label="Timestamp" sort={sort} onSort={sortBy} />
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Actions
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
+              {paddingTop > 0 && (
+                <tr>
+                  <td colSpan={5} style={{ height: paddingTop }} />
+                </tr>
+              )}
               {filteredRecords.length > 0 ? (
-                filteredRecords.map((record) => (
-                  <tr key={record.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{record.field}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{record.value}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-900">
-                        <MapPin className="h-4 w-4 text-gray-400 mr-1" />
-                        {record.location}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-sm text-gray-900">
-                        <Calendar className="h-4 w-4 text-gray-400 mr-1" />
-                        {new Date(record.timestamp).toLocaleString()}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button
-                        onClick={() => deleteRecord(record.id)}
-                        className="text-red-600 hover:text-red-900 transition-colors"
-                        title="Delete record"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                    </td>
-                  </tr>
-                ))
+                virtualRows.map(virtualRow => {
+                  const record = filteredRecords[virtualRow.index]
+                  return (
+                    <tr
+                      key={record.id}
+                      data-index={virtualRow.index}
+                      ref={rowVirtualizer.measureElement}
+                      className="hover:bg-gray-50"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center text-sm font-medium text-gray-900">
+                          {record.field}
+                          {syncStates.has(record.id) && (
+                            <SyncBadge state={syncStates.get(record.id)!} />
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{record.value}</div>
+                        <AttachmentThumbnails
+                          attachments={attachmentsByRecord.get(record.id) ?? []}
+                          onOpen={(index) => setGallery({ items: attachmentsByRecord.get(record.id) ?? [], index })}
+                        />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center text-sm text-gray-900">
+                          <MapPin className="h-4 w-4 text-gray-400 mr-1" />
+                          {record.location || (hasCoordinates(record) ? '' : '—')}
+                        </div>
+                        {hasCoordinates(record) && (
+                          <div className="text-xs text-gray-500">
+                            {formatCoordinates(record.latitude, record.longitude)}
+                            {record.accuracy !== null && ` ±${formatDistance(record.accuracy, profile)}`}
+                            {record.location_source === 'manual' && ' · placed manually'}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center text-sm text-gray-900">
+                          <Calendar className="h-4 w-4 text-gray-400 mr-1" />
+                          {formatDateTime(record.timestamp, profile)}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex justify-end space-x-3">
+                          {canEditRecord(role, user?.id, record) && (
+                            <button
+                              onClick={() => setEditingRecord(record)}
+                              className="text-blue-600 hover:text-blue-900 transition-colors"
+                              title="Edit record"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </button>
+                          )}
+                          {serverIds.has(record.id) && (
+                            <>
+                              <button
+                                onClick={() => setHistoryRecord(record)}
+                                className="text-gray-600 hover:text-gray-900 transition-colors"
+                                title="Revision history"
+                              >
+                                <History className="h-4 w-4" />
+                              </button>
+                              {/* Only synced records have a link others can open. */}
+                              <Link
+                                to={`/records/${record.id}`}
+                                className="text-gray-600 hover:text-gray-900 transition-colors"
+                                title="Link to this record"
+                              >
+                                <Link2 className="h-4 w-4" />
+                              </Link>
+                            </>
+                          )}
+                          {canEditRecord(role, user?.id, record) && (
+                            <button
+                              onClick={() => deleteRecord(record)}
+                              className="text-red-600 hover:text-red-900 transition-colors"
+                              title="Move to trash"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })
               ) : (
                 <tr>
                   <td colSpan={5} className="px-6 py-12 text-center">
                     <div className="text-gray-500">
-                      {records.length === 0 ? 'No records found' : 'No records match your search criteria'}
+                      {hasFilters ? 'No records match your search criteria' : 'No records found'}
                     </div>
                   </td>
                 </tr>
               )}
+              {paddingBottom > 0 && (
+                <tr>
+                  <td colSpan={5} style={{ height: paddingBottom }} />
+                </tr>
+              )}
             </tbody>
           </table>
         </div>
       </div>
+      )}
+
+      {/* Also reachable without scrolling, e.g. from the map or when the area
+          filter hides every loaded record. */}
+      {nextPage && (
+        <div className="flex justify-center">
+          <button
+            onClick={loadMore}
+            disabled={loadingMore}
+            className={`px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 transition-colors ${
+              loadingMore ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+          >
+            {loadingMore ? 'Loading...' : 'Load more records'}
+          </button>
+        </div>
+      )}
+
+      {editingRecord && (
+        <RecordEditModal record={editingRecord} onClose={() => setEditingRecord(null)} />
+      )}
+
+      {gallery && (
+        <AttachmentGallery
+          attachments={gallery.items}
+          initialIndex={gallery.index}
+          onClose={() => setGallery(null)}
+        />
+      )}
+
+      {historyRecord && (
+        <RecordHistory
+          record={historyRecord}
+          onClose={() => {
+            setHistoryRecord(null)
+            setReloads(count => count + 1)
+          }}
+        />
+      )}
     </div>
   )
+}
+
+interface SortHeaderProps {
+  column: RecordSortColumn
+  label: string
+  hint?: string
+  sort: RecordSort
+  onSort: (column: RecordSortColumn) => void
+}
+
+function withEdit<T extends { id: string }>(row: T, edits: Map<string, UpdateEntry>): T {
+  const edit = edits.get(row.id)
+  return edit ? { ...row, ...edit.payload } : row
+}
+
+// Queued edits show in place and unsynced records where the sort order puts
+// them, so the list matches what the user typed.
+function withLocalChanges(
+  fetched: FieldRecord[],
+  pending: FieldRecord[],
+  edits: Map<string, UpdateEntry>,
+  sort: RecordSort
+): FieldRecord[] {
+  const fetchedIds = new Set(fetched.map(record => record.id))
+  const merged = fetched.map(record => withEdit(record, edits)).filter(record => !record.deleted_at)
+
+  pending
+    .filter(record => !fetchedIds.has(record.id))
+    .forEach(record => {
+      const index = merged.findIndex(row => compareRecords(record, row, sort) < 0)
+      merged.splice(index === -1 ? merged.length : index, 0, record)
+    })
+  return merged
+}
+
+function SortHeader({ column, label, hint, sort, onSort }: SortHeaderProps) {
+  const active = sort.column === column
+  const Icon = !active ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown
+
+  return (
+    <th
+      aria-sort={active ? (sort.ascending ? 'ascending' : 'descending') : 'none'}
+      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+    >
+      <button
+        onClick={() => onSort(column)}
+        title={hint}
+        className={`inline-flex items-center uppercase tracking-wider hover:text-gray-700 transition-colors ${
+          active ? 'text-gray-900' : ''
+        }`}
+      >
+        {label}
+        <Icon className="h-3 w-3 ml-1" />
+      </button>
+    </th>
+  )
+}
+
+function SyncBadge({ state }: { state: SyncState }) {
+  const styles: Record<SyncState, string> = {
+    pending: 'bg-amber-100 text-amber-800',
+    syncing: 'bg-blue-100 text-blue-800',
+    failed: 'bg-red-100 text-red-800'
+  }
+  const labels: Record<SyncState, string> = {
+    pending: 'Pending sync',
+    syncing: 'Syncing',
+    failed: 'Sync failed'
+  }
+
+  return (
+    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${styles[state]}`}>
+      {labels[state]}
+    </span>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { useSync } from '../contexts/SyncContext'
+import { CheckCircle, Clock, AlertCircle, AlertTriangle, WifiOff, RefreshCw } from 'lucide-react'
+
+export function SyncIndicator() {
+  const { status, health, syncNow } = useSync()
+  const queued = status.pending + status.inFlight
+
+  let icon = <CheckCircle className="h-4 w-4 text-emerald-600" />
+  let label = 'Synced'
+  let className = 'bg-emerald-50 text-emerald-800 border-emerald-200'
+
+  if (!status.online) {
+    icon = <WifiOff className="h-4 w-4 text-gray-600" />
+    label = queued + status.failed > 0 ? `Offline · ${queued + status.failed} queued` : 'Offline'
+    className = 'bg-gray-100 text-gray-700 border-gray-200'
+  } else if (health === 'error') {
+    icon = <AlertCircle className="h-4 w-4 text-red-600" />
+    label = `${status.failed} failed`
+    className = 'bg-red-50 text-red-800 border-red-200'
+  } else if (health === 'conflict') {
+    icon = <AlertTriangle className="h-4 w-4 text-amber-600" />
+    label = `${status.conflicts} ${status.conflicts === 1 ? 'conflict' : 'conflicts'}`
+    className = 'bg-amber-50 text-amber-800 border-amber-200'
+  } else if (status.inFlight > 0) {
+    icon = <RefreshCw className="h-4 w-4 text-blue-600 animate-spin" />
+    label = `Syncing ${queued}`
+    className = 'bg-blue-50 text-blue-800 border-blue-200'
+  } else if (health === 'pending') {
+    icon = <Clock className="h-4 w-4 text-amber-600" />
+    label = `${queued} queued`
+    className = 'bg-amber-50 text-amber-800 border-amber-200'
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => syncNow()}
+      className={`inline-flex items-center px-2 py-1 border rounded-full text-xs font-medium transition-colors ${className}`}
+      title={status.lastError ? `Last error: ${status.lastError}` : 'Sync now'}
+    >
+      {icon}
+      <span className="ml-1">{label}</span>
+    </button>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,402 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '../lib/supabase'
+import { Json } from '../types/database'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  FIELD_TYPE_LABELS,
+  FormTemplate,
+  TemplateField,
+  TemplateFieldType,
+  fieldKeyFromLabel,
+  validateTemplateDefinition
+} from '../lib/templates'
+import { Plus, Trash2, ArrowUp, ArrowDown, Save, AlertCircle, FileText } from 'lucide-react'
+
+interface TemplateDraft {
+  id?: string
+  name: string
+  description: string
+  is_active: boolean
+  fields: TemplateField[]
+}
+
+const emptyDraft: TemplateDraft = {
+  name: '',
+  description: '',
+  is_active: true,
+  fields: []
+}
+
+export function TemplateDesigner() {
+  const { user, can } = useAuth()
+  const [templates, setTemplates] = useState<FormTemplate[]>([])
+  const [draft, setDraft] = useState<TemplateDraft | null>(null)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadTemplates()
+  }, [])
+
+  const loadTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('form_templates')
+        .select('*')
+        .order('name')
+
+      if (error) throw error
+
+      setTemplates((data || []) as unknown as FormTemplate[])
+    } catch (error) {
+      console.error('Error loading templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateField = (index: number, changes: Partial<TemplateField>) => {
+    setDraft(prev => {
+      if (!prev) return prev
+      const fields = prev.fields.map((field, i) => {
+        if (i !== index) return field
+        const updated = { ...field, ...changes }
+        if (changes.label !== undefined) {
+          updated.key = fieldKeyFromLabel(changes.label)
+        }
+        return updated
+      })
+      return { ...prev, fields }
+    })
+  }
+
+  const addField = () => {
+    setDraft(prev => prev && {
+      ...prev,
+      fields: [...prev.fields, { key: '', label: '', type: 'text', required: false }]
+    })
+  }
+
+  const removeField = (index: number) => {
+    setDraft(prev => prev && { ...prev, fields: prev.fields.filter((_, i) => i !== index) })
+  }
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    setDraft(prev => {
+      if (!prev) return prev
+      const target = index + direction
+      if (target < 0 || target >= prev.fields.length) return prev
+      const fields = [...prev.fields]
+      ;[fields[index], fields[target]] = [fields[target], fields[index]]
+      return { ...prev, fields }
+    })
+  }
+
+  const saveTemplate = async () => {
+    if (!draft || !user) return
+
+    const validationError = validateTemplateDefinition(draft.name, draft.fields)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError('')
+
+    try {
+      const payload = {
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        is_active: draft.is_active,
+        fields: draft.fields as unknown as Json
+      }
+
+      const { error } = draft.id
+        ? await supabase.from('form_templates').update(payload).eq('id', draft.id)
+        : await supabase.from('form_templates').insert([{ ...payload, created_by: user.id }])
+
+      if (error) throw error
+
+      await supabase
+        .from('activity_logs')
+        .insert([
+          {
+            user_id: user.id,
+            action: draft.id ? 'TEMPLATE_UPDATE' : 'TEMPLATE_CREATE',
+            details: `${draft.id ? 'Updated' : 'Created'} form template: ${payload.name}`,
+            timestamp: new Date().toISOString()
+          }
+        ])
+
+      setDraft(null)
+      loadTemplates()
+    } catch (error) {
+      console.error('Error saving template:', error)
+      setError('Failed to save template. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteTemplate = async (template: FormTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Records collected with it are kept.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('form_templates')
+        .delete()
+        .eq('id', template.id)
+
+      if (error) throw error
+
+      setTemplates(prev => prev.filter(item => item.id !== template.id))
+    } catch (error) {
+      console.error('Error deleting template:', error)
+    }
+  }
+
+  if (!can('templates.manage')) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <p className="text-gray-600">Only administrators can manage form templates.</p>
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Form Templates</h1>
+          <p className="text-gray-600">Define the typed fields crews fill in when collecting data</p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => {
+              setDraft({ ...emptyDraft, fields: [] })
+              setError('')
+            }}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="e.g., Weather Station Reading"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.is_active}
+              onChange={(e) => setDraft({ ...draft, is_active: e.target.checked })}
+              className="mr-2 rounded border-gray-300"
+            />
+            Available in the collection form
+          </label>
+
+          <div className="space-y-4">
+            {draft.fields.map((field, index) => (
+              <div key={index} className="border border-gray-200 rounded-md p-4 space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <input
+                    type="text"
+                    value={field.label}
+                    onChange={(e) => updateField(index, { label: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Field label"
+                  />
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateField(index, { type: e.target.value as TemplateFieldType })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {Object.entries(FIELD_TYPE_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center justify-between">
+                    <label className="inline-flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={field.required}
+                        onChange={(e) => updateField(index, { required: e.target.checked })}
+                        className="mr-2 rounded border-gray-300"
+                      />
+                      Required
+                    </label>
+                    <div className="flex space-x-2">
+                      <button onClick={() => moveField(index, -1)} className="text-gray-500 hover:text-gray-700" title="Move up">
+                        <ArrowUp className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => moveField(index, 1)} className="text-gray-500 hover:text-gray-700" title="Move down">
+                        <ArrowDown className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => removeField(index)} className="text-red-600 hover:text-red-900" title="Remove field">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+
+                {field.type === 'number' && (
+                  <div className="grid grid-cols-3 gap-3">
+                    <input
+                      type="text"
+                      value={field.unit ?? ''}
+                      onChange={(e) => updateField(index, { unit: e.target.value || undefined })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Unit (e.g., °C)"
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      value={field.min ?? ''}
+                      onChange={(e) => updateField(index, { min: e.target.value === '' ? undefined : e.target.valueAsNumber })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Min"
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      value={field.max ?? ''}
+                      onChange={(e) => updateField(index, { max: e.target.value === '' ? undefined : e.target.valueAsNumber })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Max"
+                    />
+                  </div>
+                )}
+
+                {(field.type === 'select' || field.type === 'multiselect') && (
+                  <input
+                    type="text"
+                    value={field.options?.join(', ') ?? ''}
+                    onChange={(e) => updateField(index, {
+                      options: e.target.value.split(',').map(option => option.trim()).filter(Boolean)
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Options, separated by commas"
+                  />
+                )}
+              </div>
+            ))}
+
+            <button
+              onClick={addField}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 transition-colors"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Field
+            </button>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveTemplate}
+              disabled={saving}
+              className={`px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center ${
+                saving ? 'opacity-50 cursor-not-allowed' : ''
+              }`}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white shadow-sm rounded-lg border border-gray-200 divide-y divide-gray-200">
+          {templates.length > 0 ? (
+            templates.map(template => (
+              <div key={template.id} className="px-6 py-4 flex justify-between items-center">
+                <div className="flex items-center">
+                  <FileText className="h-5 w-5 text-gray-400 mr-3" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {template.name}
+                      {!template.is_active && <span className="ml-2 text-xs text-gray-500">(inactive)</span>}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {template.fields.length} fields{template.description && ` · ${template.description}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => {
+                      setDraft({
+                        id: template.id,
+                        name: template.name,
+                        description: template.description,
+                        is_active: template.is_active,
+                        fields: template.fields
+                      })
+                      setError('')
+                    }}
+                    className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => deleteTemplate(template)}
+                    className="text-red-600 hover:text-red-900 transition-colors"
+                    title="Delete template"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className="px-6 py-12 text-center text-gray-500">No templates yet</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
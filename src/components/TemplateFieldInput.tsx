@@ -0,0 +1,126 @@
+import { AlertCircle } from 'lucide-react'
+import { TemplateField, TemplateValue } from '../lib/templates'
+
+interface TemplateFieldInputProps {
+  field: TemplateField
+  value: TemplateValue
+  error?: string
+  onChange: (value: TemplateValue) => void
+}
+
+export function TemplateFieldInput({ field, value, error, onChange }: TemplateFieldInputProps) {
+  const id = `template-field-${field.key}`
+  const inputClassName = `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? 'border-red-300' : 'border-gray-300'
+  }`
+
+  const renderInput = () => {
+    switch (field.type) {
+      case 'number':
+        return (
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              id={id}
+              step="any"
+              min={field.min}
+              max={field.max}
+              value={typeof value === 'number' ? value : ''}
+              onChange={(e) => onChange(e.target.value === '' ? null : e.target.valueAsNumber)}
+              className={inputClassName}
+              placeholder={
+                field.min !== undefined && field.max !== undefined
+                  ? `${field.min} – ${field.max}`
+                  : undefined
+              }
+            />
+            {field.unit && <span className="text-sm text-gray-600 whitespace-nowrap">{field.unit}</span>}
+          </div>
+        )
+      case 'select':
+        return (
+          <select
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            className={inputClassName}
+          >
+            <option value="">Select…</option>
+            {field.options?.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        )
+      case 'multiselect': {
+        const selected = Array.isArray(value) ? value : []
+        return (
+          <div className="flex flex-wrap gap-3">
+            {field.options?.map(option => (
+              <label key={option} className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={(e) => onChange(
+                    e.target.checked
+                      ? [...selected, option]
+                      : selected.filter(item => item !== option)
+                  )}
+                  className="mr-2 rounded border-gray-300"
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        )
+      }
+      case 'boolean':
+        return (
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              id={id}
+              checked={value === true}
+              onChange={(e) => onChange(e.target.checked)}
+              className="mr-2 rounded border-gray-300"
+            />
+            Yes
+          </label>
+        )
+      case 'date':
+        return (
+          <input
+            type="date"
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            className={inputClassName}
+          />
+        )
+      default:
+        return (
+          <input
+            type="text"
+            id={id}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(e.target.value)}
+            className={inputClassName}
+          />
+        )
+    }
+  }
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-2">
+        {field.label}{field.required && field.type !== 'boolean' ? ' *' : ''}
+      </label>
+      {renderInput()}
+      {error && (
+        <p className="mt-1 text-sm text-red-600 flex items-center">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
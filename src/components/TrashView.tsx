@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback } from 'react'
+import { supabase, Tables } from '../lib/supabase'
+import { config } from '../lib/config'
+import { enqueueRecordUpdate } from '../lib/outbox'
+import { removeAttachmentFiles } from '../lib/attachments'
+import { syncOutbox } from '../lib/sync'
+import { useAuth } from '../contexts/AuthContext'
+import { useProject } from '../contexts/ProjectContext'
+import { canEditRecord } from '../lib/permissions'
+import { formatDateTime } from '../lib/format'
+import { RotateCcw, Trash2, Calendar } from 'lucide-react'
+
+type FieldRecord = Tables<'field_records'>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function TrashView() {
+  const { user, profile } = useAuth()
+  const { activeProject, loading: projectsLoading } = useProject()
+  const projectId = activeProject?.id ?? ''
+  const [records, setRecords] = useState<FieldRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const loadTrash = useCallback(async () => {
+    // Nothing is asked for until a project is active.
+    if (!projectId) {
+      setRecords([])
+      setLoading(projectsLoading)
+      return
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('field_records')
+        .select('*')
+        .eq('project_id', projectId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+
+      if (error) throw error
+
+      setRecords(data || [])
+      setError('')
+    } catch (error) {
+      console.error('Error loading trash:', error)
+      setError('The trash can only be loaded while online.')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId, projectsLoading])
+
+  useEffect(() => {
+    loadTrash()
+  }, [user, loadTrash])
+
+  const restoreRecord = async (record: FieldRecord) => {
+    if (!user) return
+
+    try {
+      await enqueueRecordUpdate(
+        record.id,
+        { deleted_at: null },
+        record.version,
+        user.id,
+        'DATA_RESTORE',
+        `Restored field record from trash: ${record.field} (ID: ${record.id})`
+      )
+      syncOutbox()
+      setRecords(prev => prev.filter(item => item.id !== record.id))
+    } catch (error) {
+      console.error('Error restoring record:', error)
+    }
+  }
+
+  const purgeRecord = async (record: FieldRecord) => {
+    if (!confirm('Permanently delete this record? This cannot be undone.')) return
+
+    try {
+      // Files first: the storage policy checks the record, so they cannot be
+      // removed once it is gone.
+      await removeAttachmentFiles([record.id])
+
+      const { error } = await supabase
+        .from('field_records')
+        .delete()
+        .eq('id', record.id)
+
+      if (error) throw error
+
+      // Log the activity
+      if (user) {
+        await supabase
+          .from('activity_logs')
+          .insert([
+            {
+              user_id: user.id,
+              action: 'DATA_PURGE',
+              details: `Permanently deleted field record with ID: ${record.id}`,
+              timestamp: new Date().toISOString()
+            }
+          ])
+      }
+
+      setRecords(prev => prev.filter(item => item.id !== record.id))
+    } catch (error) {
+      console.error('Error purging record:', error)
+      setError('Failed to delete the record permanently. Please try again.')
+    }
+  }
+
+  const daysLeft = (record: FieldRecord) => {
+    const deletedAt = new Date(record.deleted_at!).getTime()
+    const remaining = deletedAt + config.trashRetentionDays * DAY_MS - Date.now()
+    return Math.max(Math.ceil(remaining / DAY_MS), 0)
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        <p className="text-gray-600">
+          Deleted records are kept for {config.trashRetentionDays} days before they are removed permanently
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Field
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Value
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Deleted
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {records.length > 0 ? (
+                records.map(record => (
+                  <tr key={record.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{record.field}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{record.value}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center text-sm text-gray-900">
+                        <Calendar className="h-4 w-4 text-gray-400 mr-1" />
+                        {formatDateTime(record.deleted_at!, profile)}
+                      </div>
+                      <div className="text-xs text-gray-500">Purged in {daysLeft(record)} days</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {canEditRecord(activeProject?.role ?? null, user?.id, record) && (
+                        <div className="flex justify-end space-x-3">
+                          <button
+                            onClick={() => restoreRecord(record)}
+                            className="text-blue-600 hover:text-blue-900 transition-colors"
+                            title="Restore record"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => purgeRecord(record)}
+                            className="text-red-600 hover:text-red-900 transition-colors"
+                            title="Delete permanently"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center">
+                    <div className="text-gray-500">The trash is empty</div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
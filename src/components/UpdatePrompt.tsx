@@ -0,0 +1,55 @@
+import { useRegisterSW } from 'virtual:pwa-register/react'
+import { RefreshCw, WifiOff, X } from 'lucide-react'
+
+// Tells the user when a new version has been downloaded and lets them reload
+// into it once any unsaved work is done, and confirms the first time the app
+// is ready to open without network.
+export function UpdatePrompt() {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisterError(error) {
+      console.error('Service worker registration failed:', error)
+    }
+  })
+
+  if (!needRefresh && !offlineReady) return null
+
+  const close = () => {
+    setNeedRefresh(false)
+    setOfflineReady(false)
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-50 max-w-sm bg-white rounded-lg shadow-lg border border-gray-200 p-4 flex items-start space-x-3"
+    >
+      {needRefresh ? (
+        <RefreshCw className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
+      ) : (
+        <WifiOff className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+      )}
+      <div className="flex-1">
+        <p className="text-sm text-gray-900">
+          {needRefresh
+            ? 'A new version is available. Reload when you have finished the current entry.'
+            : 'The app is ready to work offline.'}
+        </p>
+        {needRefresh && (
+          <button
+            onClick={() => updateServiceWorker(true)}
+            className="mt-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Reload
+          </button>
+        )}
+      </div>
+      <button onClick={close} className="text-gray-400 hover:text-gray-600" title="Dismiss">
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react'
+import { Profile, listProfiles, profileName, updateRole } from '../lib/profiles'
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, Role } from '../lib/permissions'
+import { formatDate } from '../lib/format'
+import { useAuth } from '../contexts/AuthContext'
+import { AlertCircle } from 'lucide-react'
+
+export function UserRoles() {
+  const { user, can, profile: ownProfile } = useAuth()
+  const allowed = can('users.manage')
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (!allowed) return
+
+    listProfiles()
+      .then(setProfiles)
+      .catch(error => {
+        console.error('Error loading users:', error)
+        setError('Users can only be loaded while online.')
+      })
+      .finally(() => setLoading(false))
+  }, [allowed])
+
+  const changeRole = async (profile: Profile, role: Role) => {
+    setSavingId(profile.id)
+    setError('')
+    try {
+      await updateRole(profile.id, role)
+      setProfiles(prev => prev.map(item => (item.id === profile.id ? { ...item, role } : item)))
+    } catch (error) {
+      console.error('Error updating role:', error)
+      // The database refuses to demote the last admin; say so plainly.
+      setError(
+        profile.role === 'admin'
+          ? 'The role could not be changed. At least one admin is required.'
+          : 'The role could not be changed. Please try again.'
+      )
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  if (!allowed) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <p className="text-gray-600">Only administrators can manage user roles.</p>
+      </div>
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+        <p className="text-gray-600">Choose what each person can see and change</p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertCircle className="h-4 w-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      <div className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Joined</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {profiles.map(profile => (
+              <tr key={profile.id}>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {profileName(profile) || 'Unnamed user'}
+                  {profile.id === user?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                </td>
+                <td className="px-6 py-4">
+                  <select
+                    value={profile.role}
+                    disabled={savingId === profile.id}
+                    onChange={(e) => changeRole(profile, e.target.value as Role)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">{ROLE_DESCRIPTIONS[profile.role]}</p>
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
+                  {formatDate(profile.created_at, ownProfile)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
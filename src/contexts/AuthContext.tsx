@@ -1,16 +1,43 @@
-import React, { createContext, useContext, useEffect, useState } from 'react'
-import { User, Session } from '@supabase/supabase-js'
-import { supabase } from '../lib/supabase'
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react'
+import { User, Session, AuthError, isAuthRetryableFetchError } from '@supabase/supabase-js'
+import { supabase, isSupabaseConfigured } from '../lib/supabase'
+import { Permission, Role, hasPermission } from '../lib/permissions'
+import { Profile, EditableProfile, cachedProfile, loadProfile, updateProfile } from '../lib/profiles'
+import { cacheSession, cachedSession, clearCachedSession } from '../lib/session'
+
+// - online: signed in with a session the server has accepted
+// - offline-cached: signed in on the last known session while the server
+//   cannot be reached; the token is refreshed when the connection returns
+// - expired: the session ended without the user signing out (the refresh
+//   token was rejected), so they need to sign in again
+// - signed-out: no session
+export type AuthState = 'loading' | 'online' | 'offline-cached' | 'expired' | 'signed-out'
 
 interface AuthContextType {
   user: User | null
   session: Session | null
   loading: boolean
+  authState: AuthState
+  // Set while the user follows a password reset link, until they choose a
+  // new password.
+  passwordRecovery: boolean
+  profile: Profile | null
+  role: Role | null
+  can: (permission: Permission) => boolean
   signIn: (email: string, password: string) => Promise<void>
-  signUp: (email: string, password: string, username: string) => Promise<void>
-  signOut: () => Promise<void>
+  // Resolves to true when the address still has to be confirmed before the
+  // user can sign in.
+  signUp: (email: string, password: string, username: string) => Promise<boolean>
+  resendVerification: (email: string) => Promise<void>
+  requestPasswordReset: (email: string) => Promise<void>
+  updatePassword: (password: string) => Promise<void>
+  saveProfile: (settings: EditableProfile) => Promise<void>
+  // 'local' signs out this device, 'others' every other one, 'global' all.
+  signOut: (scope?: SignOutScope) => Promise<void>
 }
 
+type SignOutScope = 'local' | 'others' | 'global'
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function useAuth() {
@@ -21,34 +48,60 @@ export function useAuth() {
   return context
 }
 
+const NOT_CONFIGURED_MESSAGE =
+  'Supabase is not configured. Please add valid VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to your .env file.'
+
+// Network failures are reported as such rather than as a configuration
+// problem; the configuration has already been checked by then.
+function authError(error: AuthError): Error {
+  if (!isAuthRetryableFetchError(error)) return error
+  return new Error(
+    navigator.onLine
+      ? 'Unable to reach the server. Please try again in a moment.'
+      : 'You are offline. Connect to the internet and try again.'
+  )
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
+  const [stale, setStale] = useState(false)
+  const [expired, setExpired] = useState(false)
+  const [online, setOnline] = useState(navigator.onLine)
+  const [passwordRecovery, setPasswordRecovery] = useState(false)
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const signingOut = useRef(false)
 
   useEffect(() => {
-    // Don't attempt to get session if Supabase is not properly configured
-    if (!import.meta.env.VITE_SUPABASE_URL?.includes('.supabase.co')) {
+    if (!isSupabaseConfigured) {
       setLoading(false)
       return
     }
 
     let isMounted = true
-    let subscription: any = null
 
     const initAuth = async () => {
       try {
-        const { data: { session } } = await supabase.auth.getSession()
+        const { data, error } = await supabase.auth.getSession()
+        // An expired token that could not be refreshed offline: carry on with
+        // the last session until the network comes back.
+        const unreachable = !data.session && isAuthRetryableFetchError(error)
+        const session = unreachable ? cachedSession() : data.session
+        // A cached session is only left behind when the session ended
+        // without signing out.
+        const ended = !session && !!cachedSession()
+
+        if (data.session) cacheSession(data.session)
+        if (ended) await clearCachedSession()
         if (isMounted) {
           setSession(session)
           setUser(session?.user ?? null)
+          setStale(unreachable && !!session)
+          setExpired(ended)
         }
-      } catch (error: any) {
-        if (error?.message?.includes('Failed to fetch')) {
-          console.debug('Supabase connection unavailable during initialization')
-        } else {
-          console.error('Error getting session:', error)
-        }
+      } catch (error) {
+        console.error('Error getting session:', error)
       } finally {
         if (isMounted) {
           setLoading(false)
@@ -58,80 +111,170 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     initAuth()
 
-    // Listen for auth changes
-    try {
-      const result = supabase.auth.onAuthStateChange((_event, session) => {
-        if (isMounted) {
-          setSession(session)
-          setUser(session?.user ?? null)
-          setLoading(false)
-        }
-      })
-      subscription = result.data?.subscription
-    } catch (error) {
-      console.debug('Could not set up auth subscription')
-    }
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // A missing session only means signed out when Supabase says so; the
+      // initial event is also empty when the refresh failed offline.
+      if (!session && event !== 'SIGNED_OUT') return
+      if (event === 'PASSWORD_RECOVERY' && isMounted) setPasswordRecovery(true)
+
+      if (session) {
+        cacheSession(session)
+      } else {
+        clearCachedSession().catch(error => console.error('Error clearing cached session:', error))
+      }
+      if (isMounted) {
+        setSession(session)
+        setUser(session?.user ?? null)
+        setStale(false)
+        setExpired(!session && !signingOut.current)
+        setLoading(false)
+      }
+    })
 
     return () => {
       isMounted = false
-      subscription?.unsubscribe()
+      subscription.unsubscribe()
     }
   }, [])
 
-  const signIn = async (email: string, password: string) => {
-    if (!import.meta.env.VITE_SUPABASE_URL?.includes('.supabase.co')) {
-      throw new Error('Supabase is not configured. Please add valid VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to your .env file.')
+  useEffect(() => {
+    const goOnline = () => setOnline(true)
+    const goOffline = () => setOnline(false)
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
     }
-    try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      })
-      if (error) throw error
-    } catch (error: any) {
-      if (error.message?.includes('Failed to fetch')) {
-        throw new Error('Unable to connect to Supabase. Please check your configuration in .env file.')
-      }
-      throw error
+  }, [])
+
+  // Refresh in the background once the connection is back. Success arrives
+  // as TOKEN_REFRESHED above; a rejected refresh token as SIGNED_OUT.
+  useEffect(() => {
+    if (!stale || !online) return
+
+    supabase.auth.getSession().catch(error => console.error('Error refreshing session:', error))
+  }, [stale, online])
+
+  // Roles live in the profiles table rather than the JWT, so a change made by
+  // an admin applies on the next load without the user signing in again.
+  const userId = user?.id
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null)
+      setPasswordRecovery(false)
+      return
+    }
+
+    let isMounted = true
+    setProfile(cachedProfile(userId))
+    loadProfile(userId).then(loaded => {
+      if (isMounted) setProfile(loaded)
+    })
+    return () => {
+      isMounted = false
     }
+  }, [userId])
+
+  const signIn = async (email: string, password: string) => {
+    if (!isSupabaseConfigured) {
+      throw new Error(NOT_CONFIGURED_MESSAGE)
+    }
+    const { error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    })
+    if (error) throw authError(error)
   }
 
   const signUp = async (email: string, password: string, username: string) => {
-    if (!import.meta.env.VITE_SUPABASE_URL?.includes('.supabase.co')) {
-      throw new Error('Supabase is not configured. Please add valid VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to your .env file.')
+    if (!isSupabaseConfigured) {
+      throw new Error(NOT_CONFIGURED_MESSAGE)
     }
-    try {
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            username,
-          },
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        emailRedirectTo: window.location.origin,
+        data: {
+          username,
         },
-      })
-      if (error) throw error
-    } catch (error: any) {
-      if (error.message?.includes('Failed to fetch')) {
-        throw new Error('Unable to connect to Supabase. Please check your configuration in .env file.')
-      }
-      throw error
+      },
+    })
+    if (error) throw authError(error)
+    return !data.session
+  }
+
+  const resendVerification = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    })
+    if (error) throw authError(error)
+  }
+
+  // The link signs the user in and fires PASSWORD_RECOVERY, which shows the
+  // new-password form.
+  const requestPasswordReset = async (email: string) => {
+    if (!isSupabaseConfigured) {
+      throw new Error(NOT_CONFIGURED_MESSAGE)
     }
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: window.location.origin,
+    })
+    if (error) throw authError(error)
   }
 
-  const signOut = async () => {
-    const { error } = await supabase.auth.signOut()
-    if (error) throw error
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password })
+    if (error) throw authError(error)
+    setPasswordRecovery(false)
+  }
+
+  const saveProfile = async (settings: EditableProfile) => {
+    if (!user) return
+    setProfile(await updateProfile(user.id, settings))
+  }
+
+  const signOut = async (scope: SignOutScope = 'local') => {
+    signingOut.current = scope !== 'others'
+    try {
+      const { error } = await supabase.auth.signOut({ scope })
+      if (error) throw authError(error)
+    } finally {
+      signingOut.current = false
+    }
+  }
+
+  const role = profile?.role ?? null
+
+  let authState: AuthState
+  if (loading) {
+    authState = 'loading'
+  } else if (session) {
+    authState = stale || !online ? 'offline-cached' : 'online'
+  } else {
+    authState = expired ? 'expired' : 'signed-out'
   }
 
   const value = {
     user,
     session,
     loading,
+    authState,
+    passwordRecovery,
+    profile,
+    role,
+    can: (permission: Permission) => hasPermission(role, permission),
     signIn,
     signUp,
+    resendVerification,
+    requestPasswordReset,
+    updatePassword,
+    saveProfile,
     signOut,
   }
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
-}
\ No newline at end of file
+}
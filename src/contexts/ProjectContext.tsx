@@ -0,0 +1,73 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { useAuth } from './AuthContext'
+import { Permission, hasPermission } from '../lib/permissions'
+import { ProjectSummary, getActiveProjectId, loadProjects, setActiveProjectId } from '../lib/projects'
+
+interface ProjectContextType {
+  projects: ProjectSummary[]
+  activeProject: ProjectSummary | null
+  loading: boolean
+  selectProject: (id: string) => void
+  refreshProjects: () => Promise<void>
+  // Record permissions follow the role in the active project.
+  can: (permission: Permission) => boolean
+}
+
+const ProjectContext = createContext<ProjectContextType | undefined>(undefined)
+
+export function useProject() {
+  const context = useContext(ProjectContext)
+  if (context === undefined) {
+    throw new Error('useProject must be used within a ProjectProvider')
+  }
+  return context
+}
+
+export function ProjectProvider({ children }: { children: React.ReactNode }) {
+  const { user, role } = useAuth()
+  const userId = user?.id
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [activeId, setActiveId] = useState<string | null>(getActiveProjectId)
+  const [loading, setLoading] = useState(true)
+  // The role arrives after the profile loads, so an earlier request can finish
+  // after a later one. Only the latest request's answer is kept.
+  const requestRef = useRef(0)
+
+  const refreshProjects = useCallback(async () => {
+    if (!userId) return
+    const request = ++requestRef.current
+    const loaded = await loadProjects(userId, role)
+    if (request !== requestRef.current) return
+    setProjects(loaded)
+    setLoading(false)
+  }, [userId, role])
+
+  useEffect(() => {
+    requestRef.current++
+    setProjects([])
+    setLoading(true)
+  }, [userId])
+
+  useEffect(() => {
+    if (userId) refreshProjects()
+  }, [userId, refreshProjects])
+
+  // A remembered project the user has since left falls back to the first one.
+  const activeProject = projects.find(project => project.id === activeId) ?? projects[0] ?? null
+
+  const selectProject = useCallback((id: string) => {
+    setActiveId(id)
+    setActiveProjectId(id)
+  }, [])
+
+  const value = {
+    projects,
+    activeProject,
+    loading,
+    selectProject,
+    refreshProjects,
+    can: (permission: Permission) => hasPermission(activeProject?.role ?? null, permission),
+  }
+
+  return <ProjectContext.Provider value={value}>{children}</ProjectContext.Provider>
+}
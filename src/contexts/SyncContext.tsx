@@ -0,0 +1,46 @@
+import React, { createContext, useContext, useEffect, useSyncExternalStore } from 'react'
+import { useAuth } from './AuthContext'
+import {
+  SyncHealth,
+  SyncStatus,
+  getSyncHealth,
+  getSyncStatus,
+  startBackgroundSync,
+  subscribeToSyncStatus,
+  syncNow
+} from '../lib/sync'
+
+interface SyncContextType {
+  status: SyncStatus
+  health: SyncHealth
+  syncNow: () => Promise<void>
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined)
+
+export function useSync() {
+  const context = useContext(SyncContext)
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider')
+  }
+  return context
+}
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const userId = user?.id
+  const status = useSyncExternalStore(subscribeToSyncStatus, getSyncStatus)
+
+  useEffect(() => {
+    if (!userId) return
+    return startBackgroundSync(userId)
+  }, [userId])
+
+  const value = {
+    status,
+    health: getSyncHealth(status),
+    syncNow,
+  }
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>
+}
\ No newline at end of file
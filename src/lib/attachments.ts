@@ -0,0 +1,148 @@
+import { supabase, Tables } from './supabase'
+import { readExif } from './exif'
+
+export type Attachment = Tables<'field_record_attachments'>
+export type AttachmentKind = Attachment['kind']
+
+export const ATTACHMENT_BUCKET = 'field-attachments'
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024
+
+// Photos are scaled down to this on the longest edge before they are queued;
+// full-resolution phone photos would fill the device's storage quota quickly.
+const MAX_IMAGE_DIMENSION = 1920
+const IMAGE_QUALITY = 0.8
+const SIGNED_URL_TTL_S = 60 * 60
+
+// A file picked on the form that has not been queued yet.
+export interface PendingAttachment {
+  id: string
+  file: File
+  previewUrl: string | null
+  capturedAt: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+// What the gallery needs to show a file, whether it is stored or still queued.
+export interface AttachmentView {
+  id: string
+  recordId: string
+  fileName: string
+  kind: AttachmentKind
+  sizeBytes: number
+  capturedAt: string | null
+  url: string | null
+  pending: boolean
+}
+
+export function attachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/')) return 'image'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  return 'file'
+}
+
+export function storagePath(userId: string, recordId: string, attachmentId: string, fileName: string): string {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-100) || 'file'
+  return `${userId}/${recordId}/${attachmentId}-${safeName}`
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Re-encodes photos as JPEG at a bounded size. GIFs and SVGs are passed
+// through, since a canvas would drop their animation or vectors.
+export async function compressImage(file: File): Promise<File> {
+  if (!file.type.startsWith('image/') || file.type === 'image/gif' || file.type === 'image/svg+xml') {
+    return file
+  }
+
+  try {
+    const bitmap = await createImageBitmap(file)
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(bitmap.width * scale)
+    canvas.height = Math.round(bitmap.height * scale)
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', IMAGE_QUALITY))
+    if (!blob || blob.size >= file.size) return file
+
+    const name = file.name.replace(/\.[^.]+$/, '') + '.jpg'
+    return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified })
+  } catch (error) {
+    console.error('Error compressing image:', error)
+    return file
+  }
+}
+
+// EXIF is read from the original, since re-encoding through a canvas drops it.
+export async function prepareAttachment(file: File): Promise<PendingAttachment> {
+  const exif = await readExif(file)
+  const prepared = await compressImage(file)
+
+  return {
+    id: `${prepared.name}-${prepared.lastModified}-${Math.random().toString(36).slice(2)}`,
+    file: prepared,
+    previewUrl: prepared.type.startsWith('image/') ? URL.createObjectURL(prepared) : null,
+    capturedAt: exif.capturedAt,
+    latitude: exif.latitude,
+    longitude: exif.longitude
+  }
+}
+
+// Ids go in the query string, so large lists are fetched in batches.
+const RECORD_ID_BATCH = 100
+
+export async function loadAttachments(recordIds: string[]): Promise<Attachment[]> {
+  const batches: string[][] = []
+  for (let i = 0; i < recordIds.length; i += RECORD_ID_BATCH) {
+    batches.push(recordIds.slice(i, i + RECORD_ID_BATCH))
+  }
+
+  const results = await Promise.all(
+    batches.map(async batch => {
+      const { data, error } = await supabase
+        .from('field_record_attachments')
+        .select('*')
+        .in('record_id', batch)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return data || []
+    })
+  )
+  return results.flat()
+}
+
+// The bucket is private, so files are shown through short-lived signed URLs.
+export async function signedAttachmentUrls(attachments: Attachment[]): Promise<Map<string, string>> {
+  const urls = new Map<string, string>()
+  if (attachments.length === 0) return urls
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls(attachments.map(attachment => attachment.storage_path), SIGNED_URL_TTL_S)
+
+  if (error) throw error
+
+  data?.forEach(item => {
+    const attachment = attachments.find(candidate => candidate.storage_path === item.path)
+    if (attachment && item.signedUrl) urls.set(attachment.id, item.signedUrl)
+  })
+  return urls
+}
+
+export async function removeAttachmentFiles(recordIds: string[]): Promise<void> {
+  const attachments = await loadAttachments(recordIds)
+  if (attachments.length === 0) return
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove(attachments.map(attachment => attachment.storage_path))
+
+  if (error) throw error
+}
@@ -0,0 +1,52 @@
+// Charts arrive in chatbot answers as ```chart fenced blocks holding JSON,
+// e.g. {"title": "Soil pH", "type": "line", "unit": "pH",
+// "points": [{"label": "2026-10-01", "value": 6.4}]}.
+
+export interface ChartPoint {
+  label: string
+  value: number
+}
+
+export interface ChartSpec {
+  title: string
+  type: 'line' | 'bar'
+  unit: string
+  points: ChartPoint[]
+}
+
+const MAX_POINTS = 60
+
+export function parseChartSpec(text: string): ChartSpec | null {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (!raw || typeof raw !== 'object') return null
+
+  const spec = raw as Record<string, unknown>
+  if (!Array.isArray(spec.points)) return null
+
+  const points = spec.points
+    .map(point => ({
+      label: String((point as ChartPoint)?.label ?? ''),
+      value: Number((point as ChartPoint)?.value)
+    }))
+    .filter(point => Number.isFinite(point.value))
+    .slice(0, MAX_POINTS)
+
+  if (points.length === 0) return null
+
+  return {
+    title: typeof spec.title === 'string' ? spec.title : '',
+    type: spec.type === 'bar' ? 'bar' : 'line',
+    unit: typeof spec.unit === 'string' ? spec.unit : '',
+    points
+  }
+}
+
+export function formatChartValue(value: number, unit: string): string {
+  const rounded = Math.round(value * 100) / 100
+  return unit ? `${rounded} ${unit}` : String(rounded)
+}
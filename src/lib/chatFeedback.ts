@@ -0,0 +1,37 @@
+import { supabase, Tables } from './supabase'
+
+export type ChatFeedback = Pick<Tables<'chatbot_feedback'>, 'rating' | 'comment'>
+
+export async function saveFeedback(logId: string, userId: string, feedback: ChatFeedback): Promise<void> {
+  const { error } = await supabase
+    .from('chatbot_feedback')
+    .upsert(
+      { log_id: logId, user_id: userId, rating: feedback.rating, comment: feedback.comment.trim() },
+      { onConflict: 'log_id,user_id' }
+    )
+
+  if (error) throw error
+}
+
+export async function loadFeedback(logIds: string[]): Promise<Map<string, ChatFeedback>> {
+  if (logIds.length === 0) return new Map()
+
+  const { data, error } = await supabase
+    .from('chatbot_feedback')
+    .select('log_id, rating, comment')
+    .in('log_id', logIds)
+
+  if (error) throw error
+  return new Map((data || []).map(row => [row.log_id, { rating: row.rating, comment: row.comment }]))
+}
+
+export async function loadFeedbackReport(days: number) {
+  const [daily, comments] = await Promise.all([
+    supabase.rpc('chatbot_feedback_daily', { days }),
+    supabase.rpc('chatbot_feedback_comments', { max_results: 20 })
+  ])
+
+  if (daily.error) throw daily.error
+  if (comments.error) throw comments.error
+  return { daily: daily.data || [], comments: comments.data || [] }
+}
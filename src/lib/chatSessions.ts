@@ -0,0 +1,114 @@
+import { supabase, Tables } from './supabase'
+import { ChatCitations } from './citations'
+import { RecordAction } from './chatStream'
+import { ChatFeedback, loadFeedback } from './chatFeedback'
+
+export type ChatSession = Tables<'chat_sessions'>
+
+export interface ChatAction extends RecordAction {
+  status: 'pending' | 'saving' | 'confirmed' | 'cancelled'
+}
+
+export interface ChatMessage {
+  id: string
+  content: string
+  isUser: boolean
+  timestamp: Date
+  citations?: ChatCitations | null
+  // The answer was stopped before the model finished.
+  truncated?: boolean
+  actions?: ChatAction[]
+  // The chatbot_logs row behind an answer, which feedback is attached to.
+  logId?: string
+  feedback?: ChatFeedback
+}
+
+const ACTIVE_SESSION_KEY = 'fdc.activeChatSession'
+
+export const GREETING: ChatMessage = {
+  id: 'greeting',
+  content: 'Hello! I\'m your AI field assistant. I can help you analyze your data, answer questions about best practices, and provide insights about your field records.',
+  isUser: false,
+  timestamp: new Date()
+}
+
+// Remembered across view switches and reloads so the chat reopens where the
+// user left it.
+export function getActiveSessionId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_SESSION_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function setActiveSessionId(id: string | null) {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_SESSION_KEY, id)
+    } else {
+      localStorage.removeItem(ACTIVE_SESSION_KEY)
+    }
+  } catch {
+    // Without storage the chat simply starts fresh next time.
+  }
+}
+
+export async function listChatSessions(): Promise<ChatSession[]> {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function loadSessionMessages(sessionId: string): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('chatbot_logs')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: true })
+
+  if (error) throw error
+
+  const logs = data || []
+  const feedback = await loadFeedback(logs.map(log => log.id)).catch(error => {
+    console.error('Error loading chat feedback:', error)
+    return new Map<string, ChatFeedback>()
+  })
+
+  return logs.flatMap(log => [
+    { id: `${log.id}-message`, content: log.message, isUser: true, timestamp: new Date(log.timestamp) },
+    {
+      id: `${log.id}-response`,
+      content: log.response,
+      isUser: false,
+      timestamp: new Date(log.timestamp),
+      citations: log.citations as unknown as ChatCitations | null,
+      truncated: log.truncated,
+      logId: log.id,
+      feedback: feedback.get(log.id)
+    }
+  ])
+}
+
+export async function renameChatSession(id: string, title: string): Promise<void> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ title })
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+// Logs in the session are removed with it by the foreign key cascade.
+export async function deleteChatSession(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
@@ -0,0 +1,120 @@
+import { anonKey, functionsUrl, supabase } from './supabase'
+import { ChatCitations } from './citations'
+
+export interface ChatStreamRequest {
+  message: string
+  session_id?: string
+  // Limits the records the assistant reads to one project.
+  project_id?: string
+  utc_offset_minutes: number
+}
+
+// A record the assistant wants to create. Nothing is written until the user
+// confirms the card, and then it goes through the outbox like any entry.
+export interface RecordAction {
+  id: string
+  tool: 'create_record'
+  record: {
+    field: string
+    value: string
+    location: string
+  }
+}
+
+export interface ChatStreamHandlers {
+  onSession: (sessionId: string, title: string) => void
+  onToken: (text: string) => void
+  onAction: (action: RecordAction) => void
+}
+
+export interface ChatStreamResult {
+  citations: ChatCitations | null
+  truncated: boolean
+  logId: string | null
+}
+
+interface ServerEvent {
+  event: string
+  data: string
+}
+
+async function* readServerEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) return
+      buffer += value.replace(/\r\n?/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        let event = 'message'
+        const data: string[] = []
+        buffer.slice(0, boundary).split('\n').forEach(line => {
+          if (line.startsWith('event:')) event = line.slice(6).trim()
+          if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+        })
+        buffer = buffer.slice(boundary + 2)
+        if (data.length > 0) yield { event, data: data.join('\n') }
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// Sends a chat message and reads the answer as it streams in. Aborting the
+// signal cancels the request; the server keeps and logs what it had sent,
+// and this rejects with an AbortError.
+export async function streamChat(
+  request: ChatStreamRequest,
+  handlers: ChatStreamHandlers,
+  signal: AbortSignal
+): Promise<ChatStreamResult> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not signed in')
+
+  const response = await fetch(`${functionsUrl}/chatbot`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: anonKey,
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream'
+    },
+    body: JSON.stringify(request),
+    signal
+  })
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Chatbot request failed with status ${response.status}`)
+  }
+
+  for await (const { event, data } of readServerEvents(response.body)) {
+    const payload = JSON.parse(data)
+    switch (event) {
+      case 'session':
+        handlers.onSession(payload.session_id, payload.session_title)
+        break
+      case 'token':
+        handlers.onToken(payload.text)
+        break
+      case 'action':
+        handlers.onAction(payload)
+        break
+      case 'done':
+        return { citations: payload.citations, truncated: payload.truncated, logId: payload.log_id }
+      case 'error':
+        throw new Error(payload.error)
+    }
+  }
+
+  throw new Error('The chatbot stream ended before the answer was complete')
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
@@ -0,0 +1,68 @@
+import { RecordsQuery } from './recordFilters'
+
+export interface CitedRecord {
+  id: string
+  field: string
+  value: string
+  location: string
+  timestamp: string
+}
+
+// What the chatbot function returns alongside an answer grounded in records.
+export interface ChatCitations {
+  records: CitedRecord[]
+  range: { from: string; to: string } | null
+  fields: string[]
+  locations: string[]
+  total: number
+}
+
+export type MessageSegment =
+  | { type: 'text'; text: string }
+  | { type: 'record'; id: string }
+  | { type: 'range'; from: string; to: string }
+
+const TOKEN_PATTERN = /\[(rec):([0-9a-f-]{36})\]|\[(range):(\d{4}-\d{2}-\d{2})\/(\d{4}-\d{2}-\d{2})\]/g
+
+export function splitCitations(text: string): MessageSegment[] {
+  const segments: MessageSegment[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) segments.push({ type: 'text', text: text.slice(lastIndex, index) })
+
+    if (match[1] === 'rec') {
+      segments.push({ type: 'record', id: match[2] })
+    } else {
+      segments.push({ type: 'range', from: match[4], to: match[5] })
+    }
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < text.length) segments.push({ type: 'text', text: text.slice(lastIndex) })
+  return segments
+}
+
+// RecordsView filters on a single field and location, so those only carry
+// over when the question narrowed to exactly one.
+export function citationQuery(citations: ChatCitations, range = citations.range): RecordsQuery {
+  return {
+    dateFrom: range?.from,
+    dateTo: range?.to,
+    field: citations.fields.length === 1 ? citations.fields[0] : undefined,
+    location: citations.locations.length === 1 ? citations.locations[0] : undefined
+  }
+}
+
+// Plain text for copying elsewhere: record tokens are dropped and date ranges
+// spelled out.
+export function stripCitations(text: string): string {
+  return text
+    .replace(TOKEN_PATTERN, (...match: string[]) => {
+      if (!match[3]) return ''
+      return match[4] === match[5] ? match[4] : `${match[4]} to ${match[5]}`
+    })
+    .replace(/ +([.,;:])/g, '$1')
+    .replace(/ {2,}/g, ' ')
+}
@@ -0,0 +1,14 @@
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) ? parsed : fallback
+}
+
+export const config = {
+  // Days a deleted record stays in the trash before it is purged for good.
+  trashRetentionDays: readNumber(import.meta.env.VITE_TRASH_RETENTION_DAYS, 30),
+  // GPS fixes less precise than this (in metres) are flagged on the form.
+  gpsAccuracyThresholdM: readNumber(import.meta.env.VITE_GPS_ACCURACY_THRESHOLD_M, 25),
+  mapTileUrl: import.meta.env.VITE_MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  mapTileAttribution:
+    import.meta.env.VITE_MAP_TILE_ATTRIBUTION || '&copy; OpenStreetMap contributors',
+}
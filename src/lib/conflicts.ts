@@ -0,0 +1,60 @@
+import { Updates } from './supabase'
+import { ConflictEntry, enqueueActivity, enqueueRecordUpdate, removeConflict } from './outbox'
+import { sameValue, syncOutbox } from './sync'
+
+export type ConflictChoice = 'local' | 'server'
+
+type RecordChanges = Updates<'field_records'>
+type ChangeKey = keyof RecordChanges
+
+const SYSTEM_COLUMNS: ChangeKey[] = ['id', 'user_id', 'version', 'updated_at']
+
+// Fields the device changed where the server now holds something different.
+export function conflictingFields(conflict: ConflictEntry): ChangeKey[] {
+  return (Object.keys(conflict.local) as ChangeKey[]).filter(key =>
+    !SYSTEM_COLUMNS.includes(key) && !sameValue(conflict.server?.[key], conflict.local[key])
+  )
+}
+
+export async function resolveConflict(
+  conflict: ConflictEntry,
+  selections: Partial<Record<ChangeKey, ConflictChoice>>
+): Promise<void> {
+  const changes: RecordChanges = {}
+  conflictingFields(conflict).forEach(key => {
+    if (selections[key] === 'local') {
+      Object.assign(changes, { [key]: conflict.local[key] })
+    }
+  })
+
+  const keptLocal = Object.keys(changes)
+  const keptServer = conflictingFields(conflict).filter(key => selections[key] !== 'local')
+
+  // A record deleted on the server has nothing to apply local values to.
+  if (!conflict.server || keptLocal.length === 0) {
+    await enqueueActivity(
+      conflict.recordId,
+      conflict.userId,
+      'CONFLICT_RESOLVED',
+      `Resolved conflict on field record ${conflict.recordId}: kept server version`,
+      conflict.activities
+    )
+  } else {
+    const resolution = keptServer.length === 0
+      ? 'kept local version'
+      : `merged local ${keptLocal.join(', ')} with server ${keptServer.join(', ')}`
+
+    await enqueueRecordUpdate(
+      conflict.recordId,
+      changes,
+      conflict.server.version,
+      conflict.userId,
+      'CONFLICT_RESOLVED',
+      `Resolved conflict on field record ${conflict.recordId}: ${resolution}`,
+      conflict.activities
+    )
+  }
+
+  await removeConflict(conflict.id)
+  syncOutbox()
+}
\ No newline at end of file
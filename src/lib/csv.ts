@@ -0,0 +1,12 @@
+type CsvValue = string | number | null | undefined
+
+// Quotes a value when it holds a comma, quote or line break (RFC 4180).
+// Template summaries such as "Species: oak, ash; Count: 3" always do.
+function csvField(value: CsvValue): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(csvField).join(',')).join('\n')
+}
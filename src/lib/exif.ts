@@ -0,0 +1,151 @@
+// Reads the few EXIF tags the form uses from a JPEG: when the photo was taken
+// and where. Anything malformed or missing just comes back as null.
+
+export interface ExifData {
+  capturedAt: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+interface IfdEntry {
+  type: number
+  count: number
+  valueOffset: number
+}
+
+const EXIF_IFD_POINTER = 0x8769
+const GPS_IFD_POINTER = 0x8825
+const DATE_TIME_ORIGINAL = 0x9003
+const GPS_LATITUDE_REF = 0x0001
+const GPS_LATITUDE = 0x0002
+const GPS_LONGITUDE_REF = 0x0003
+const GPS_LONGITUDE = 0x0004
+
+// Size in bytes of each TIFF field type we read.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+// EXIF sits in the APP1 segment right after the start-of-image marker, well
+// inside the first few kilobytes of any camera JPEG.
+const HEADER_BYTES = 128 * 1024
+
+const EMPTY: ExifData = { capturedAt: null, latitude: null, longitude: null }
+
+function findTiffStart(view: DataView): number | null {
+  if (view.getUint16(0) !== 0xffd8) return null
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null
+
+    // "Exif" followed by two zero bytes, then the TIFF header.
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+class TiffReader {
+  constructor(
+    private view: DataView,
+    private start: number,
+    private little: boolean
+  ) {}
+
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>()
+    const base = this.start + offset
+    const count = this.view.getUint16(base, this.little)
+
+    for (let i = 0; i < count; i++) {
+      const entry = base + 2 + i * 12
+      const type = this.view.getUint16(entry + 2, this.little)
+      const valueCount = this.view.getUint32(entry + 4, this.little)
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount
+      // Values of four bytes or less are stored inline in the entry.
+      const valueOffset = size <= 4 ? entry + 8 : this.start + this.view.getUint32(entry + 8, this.little)
+      entries.set(this.view.getUint16(entry, this.little), { type, count: valueCount, valueOffset })
+    }
+    return entries
+  }
+
+  long(entry: IfdEntry): number {
+    return this.view.getUint32(entry.valueOffset, this.little)
+  }
+
+  ascii(entry: IfdEntry): string {
+    let text = ''
+    for (let i = 0; i < entry.count; i++) {
+      const code = this.view.getUint8(entry.valueOffset + i)
+      if (code === 0) break
+      text += String.fromCharCode(code)
+    }
+    return text
+  }
+
+  rationals(entry: IfdEntry): number[] {
+    const values: number[] = []
+    for (let i = 0; i < entry.count; i++) {
+      const numerator = this.view.getUint32(entry.valueOffset + i * 8, this.little)
+      const denominator = this.view.getUint32(entry.valueOffset + i * 8 + 4, this.little)
+      values.push(denominator === 0 ? 0 : numerator / denominator)
+    }
+    return values
+  }
+}
+
+function toDegrees([degrees = 0, minutes = 0, seconds = 0]: number[], ref: string, negativeRef: string): number {
+  const value = degrees + minutes / 60 + seconds / 3600
+  return ref === negativeRef ? -value : value
+}
+
+// EXIF dates have no time zone; the camera clock is assumed to be local time.
+function parseExifDate(value: string): string | null {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, second] = match.map(Number)
+  const date = new Date(year, month - 1, day, hour, minute, second)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+export async function readExif(file: Blob): Promise<ExifData> {
+  if (file.type && file.type !== 'image/jpeg') return EMPTY
+
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer())
+    const start = findTiffStart(view)
+    if (start === null) return EMPTY
+
+    const little = view.getUint16(start) === 0x4949
+    const reader = new TiffReader(view, start, little)
+    const ifd0 = reader.readIfd(view.getUint32(start + 4, little))
+    const result: ExifData = { ...EMPTY }
+
+    const exifPointer = ifd0.get(EXIF_IFD_POINTER)
+    if (exifPointer) {
+      const dateTime = reader.readIfd(reader.long(exifPointer)).get(DATE_TIME_ORIGINAL)
+      if (dateTime) result.capturedAt = parseExifDate(reader.ascii(dateTime))
+    }
+
+    const gpsPointer = ifd0.get(GPS_IFD_POINTER)
+    if (gpsPointer) {
+      const gps = reader.readIfd(reader.long(gpsPointer))
+      const latitude = gps.get(GPS_LATITUDE)
+      const longitude = gps.get(GPS_LONGITUDE)
+      const latitudeRef = gps.get(GPS_LATITUDE_REF)
+      const longitudeRef = gps.get(GPS_LONGITUDE_REF)
+
+      if (latitude && longitude) {
+        result.latitude = toDegrees(reader.rationals(latitude), latitudeRef ? reader.ascii(latitudeRef) : 'N', 'S')
+        result.longitude = toDegrees(reader.rationals(longitude), longitudeRef ? reader.ascii(longitudeRef) : 'E', 'W')
+      }
+    }
+
+    return result
+  } catch (error) {
+    console.error('Error reading EXIF data:', error)
+    return EMPTY
+  }
+}
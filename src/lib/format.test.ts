@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { calendarDate, formatDistance, formatTime, utcOffsetMinutes } from './format'
+
+const WINTER = new Date('2026-01-15T12:00:00Z')
+const SUMMER = new Date('2026-07-15T12:00:00Z')
+
+describe('utcOffsetMinutes', () => {
+  it('follows the profile timezone, including daylight saving', () => {
+    expect(utcOffsetMinutes({ units: 'metric', timezone: 'Europe/Oslo' }, WINTER)).toBe(-60)
+    expect(utcOffsetMinutes({ units: 'metric', timezone: 'Europe/Oslo' }, SUMMER)).toBe(-120)
+    expect(utcOffsetMinutes({ units: 'metric', timezone: 'America/New_York' }, WINTER)).toBe(300)
+    expect(utcOffsetMinutes({ units: 'metric', timezone: 'Asia/Kolkata' }, SUMMER)).toBe(-330)
+  })
+
+  it('uses the device offset without a valid timezone', () => {
+    expect(utcOffsetMinutes(null, WINTER)).toBe(WINTER.getTimezoneOffset())
+    expect(utcOffsetMinutes({ units: 'metric', timezone: '' }, WINTER)).toBe(WINTER.getTimezoneOffset())
+    expect(utcOffsetMinutes({ units: 'metric', timezone: 'Mars/Olympus' }, WINTER)).toBe(WINTER.getTimezoneOffset())
+  })
+})
+
+describe('calendarDate', () => {
+  it('gives the day it is in the profile timezone', () => {
+    const lateEvening = new Date('2026-10-18T20:00:00Z')
+    expect(calendarDate(lateEvening, { units: 'metric', timezone: 'Asia/Tokyo' })).toBe('2026-10-19')
+    expect(calendarDate(lateEvening, { units: 'metric', timezone: 'America/New_York' })).toBe('2026-10-18')
+  })
+})
+
+describe('formatTime', () => {
+  it('shows the time in the profile timezone', () => {
+    const tokyoClock = new Date('2026-01-15T21:00:00Z').toLocaleTimeString(undefined, { timeZone: 'UTC' })
+    expect(formatTime(WINTER, { units: 'metric', timezone: 'Asia/Tokyo' })).toBe(tokyoClock)
+  })
+})
+
+describe('formatDistance', () => {
+  it('shows metres by default and feet for imperial units', () => {
+    expect(formatDistance(12.4, null)).toBe('12 m')
+    expect(formatDistance(12.4, { units: 'metric', timezone: '' })).toBe('12 m')
+    expect(formatDistance(12.4, { units: 'imperial', timezone: '' })).toBe('41 ft')
+  })
+})
@@ -0,0 +1,72 @@
+import { Profile } from './profiles'
+
+// The profile's display preferences. Without a profile, or with no timezone
+// chosen, dates follow the device.
+export type DisplaySettings = Pick<Profile, 'units' | 'timezone'> | null | undefined
+
+const FEET_PER_METRE = 3.28084
+
+export function isValidTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// A zone saved before it was validated, or one this browser does not know,
+// falls back to the device's rather than throwing while rendering.
+function timeZone(settings: DisplaySettings): string | undefined {
+  const zone = settings?.timezone
+  return zone && isValidTimeZone(zone) ? zone : undefined
+}
+
+export function formatDateTime(value: string | number | Date, settings: DisplaySettings): string {
+  return new Date(value).toLocaleString(undefined, { timeZone: timeZone(settings) })
+}
+
+export function formatDate(value: string | number | Date, settings: DisplaySettings): string {
+  return new Date(value).toLocaleDateString(undefined, { timeZone: timeZone(settings) })
+}
+
+export function formatTime(value: string | number | Date, settings: DisplaySettings): string {
+  return new Date(value).toLocaleTimeString(undefined, { timeZone: timeZone(settings) })
+}
+
+// Distances are stored in metres, e.g. GPS accuracy and altitude.
+export function formatDistance(metres: number, settings: DisplaySettings): string {
+  return settings?.units === 'imperial'
+    ? `${Math.round(metres * FEET_PER_METRE)} ft`
+    : `${Math.round(metres)} m`
+}
+
+// The calendar day, YYYY-MM-DD, that it is in the profile's timezone at that
+// moment.
+export function calendarDate(at: Date, settings: DisplaySettings): string {
+  return new Date(at.getTime() - utcOffsetMinutes(settings, at) * 60000).toISOString().slice(0, 10)
+}
+
+// Minutes to add to local time to get UTC, as Date.getTimezoneOffset()
+// returns for the device, but for the profile's timezone.
+export function utcOffsetMinutes(settings: DisplaySettings, at: Date = new Date()): number {
+  const zone = timeZone(settings)
+  if (!zone) return at.getTimezoneOffset()
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+      .formatToParts(at)
+      .map(part => [part.type, Number(part.value)])
+  )
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return Math.round((at.getTime() - at.getMilliseconds() - local) / 60000)
+}
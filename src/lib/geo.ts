@@ -0,0 +1,111 @@
+import { Tables } from './supabase'
+
+type FieldRecord = Tables<'field_records'>
+
+export type LocationSource = 'gps' | 'manual'
+
+export interface GeoPosition {
+  latitude: number
+  longitude: number
+  accuracy: number | null
+  altitude: number | null
+  source: LocationSource
+}
+
+export function getCurrentPosition(): Promise<GeoPosition> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported by this browser'))
+      return
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        resolve({
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracy: coords.accuracy,
+          altitude: coords.altitude,
+          source: 'gps'
+        }),
+      (error) => {
+        const messages: Record<number, string> = {
+          [error.PERMISSION_DENIED]: 'Location permission was denied',
+          [error.POSITION_UNAVAILABLE]: 'Your position could not be determined',
+          [error.TIMEOUT]: 'Timed out waiting for a GPS fix'
+        }
+        reject(new Error(messages[error.code] ?? error.message))
+      },
+      { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 }
+    )
+  })
+}
+
+export function formatCoordinates(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`
+}
+
+export function hasCoordinates(
+  record: Pick<FieldRecord, 'latitude' | 'longitude'>
+): record is Pick<FieldRecord, 'latitude' | 'longitude'> & { latitude: number; longitude: number } {
+  return record.latitude !== null && record.longitude !== null
+}
+
+// Site label first, then coordinates, so exports and the table read the same.
+export function describeLocation(record: FieldRecord): string {
+  const parts: string[] = []
+  if (record.location) parts.push(record.location)
+  if (hasCoordinates(record)) parts.push(formatCoordinates(record.latitude, record.longitude))
+  return parts.join(' · ')
+}
+
+// An area drawn on the map; polygon points are [latitude, longitude] pairs.
+export type GeoArea =
+  | { type: 'rectangle'; south: number; west: number; north: number; east: number }
+  | { type: 'polygon'; points: [number, number][] }
+
+function insidePolygon(latitude: number, longitude: number, points: [number, number][]): boolean {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lngI] = points[i]
+    const [latJ, lngJ] = points[j]
+    const crosses = (latI > latitude) !== (latJ > latitude)
+    if (crosses && longitude < ((lngJ - lngI) * (latitude - latI)) / (latJ - latI) + lngI) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+export function isInsideArea(record: Pick<FieldRecord, 'latitude' | 'longitude'>, area: GeoArea): boolean {
+  if (!hasCoordinates(record)) return false
+  const { latitude, longitude } = record
+
+  if (area.type === 'rectangle') {
+    return latitude >= area.south && latitude <= area.north && longitude >= area.west && longitude <= area.east
+  }
+  return insidePolygon(latitude, longitude, area.points)
+}
+
+export interface GeoBounds {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+// The rectangle around an area, which the database can filter on before the
+// exact shape is checked here.
+export function areaBounds(area: GeoArea): GeoBounds {
+  if (area.type === 'rectangle') {
+    return { south: area.south, west: area.west, north: area.north, east: area.east }
+  }
+  const latitudes = area.points.map(([latitude]) => latitude)
+  const longitudes = area.points.map(([, longitude]) => longitude)
+  return {
+    south: Math.min(...latitudes),
+    west: Math.min(...longitudes),
+    north: Math.max(...latitudes),
+    east: Math.max(...longitudes)
+  }
+}
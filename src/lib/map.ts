@@ -0,0 +1,105 @@
+import L from 'leaflet'
+import 'leaflet/dist/leaflet.css'
+import { config } from './config'
+import { createMBTilesLayer } from './mbtiles'
+
+// Used when there is no fix yet; zoomed out far enough to show the world.
+export const DEFAULT_CENTER: L.LatLngTuple = [20, 0]
+export const DEFAULT_ZOOM = 2
+
+const AREA_STYLE: L.PathOptions = { color: '#2563eb', weight: 2, fillOpacity: 0.08 }
+
+// Colors handed out to field names; chosen to stay distinct on light tiles.
+const FIELD_COLORS = [
+  '#2563eb',
+  '#059669',
+  '#d97706',
+  '#dc2626',
+  '#7c3aed',
+  '#0891b2',
+  '#db2777',
+  '#65a30d',
+  '#ea580c',
+  '#4f46e5'
+]
+
+// A URL ending in .mbtiles is read as a single SQLite archive, so a tile set
+// copied onto the device (or served next to the app) works without a tile server.
+export function createTileLayer(): L.Layer {
+  const options = { attribution: config.mapTileAttribution, maxZoom: 19 }
+  if (/\.mbtiles(\?.*)?$/i.test(config.mapTileUrl)) {
+    return createMBTilesLayer(config.mapTileUrl, options)
+  }
+  return L.tileLayer(config.mapTileUrl, options)
+}
+
+export function colorForField(field: string): string {
+  let hash = 0
+  for (const char of field.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0
+  }
+  return FIELD_COLORS[Math.abs(hash) % FIELD_COLORS.length]
+}
+
+export function areaStyle(): L.PathOptions {
+  return { ...AREA_STYLE }
+}
+
+// Circle markers are drawn as SVG, which sidesteps Leaflet's default marker
+// images that bundlers fail to resolve.
+export function createPointMarker(position: L.LatLngExpression, color = '#2563eb'): L.CircleMarker {
+  return L.circleMarker(position, {
+    radius: 8,
+    color: '#ffffff',
+    weight: 2,
+    fillColor: color,
+    fillOpacity: 0.9
+  })
+}
+
+export interface PointCluster<T> {
+  center: L.LatLng
+  bounds: L.LatLngBounds
+  items: T[]
+}
+
+// Grid clustering on screen pixels at the current zoom: cheap enough to redo
+// on every zoom for the few thousand points a project collects.
+export function clusterPoints<T>(
+  map: L.Map,
+  items: T[],
+  position: (item: T) => L.LatLng,
+  cellSize = 48
+): PointCluster<T>[] {
+  const zoom = map.getZoom()
+  const cells = new Map<string, T[]>()
+
+  items.forEach(item => {
+    const point = map.project(position(item), zoom)
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`
+    const cell = cells.get(key)
+    if (cell) {
+      cell.push(item)
+    } else {
+      cells.set(key, [item])
+    }
+  })
+
+  return Array.from(cells.values()).map(cellItems => {
+    const latLngs = cellItems.map(position)
+    const lat = latLngs.reduce((sum, latLng) => sum + latLng.lat, 0) / latLngs.length
+    const lng = latLngs.reduce((sum, latLng) => sum + latLng.lng, 0) / latLngs.length
+    return { center: L.latLng(lat, lng), bounds: L.latLngBounds(latLngs), items: cellItems }
+  })
+}
+
+export function createClusterMarker(position: L.LatLngExpression, count: number, color: string): L.Marker {
+  const size = count < 10 ? 30 : count < 100 ? 36 : 44
+  return L.marker(position, {
+    icon: L.divIcon({
+      className: '',
+      html: `<div style="background:${color};width:${size}px;height:${size}px;line-height:${size}px" class="rounded-full text-white text-xs font-semibold text-center border-2 border-white shadow">${count}</div>`,
+      iconSize: [size, size]
+    })
+  })
+}
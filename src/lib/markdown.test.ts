@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { parseInline, parseMarkdown } from './markdown'
+
+describe('parseInline', () => {
+  it('keeps http(s) and mailto links', () => {
+    expect(parseInline('see [the docs](https://example.com/a?b=1) or [mail](mailto:crew@example.com)')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.com/a?b=1', children: [{ type: 'text', text: 'the docs' }] },
+      { type: 'text', text: ' or ' },
+      { type: 'link', href: 'mailto:crew@example.com', children: [{ type: 'text', text: 'mail' }] },
+    ])
+  })
+
+  it('leaves javascript: links as plain text, whatever their case', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([
+      { type: 'text', text: '[click](javascript:alert(1)' },
+      { type: 'text', text: ')' },
+    ])
+    expect(parseInline('[click](JaVaScRiPt:alert)')).toEqual([{ type: 'text', text: '[click](JaVaScRiPt:alert)' }])
+  })
+
+  it('leaves data: and relative links as plain text', () => {
+    const dataLink = '[open](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)'
+    expect(parseInline(dataLink)).toEqual([{ type: 'text', text: dataLink }])
+    expect(parseInline('[up](/admin)')).toEqual([{ type: 'text', text: '[up](/admin)' }])
+  })
+
+  it('parses emphasis, bold and code without reading markup inside code', () => {
+    expect(parseInline('**pH** is *low*, run `**not bold**`')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'pH' }] },
+      { type: 'text', text: ' is ' },
+      { type: 'em', children: [{ type: 'text', text: 'low' }] },
+      { type: 'text', text: ', run ' },
+      { type: 'code', text: '**not bold**' },
+    ])
+  })
+
+  it('does not treat underscores inside words as emphasis', () => {
+    expect(parseInline('soil_ph_reading')).toEqual([{ type: 'text', text: 'soil_ph_reading' }])
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('keeps raw HTML as text', () => {
+    expect(parseMarkdown('<img src=x onerror="alert(1)">\n<script>alert(1)</script>')).toEqual([
+      {
+        type: 'paragraph',
+        content: [{ type: 'text', text: '<img src=x onerror="alert(1)">\n<script>alert(1)</script>' }],
+      },
+    ])
+  })
+
+  it('parses headings, lists and paragraphs', () => {
+    expect(parseMarkdown('## Summary\n\n1. First\n2. Second\n   continued\n\nDone.')).toEqual([
+      { type: 'heading', level: 2, content: [{ type: 'text', text: 'Summary' }] },
+      {
+        type: 'list',
+        ordered: true,
+        items: [[{ type: 'text', text: 'First' }], [{ type: 'text', text: 'Second continued' }]],
+      },
+      { type: 'paragraph', content: [{ type: 'text', text: 'Done.' }] },
+    ])
+  })
+
+  it('parses a table with a header and rows', () => {
+    expect(parseMarkdown('| Site | pH |\n| --- | :-: |\n| North | **6.8** |\n| South | 7.1 |\nAfter')).toEqual([
+      {
+        type: 'table',
+        header: [[{ type: 'text', text: 'Site' }], [{ type: 'text', text: 'pH' }]],
+        rows: [
+          [[{ type: 'text', text: 'North' }], [{ type: 'strong', children: [{ type: 'text', text: '6.8' }] }]],
+          [[{ type: 'text', text: 'South' }], [{ type: 'text', text: '7.1' }]],
+        ],
+      },
+      { type: 'paragraph', content: [{ type: 'text', text: 'After' }] },
+    ])
+  })
+
+  it('keeps code blocks verbatim, including HTML and Markdown', () => {
+    expect(parseMarkdown('```Chart\n{"title": "<b>pH</b>"}\n# not a heading\n```')).toEqual([
+      { type: 'code', language: 'chart', text: '{"title": "<b>pH</b>"}\n# not a heading', closed: true },
+    ])
+  })
+
+  it('marks a code block still being streamed as open', () => {
+    expect(parseMarkdown('Here:\n```\nline 1')).toEqual([
+      { type: 'paragraph', content: [{ type: 'text', text: 'Here:' }] },
+      { type: 'code', language: '', text: 'line 1', closed: false },
+    ])
+  })
+})
@@ -0,0 +1,139 @@
+// A small Markdown subset for chatbot answers, parsed into a tree that is
+// rendered as React elements. No HTML from the text is ever injected, and
+// only http(s) and mailto links are kept.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+
+export type BlockNode =
+  | { type: 'heading'; level: number; content: InlineNode[] }
+  | { type: 'paragraph'; content: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'table'; header: InlineNode[][]; rows: InlineNode[][][] }
+  // `closed` is false while a streamed answer is still inside the fence.
+  | { type: 'code'; language: string; text: string; closed: boolean }
+
+const FENCE = /^\s*```\s*([\w-]*)\s*$/
+const HEADING = /^(#{1,6})\s+(.*)$/
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i
+
+const INLINE_PATTERN =
+  /(`+)([^`]+?)\1|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|(?<!\w)_([^_\s][^_]*?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/g
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) nodes.push({ type: 'text', text: text.slice(lastIndex, index) })
+
+    const [whole, , code, strong, strongAlt, em, emAlt, label, href] = match
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code.trim() })
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) })
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) })
+    } else if (SAFE_HREF.test(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(label) })
+    } else {
+      nodes.push({ type: 'text', text: whole })
+    }
+    lastIndex = index + whole.length
+  }
+
+  if (lastIndex < text.length) nodes.push({ type: 'text', text: text.slice(lastIndex) })
+  return nodes
+}
+
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim())
+}
+
+function startsBlock(line: string, next: string | undefined): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    LIST_ITEM.test(line) ||
+    (line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next))
+  )
+}
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: BlockNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE)
+    if (fence) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++])
+      const closed = i < lines.length
+      blocks.push({ type: 'code', language: fence[1].toLowerCase(), text: code.join('\n'), closed })
+      i++
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) })
+      i++
+      continue
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const header = splitRow(line).map(parseInline)
+      const rows: InlineNode[][][] = []
+      i += 2
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitRow(lines[i++]).map(parseInline))
+      }
+      blocks.push({ type: 'table', header, rows })
+      continue
+    }
+
+    const item = line.match(LIST_ITEM)
+    if (item) {
+      const ordered = /\d/.test(item[1])
+      const items: string[] = []
+      while (i < lines.length) {
+        const current = lines[i].match(LIST_ITEM)
+        if (current && /\d/.test(current[1]) === ordered) {
+          items.push(current[2])
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // An indented line continues the previous item.
+          items[items.length - 1] += ` ${lines[i].trim()}`
+        } else {
+          break
+        }
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) })
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i++])
+    }
+    blocks.push({ type: 'paragraph', content: parseInline(paragraph.join('\n')) })
+  }
+
+  return blocks
+}
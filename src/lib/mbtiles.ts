@@ -0,0 +1,87 @@
+import L from 'leaflet'
+import type { Database } from 'sql.js'
+import wasmUrl from 'sql.js/dist/sql-wasm.wasm?url'
+
+// One open database per file; the map is torn down and rebuilt whenever the
+// user switches views, and re-downloading the archive each time is wasteful.
+const databases = new Map<string, Promise<Database>>()
+
+async function openMBTiles(url: string): Promise<Database> {
+  const { default: initSqlJs } = await import('sql.js')
+  const [SQL, response] = await Promise.all([
+    initSqlJs({ locateFile: () => wasmUrl }),
+    fetch(url)
+  ])
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status}`)
+  }
+
+  const db = new SQL.Database(new Uint8Array(await response.arrayBuffer()))
+  const format = db.exec("SELECT value FROM metadata WHERE name = 'format'")[0]?.values[0]?.[0]
+  if (format === 'pbf') {
+    db.close()
+    throw new Error('Vector MBTiles are not supported; use a raster (png/jpg/webp) tile set')
+  }
+  return db
+}
+
+function loadDatabase(url: string): Promise<Database> {
+  let db = databases.get(url)
+  if (!db) {
+    db = openMBTiles(url)
+    // Let a failed download be retried the next time a map opens.
+    db.catch(() => databases.delete(url))
+    databases.set(url, db)
+  }
+  return db
+}
+
+class MBTilesLayer extends L.GridLayer {
+  private url: string
+
+  constructor(url: string, options?: L.GridLayerOptions) {
+    super(options)
+    this.url = url
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img')
+    tile.alt = ''
+
+    loadDatabase(this.url)
+      .then(db => {
+        // MBTiles stores rows in TMS order, counted from the bottom.
+        const row = (1 << coords.z) - 1 - coords.y
+        const result = db.exec(
+          'SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?',
+          [coords.z, coords.x, row]
+        )
+        const data = result[0]?.values[0]?.[0]
+        if (!(data instanceof Uint8Array)) {
+          done(undefined, tile)
+          return
+        }
+
+        const src = URL.createObjectURL(new Blob([data]))
+        tile.onload = () => {
+          URL.revokeObjectURL(src)
+          done(undefined, tile)
+        }
+        tile.onerror = () => {
+          URL.revokeObjectURL(src)
+          done(new Error(`Unreadable tile ${coords.z}/${coords.x}/${coords.y}`), tile)
+        }
+        tile.src = src
+      })
+      .catch(error => {
+        console.error('Error reading MBTiles:', error)
+        done(error, tile)
+      })
+
+    return tile
+  }
+}
+
+export function createMBTilesLayer(url: string, options?: L.GridLayerOptions): L.GridLayer {
+  return new MBTilesLayer(url, options)
+}
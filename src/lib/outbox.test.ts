@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto'
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  InsertEntry,
+  UpdateEntry,
+  claimOutboxEntry,
+  enqueueRecord,
+  enqueueRecordUpdate,
+  listConflicts,
+  listOutbox,
+  removeConflict,
+  removeOutboxEntry
+} from './outbox'
+
+const USER = '00000000-0000-4000-8000-000000000001'
+const OTHER_USER = '00000000-0000-4000-8000-000000000002'
+const PROJECT = '00000000-0000-4000-8000-0000000000aa'
+
+function queueRecord(userId = USER) {
+  return enqueueRecord(
+    { field: 'pH', value: '6.8', location: 'Plot B2', user_id: userId, project_id: PROJECT },
+    'Added field record: pH = 6.8'
+  )
+}
+
+beforeEach(async () => {
+  await Promise.all((await listOutbox()).map(entry => removeOutboxEntry(entry.id)))
+  await Promise.all((await listConflicts()).map(conflict => removeConflict(conflict.id)))
+})
+
+describe('enqueueRecord', () => {
+  it('queues the record and its attachments together, files after the record', async () => {
+    const file = new File(['photo'], 'plot.jpg', { type: 'image/jpeg' })
+    const record = await enqueueRecord(
+      { field: 'pH', value: '6.8', location: '', user_id: USER, project_id: PROJECT },
+      'Added field record: pH = 6.8',
+      [{ id: 'picked', file, previewUrl: null, capturedAt: null, latitude: null, longitude: null }]
+    )
+
+    const entries = await listOutbox()
+    expect(entries.map(entry => entry.operation)).toEqual(['insert', 'upload'])
+    expect(entries[1].recordId).toBe(record.recordId)
+    expect(entries[1].createdAt > record.createdAt).toBe(true)
+  })
+})
+
+describe('enqueueRecordUpdate', () => {
+  it('folds an edit into a pending insert and keeps both activities', async () => {
+    const record = await queueRecord()
+
+    await enqueueRecordUpdate(record.recordId, { value: '7.1' }, 1, USER, 'DATA_EDIT', 'Edited pH')
+
+    const entries = await listOutbox()
+    expect(entries).toHaveLength(1)
+    const merged = entries[0] as InsertEntry
+    expect(merged.payload.value).toBe('7.1')
+    expect(merged.activities.map(activity => activity.action)).toEqual(['DATA_ENTRY', 'DATA_EDIT'])
+  })
+
+  it('merges successive edits of a synced record into one update', async () => {
+    const recordId = crypto.randomUUID()
+
+    await enqueueRecordUpdate(recordId, { value: '7.1' }, 3, USER, 'DATA_EDIT', 'Edited value')
+    await enqueueRecordUpdate(recordId, { deleted_at: '2026-10-18T10:00:00Z' }, 3, USER, 'DATA_DELETE', 'Deleted')
+
+    const entries = await listOutbox()
+    expect(entries).toHaveLength(1)
+    const merged = entries[0] as UpdateEntry
+    expect(merged.payload).toEqual({ value: '7.1', deleted_at: '2026-10-18T10:00:00Z' })
+    expect(merged.baseVersion).toBe(3)
+    expect(merged.activities.map(activity => activity.action)).toEqual(['DATA_EDIT', 'DATA_DELETE'])
+  })
+
+  it('queues a separate update once the insert is being pushed', async () => {
+    const record = await queueRecord()
+    await claimOutboxEntry(record.id)
+
+    await enqueueRecordUpdate(record.recordId, { value: '7.1' }, 1, USER, 'DATA_EDIT', 'Edited pH')
+
+    const entries = await listOutbox()
+    const insert = entries.find(entry => entry.operation === 'insert') as InsertEntry
+    const update = entries.find(entry => entry.operation === 'update') as UpdateEntry
+    expect(insert.state).toBe('syncing')
+    expect(insert.payload.value).toBe('6.8')
+    expect(update.state).toBe('pending')
+    expect(update.payload).toEqual({ value: '7.1' })
+  })
+
+  it('never merges into another user\'s entry', async () => {
+    const record = await queueRecord(OTHER_USER)
+
+    await enqueueRecordUpdate(record.recordId, { value: '7.1' }, 1, USER, 'DATA_EDIT', 'Edited pH')
+
+    const entries = await listOutbox()
+    expect(entries).toHaveLength(2)
+    const insert = entries.find(entry => entry.operation === 'insert') as InsertEntry
+    expect(insert.payload.value).toBe('6.8')
+    expect(insert.activities).toHaveLength(1)
+  })
+})
+
+describe('claimOutboxEntry', () => {
+  it('returns the stored copy, including edits merged after the outbox was listed', async () => {
+    const record = await queueRecord()
+    const [listed] = await listOutbox()
+    await enqueueRecordUpdate(record.recordId, { value: '7.1' }, 1, USER, 'DATA_EDIT', 'Edited pH')
+
+    const claimed = await claimOutboxEntry(listed.id)
+
+    expect(claimed?.state).toBe('syncing')
+    expect((claimed as InsertEntry).payload.value).toBe('7.1')
+  })
+
+  it('does not hand out an entry that is already being pushed', async () => {
+    const record = await queueRecord()
+
+    expect(await claimOutboxEntry(record.id)).not.toBeNull()
+    expect(await claimOutboxEntry(record.id)).toBeNull()
+  })
+})
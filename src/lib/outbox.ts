@@ -0,0 +1,419 @@
+import { Inserts, Tables, Updates } from './supabase'
+import { PendingAttachment, attachmentKind, storagePath } from './attachments'
+
+const DB_NAME = 'field-data-sync'
+const DB_VERSION = 2
+const OUTBOX_STORE = 'outbox'
+const CONFLICT_STORE = 'conflicts'
+
+type StoreName = typeof OUTBOX_STORE | typeof CONFLICT_STORE
+
+export type SyncState = 'pending' | 'syncing' | 'failed'
+
+export type ActivityEntry = Inserts<'activity_logs'> & { id: string }
+
+interface OutboxEntryBase {
+  id: string
+  recordId: string
+  table: 'field_records' | 'field_record_attachments'
+  // One per action the entry stands for; edits folded into it add theirs.
+  activities: ActivityEntry[]
+  state: SyncState
+  attempts: number
+  nextAttemptAt: number
+  lastError: string | null
+  createdAt: string
+}
+
+export interface InsertEntry extends OutboxEntryBase {
+  table: 'field_records'
+  operation: 'insert'
+  payload: Inserts<'field_records'> & { id: string }
+}
+
+export interface UpdateEntry extends OutboxEntryBase {
+  table: 'field_records'
+  operation: 'update'
+  payload: Updates<'field_records'>
+  baseVersion: number
+}
+
+// Activity that has no row change of its own, such as resolving a conflict
+// in favour of the server copy.
+export interface LogEntry extends OutboxEntryBase {
+  table: 'field_records'
+  operation: 'log'
+}
+
+// A file attached to a record. The blob is kept in IndexedDB until it has
+// been stored, and only then is the attachment row written.
+export interface UploadEntry extends OutboxEntryBase {
+  table: 'field_record_attachments'
+  operation: 'upload'
+  payload: Inserts<'field_record_attachments'> & { id: string }
+  file: Blob
+}
+
+export type OutboxEntry = InsertEntry | UpdateEntry | LogEntry | UploadEntry
+
+export interface ConflictEntry {
+  id: string
+  recordId: string
+  userId: string
+  local: Updates<'field_records'>
+  baseVersion: number
+  server: Tables<'field_records'> | null
+  // The edits behind `local`, logged once the user resolves the conflict.
+  activities: ActivityEntry[]
+  detectedAt: string
+}
+
+type OutboxListener = () => void
+
+let dbPromise: Promise<IDBDatabase> | null = null
+const listeners = new Set<OutboxListener>()
+
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+function notifyListeners() {
+  listeners.forEach(listener => listener())
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported by this browser'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          const store = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+          store.createIndex('recordId', 'recordId')
+          store.createIndex('createdAt', 'createdAt')
+        }
+        if (!db.objectStoreNames.contains(CONFLICT_STORE)) {
+          const store = db.createObjectStore(CONFLICT_STORE, { keyPath: 'id' })
+          store.createIndex('detectedAt', 'detectedAt')
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// Runs several requests in one transaction, so they are written together or
+// not at all. `run` returns how to read the result once the transaction commits.
+async function withTransaction<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => () => T
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const result = run(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(result())
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return withTransaction(storeName, mode, store => {
+    const request = run(store)
+    return () => request.result
+  })
+}
+
+// crypto.randomUUID is only exposed in secure contexts, which field devices
+// on a plain-http LAN deployment are not.
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  bytes[6] = (bytes[6] & 0x0f) | 0x40
+  bytes[8] = (bytes[8] & 0x3f) | 0x80
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+function createActivity(userId: string, action: string, details: string): ActivityEntry {
+  return {
+    id: createId(),
+    user_id: userId,
+    action,
+    details,
+    timestamp: new Date().toISOString()
+  }
+}
+
+function newEntryState() {
+  return {
+    id: createId(),
+    table: 'field_records' as const,
+    state: 'pending' as const,
+    attempts: 0,
+    nextAttemptAt: 0,
+    lastError: null,
+    createdAt: new Date().toISOString()
+  }
+}
+
+// The record and its files go into the outbox in one transaction, so a failed
+// save leaves nothing behind to duplicate when the user tries again.
+export async function enqueueRecord(
+  record: Omit<Inserts<'field_records'>, 'id'>,
+  details: string,
+  attachments: PendingAttachment[] = []
+): Promise<InsertEntry> {
+  const recordId = createId()
+  const entry: InsertEntry = {
+    ...newEntryState(),
+    recordId,
+    operation: 'insert',
+    payload: { ...record, id: recordId },
+    activities: [createActivity(record.user_id, 'DATA_ENTRY', details)]
+  }
+  const uploads = attachments.map((attachment, index) =>
+    attachmentEntry(entry, attachment, new Date(Date.parse(entry.createdAt) + index + 1).toISOString())
+  )
+
+  await withTransaction(OUTBOX_STORE, 'readwrite', store => {
+    for (const item of [entry, ...uploads]) store.put(item)
+    return () => undefined
+  })
+  notifyListeners()
+  return entry
+}
+
+export async function enqueueRecordUpdate(
+  recordId: string,
+  changes: Updates<'field_records'>,
+  baseVersion: number,
+  userId: string,
+  action: string,
+  details: string,
+  earlier: ActivityEntry[] = []
+): Promise<OutboxEntry> {
+  const activities = [...earlier, createActivity(userId, action, details)]
+
+  // Read and written in one transaction, so sync cannot take the entry between
+  // the two and push it without this edit.
+  const entry = await withTransaction(OUTBOX_STORE, 'readwrite', store => {
+    let written: OutboxEntry | null = null
+    const request = store.index('createdAt').getAll()
+    request.onsuccess = () => {
+      const queued = (request.result as OutboxEntry[]).find(entry =>
+        entry.recordId === recordId &&
+        entryOwner(entry) === userId &&
+        entry.state !== 'syncing' &&
+        (entry.operation === 'insert' || entry.operation === 'update')
+      )
+      written = mergeRecordUpdate(queued, recordId, changes, baseVersion, activities)
+      store.put(written)
+    }
+    return () => written!
+  })
+
+  notifyListeners()
+  return entry
+}
+
+// Fold edits into a change that has not left the device yet, so the server
+// only ever sees one write per record per sync.
+function mergeRecordUpdate(
+  queued: OutboxEntry | undefined,
+  recordId: string,
+  changes: Updates<'field_records'>,
+  baseVersion: number,
+  activities: ActivityEntry[]
+): OutboxEntry {
+  if (queued && queued.operation === 'insert') {
+    return {
+      ...queued,
+      payload: { ...queued.payload, ...changes },
+      activities: [...queued.activities, ...activities]
+    }
+  }
+
+  if (queued && queued.operation === 'update') {
+    return {
+      ...queued,
+      payload: { ...queued.payload, ...changes },
+      baseVersion: Math.max(queued.baseVersion, baseVersion),
+      activities: [...queued.activities, ...activities]
+    }
+  }
+
+  return {
+    ...newEntryState(),
+    recordId,
+    operation: 'update',
+    payload: changes,
+    baseVersion,
+    activities
+  }
+}
+
+export async function enqueueActivity(
+  recordId: string,
+  userId: string,
+  action: string,
+  details: string,
+  earlier: ActivityEntry[] = []
+): Promise<LogEntry> {
+  const entry: LogEntry = {
+    ...newEntryState(),
+    recordId,
+    operation: 'log',
+    activities: [...earlier, createActivity(userId, action, details)]
+  }
+
+  await updateOutboxEntry(entry)
+  return entry
+}
+
+// Files are dated just after their record, so the createdAt order the outbox
+// is pushed in never sends one before the row it belongs to.
+function attachmentEntry(record: InsertEntry, attachment: PendingAttachment, createdAt: string): UploadEntry {
+  const { file } = attachment
+  const userId = record.payload.user_id
+  const attachmentId = createId()
+  return {
+    ...newEntryState(),
+    createdAt,
+    table: 'field_record_attachments',
+    recordId: record.recordId,
+    operation: 'upload',
+    payload: {
+      id: attachmentId,
+      record_id: record.recordId,
+      user_id: userId,
+      storage_path: storagePath(userId, record.recordId, attachmentId, file.name),
+      file_name: file.name,
+      mime_type: file.type || 'application/octet-stream',
+      size_bytes: file.size,
+      kind: attachmentKind(file.type),
+      captured_at: attachment.capturedAt,
+      latitude: attachment.latitude,
+      longitude: attachment.longitude
+    },
+    file,
+    activities: [createActivity(userId, 'ATTACHMENT_ADD', `Attached ${file.name} to field record ${record.recordId}`)]
+  }
+}
+
+// The outbox is shared by everyone who signs in on the device, but an entry
+// is only pushed, listed or counted while the user who queued it is signed in.
+export function entryOwner(entry: OutboxEntry): string {
+  return entry.activities[0].user_id
+}
+
+// Shapes a queued insert like a server row so views can list it before it syncs.
+export function localRecord(entry: InsertEntry): Tables<'field_records'> {
+  return {
+    location: '',
+    template_id: null,
+    data: null,
+    deleted_at: null,
+    latitude: null,
+    longitude: null,
+    accuracy: null,
+    altitude: null,
+    location_source: null,
+    ...entry.payload,
+    timestamp: entry.payload.timestamp ?? entry.createdAt,
+    version: 1,
+    updated_at: entry.createdAt
+  }
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  return withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.index('createdAt').getAll())
+}
+
+export async function updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry))
+  notifyListeners()
+}
+
+// Marks an entry as being pushed and returns it as stored, which may include
+// edits merged into it since the outbox was listed. Null when it has already
+// been pushed or is being pushed.
+export async function claimOutboxEntry(id: string): Promise<OutboxEntry | null> {
+  const claimed = await withTransaction(OUTBOX_STORE, 'readwrite', store => {
+    let entry: OutboxEntry | null = null
+    const request = store.get(id)
+    request.onsuccess = () => {
+      const stored = request.result as OutboxEntry | undefined
+      if (!stored || stored.state === 'syncing') return
+      entry = { ...stored, state: 'syncing' }
+      store.put(entry)
+    }
+    return () => entry
+  })
+
+  if (claimed) notifyListeners()
+  return claimed
+}
+
+// Rewrites every matching entry in one transaction, from the stored copy
+// rather than one listed earlier that an edit may since have been merged into.
+export async function patchOutboxEntries(
+  matches: (entry: OutboxEntry) => boolean,
+  patch: (entry: OutboxEntry) => OutboxEntry
+): Promise<void> {
+  await withTransaction(OUTBOX_STORE, 'readwrite', store => {
+    const request = store.openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      const entry = cursor.value as OutboxEntry
+      if (matches(entry)) cursor.update(patch(entry))
+      cursor.continue()
+    }
+    return () => undefined
+  })
+  notifyListeners()
+}
+
+export async function removeOutboxEntry(id: string): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id))
+  notifyListeners()
+}
+
+export async function listConflicts(): Promise<ConflictEntry[]> {
+  return withStore<ConflictEntry[]>(CONFLICT_STORE, 'readonly', store => store.index('detectedAt').getAll())
+}
+
+export async function addConflict(conflict: ConflictEntry): Promise<void> {
+  await withStore(CONFLICT_STORE, 'readwrite', store => store.put(conflict))
+  notifyListeners()
+}
+
+export async function removeConflict(id: string): Promise<void> {
+  await withStore(CONFLICT_STORE, 'readwrite', store => store.delete(id))
+  notifyListeners()
+}
\ No newline at end of file
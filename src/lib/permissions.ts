@@ -0,0 +1,50 @@
+import { Database } from '../types/database'
+
+export type Role = Database['public']['Enums']['app_role']
+
+export type Permission =
+  | 'records.create'
+  | 'records.editOwn'
+  | 'records.editAny'
+  | 'templates.manage'
+  | 'knowledge.manage'
+  | 'feedback.view'
+  | 'users.manage'
+  | 'projects.manage'
+
+export const ROLES: Role[] = ['admin', 'supervisor', 'collector', 'viewer']
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  supervisor: 'Supervisor',
+  collector: 'Collector',
+  viewer: 'Viewer'
+}
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  admin: 'Everything, including projects, templates, the knowledge base and user roles',
+  supervisor: 'Corrects any record in their projects and reviews assistant feedback',
+  collector: 'Collects records and manages their own',
+  viewer: 'Read-only access to their projects\' records'
+}
+
+// Mirrors the RLS policies. The records.* permissions are checked against
+// the role in the active project, the rest against the account's role.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    'records.create', 'records.editOwn', 'records.editAny',
+    'templates.manage', 'knowledge.manage', 'feedback.view', 'users.manage', 'projects.manage'
+  ],
+  supervisor: ['records.create', 'records.editOwn', 'records.editAny', 'feedback.view'],
+  collector: ['records.create', 'records.editOwn'],
+  viewer: []
+}
+
+export function hasPermission(role: Role | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+export function canEditRecord(role: Role | null, userId: string | undefined, record: { user_id: string }): boolean {
+  return hasPermission(role, 'records.editAny') ||
+    (hasPermission(role, 'records.editOwn') && record.user_id === userId)
+}
@@ -0,0 +1,94 @@
+import { supabase, Tables } from './supabase'
+import { Role } from './permissions'
+
+export type Profile = Tables<'profiles'>
+
+export type Units = 'metric' | 'imperial'
+
+export type EditableProfile = Pick<Profile, 'username' | 'display_name' | 'units' | 'timezone'>
+
+const PROFILE_CACHE_KEY = 'fdc.profile'
+
+export function cachedProfile(userId: string): Profile | null {
+  try {
+    const cached: Profile | null = JSON.parse(localStorage.getItem(PROFILE_CACHE_KEY) || 'null')
+    return cached?.id === userId ? cached : null
+  } catch {
+    return null
+  }
+}
+
+function cacheProfile(profile: Profile) {
+  localStorage.setItem(PROFILE_CACHE_KEY, JSON.stringify(profile))
+}
+
+// The role decides which views exist, so the last profile seen is kept for
+// starting the app offline. The server still enforces the current role.
+export async function loadProfile(userId: string): Promise<Profile | null> {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .single()
+
+    if (error) throw error
+
+    cacheProfile(data)
+    return data
+  } catch {
+    return cachedProfile(userId)
+  }
+}
+
+export async function updateProfile(userId: string, settings: EditableProfile): Promise<Profile> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update(settings)
+    .eq('id', userId)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  cacheProfile(data)
+  return data
+}
+
+// The name to show for a person: their display name, else their username.
+export function profileName(profile: Pick<Profile, 'username' | 'display_name'> | null | undefined): string {
+  return profile?.display_name || profile?.username || ''
+}
+
+// Names of the given users, for crediting their edits. Profiles the caller
+// may not read are left out.
+export async function loadProfileNames(userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map()
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, username, display_name')
+    .in('id', userIds)
+
+  if (error) throw error
+  return new Map((data || []).map(profile => [profile.id, profileName(profile)]))
+}
+
+export async function listProfiles(): Promise<Profile[]> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .order('username')
+
+  if (error) throw error
+  return data || []
+}
+
+export async function updateRole(userId: string, role: Role): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ role })
+    .eq('id', userId)
+
+  if (error) throw error
+}
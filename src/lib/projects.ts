@@ -0,0 +1,137 @@
+import { supabase, Tables } from './supabase'
+import { Role } from './permissions'
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  organizationId: string
+  organizationName: string
+  // The caller's role in this project; global admins act as admins everywhere.
+  role: Role
+}
+
+export type ProjectMember = Tables<'project_members'>
+
+const PROJECT_CACHE_KEY = 'fdc.projects'
+const ACTIVE_PROJECT_KEY = 'fdc.activeProject'
+
+function readCachedProjects(userId: string): ProjectSummary[] {
+  try {
+    const cached = JSON.parse(localStorage.getItem(PROJECT_CACHE_KEY) || 'null')
+    return cached?.userId === userId ? cached.projects : []
+  } catch {
+    return []
+  }
+}
+
+// Records are filed under a project even offline, so the list is kept on
+// the device like form templates.
+export async function loadProjects(userId: string, globalRole: Role | null): Promise<ProjectSummary[]> {
+  try {
+    const [projects, memberships] = await Promise.all([
+      supabase.from('projects').select('id, name, organization_id, organizations(name)').order('name'),
+      supabase.from('project_members').select('project_id, role').eq('user_id', userId)
+    ])
+
+    if (projects.error) throw projects.error
+    if (memberships.error) throw memberships.error
+
+    const roles = new Map((memberships.data || []).map(member => [member.project_id, member.role]))
+    const summaries = (projects.data || []).map(project => ({
+      id: project.id,
+      name: project.name,
+      organizationId: project.organization_id,
+      organizationName: project.organizations?.name ?? '',
+      role: globalRole === 'admin' ? 'admin' : roles.get(project.id) ?? 'viewer'
+    }))
+
+    localStorage.setItem(PROJECT_CACHE_KEY, JSON.stringify({ userId, projects: summaries }))
+    return summaries
+  } catch {
+    return readCachedProjects(userId)
+  }
+}
+
+export function getActiveProjectId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function setActiveProjectId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id)
+  } catch {
+    // The first project is picked again next time.
+  }
+}
+
+export async function createProject(organizationId: string, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('projects')
+    .insert({ organization_id: organizationId, name: name.trim() })
+
+  if (error) throw error
+}
+
+export async function listOrganizations(): Promise<Tables<'organizations'>[]> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return data || []
+}
+
+export async function createOrganization(name: string, userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .insert({ name: name.trim(), created_by: userId })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return data.id
+}
+
+export async function listMembers(projectId: string): Promise<ProjectMember[]> {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('*')
+    .eq('project_id', projectId)
+
+  if (error) throw error
+  return data || []
+}
+
+// Project members must belong to the project's organization, so adding
+// someone to a project adds them to its organization first.
+export async function saveMember(project: ProjectSummary, userId: string, role: Role): Promise<void> {
+  const { error: organizationError } = await supabase
+    .from('organization_members')
+    .upsert(
+      { organization_id: project.organizationId, user_id: userId },
+      { onConflict: 'organization_id,user_id', ignoreDuplicates: true }
+    )
+
+  if (organizationError) throw organizationError
+
+  const { error } = await supabase
+    .from('project_members')
+    .upsert({ project_id: project.id, user_id: userId, role }, { onConflict: 'project_id,user_id' })
+
+  if (error) throw error
+}
+
+export async function removeMember(projectId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('project_members')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+}
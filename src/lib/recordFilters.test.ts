@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import type { Tables } from './supabase'
+import { endOfDay, matchesRecordsQuery, parseRecordsQuery, startOfDay } from './recordFilters'
+
+const RECORD = {
+  id: '00000000-0000-4000-8000-000000000001',
+  field: 'pH',
+  value: '6.8',
+  location: 'north plot',
+  timestamp: '2026-10-18T10:00:00.000Z'
+} as Tables<'field_records'>
+
+const OSLO = { units: 'metric', timezone: 'Europe/Oslo' } as const
+const TOKYO = { units: 'metric', timezone: 'Asia/Tokyo' } as const
+
+describe('parseRecordsQuery', () => {
+  it('keeps YYYY-MM-DD dates', () => {
+    expect(parseRecordsQuery(new URLSearchParams('from=2026-10-01&to=2026-10-18'))).toMatchObject({
+      dateFrom: '2026-10-01',
+      dateTo: '2026-10-18'
+    })
+  })
+
+  it('drops dates that are malformed or do not exist', () => {
+    for (const bad of ['foo', '2026-10-1', '18/10/2026', '2026-02-31', '2026-10-18T00:00']) {
+      const query = parseRecordsQuery(new URLSearchParams({ from: bad, to: bad, field: 'pH' }))
+      expect(query.dateFrom).toBeUndefined()
+      expect(query.dateTo).toBeUndefined()
+      expect(query.field).toBe('pH')
+    }
+  })
+})
+
+describe('startOfDay and endOfDay', () => {
+  it('return null instead of throwing for something that is not a day', () => {
+    expect(startOfDay('foo', OSLO)).toBeNull()
+    expect(endOfDay('', OSLO)).toBeNull()
+  })
+
+  it('bound the day in the profile timezone', () => {
+    expect(startOfDay('2026-10-18', TOKYO)).toBe('2026-10-17T15:00:00.000Z')
+    expect(endOfDay('2026-10-18', TOKYO)).toBe('2026-10-18T14:59:59.999Z')
+    expect(startOfDay('2026-07-15', OSLO)).toBe('2026-07-14T22:00:00.000Z')
+  })
+
+  it('follow daylight saving changes within the day', () => {
+    // Oslo moves its clocks back an hour on 25 October 2026.
+    expect(startOfDay('2026-10-25', OSLO)).toBe('2026-10-24T22:00:00.000Z')
+    expect(endOfDay('2026-10-25', OSLO)).toBe('2026-10-25T22:59:59.999Z')
+  })
+
+  it('use the device timezone without a profile', () => {
+    expect(startOfDay('2026-10-18', null)).toBe(new Date('2026-10-18T00:00:00').toISOString())
+    expect(endOfDay('2026-10-18', null)).toBe(new Date('2026-10-18T23:59:59.999').toISOString())
+  })
+})
+
+describe('matchesRecordsQuery', () => {
+  it('ignores a bad date rather than throwing', () => {
+    expect(matchesRecordsQuery(RECORD, { dateFrom: 'foo', dateTo: 'bar' }, OSLO)).toBe(true)
+  })
+
+  it('filters by the date range', () => {
+    expect(matchesRecordsQuery(RECORD, { dateFrom: '2026-10-20' }, OSLO)).toBe(false)
+    expect(matchesRecordsQuery(RECORD, { dateTo: '2026-10-10' }, OSLO)).toBe(false)
+  })
+
+  it('reads the range in the profile timezone', () => {
+    const lateEvening = { ...RECORD, timestamp: '2026-10-18T20:00:00.000Z' }
+    expect(matchesRecordsQuery(lateEvening, { dateFrom: '2026-10-19' }, TOKYO)).toBe(true)
+    expect(matchesRecordsQuery(lateEvening, { dateFrom: '2026-10-19' }, OSLO)).toBe(false)
+  })
+})
@@ -0,0 +1,140 @@
+import { Tables } from './supabase'
+import { DisplaySettings, utcOffsetMinutes } from './format'
+
+export type RecordSortColumn = 'timestamp' | 'field' | 'value' | 'location'
+
+export interface RecordSort {
+  column: RecordSortColumn
+  ascending: boolean
+}
+
+export const DEFAULT_SORT: RecordSort = { column: 'timestamp', ascending: false }
+
+const SORT_COLUMNS: RecordSortColumn[] = ['timestamp', 'field', 'value', 'location']
+
+// Filters and sort order for the records list. They live in the query string of /records so
+// a filtered list can be bookmarked, shared, or opened from another view such
+// as a chatbot citation.
+export interface RecordsQuery {
+  search?: string
+  field?: string
+  location?: string
+  dateFrom?: string
+  dateTo?: string
+  recordIds?: string[]
+  sort?: RecordSort
+}
+
+// Short parameter names keep shared links readable.
+const PARAMS = {
+  search: 'q',
+  field: 'field',
+  location: 'location',
+  dateFrom: 'from',
+  dateTo: 'to',
+  recordIds: 'ids',
+  sort: 'sort',
+  direction: 'dir'
+} as const
+
+const CALENDAR_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+// A YYYY-MM-DD day that exists, so 2026-02-31 is rejected rather than rolled
+// over into March.
+function isCalendarDate(value: string): boolean {
+  if (!CALENDAR_DATE.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+// Links are shared and edited by hand; a malformed date is dropped instead of
+// reaching the filters.
+function dateParam(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name)
+  return value && isCalendarDate(value) ? value : undefined
+}
+
+export function parseRecordsQuery(params: URLSearchParams): RecordsQuery {
+  const ids = params.get(PARAMS.recordIds)
+  const column = params.get(PARAMS.sort) as RecordSortColumn | null
+  return {
+    search: params.get(PARAMS.search) ?? undefined,
+    field: params.get(PARAMS.field) ?? undefined,
+    location: params.get(PARAMS.location) ?? undefined,
+    dateFrom: dateParam(params, PARAMS.dateFrom),
+    dateTo: dateParam(params, PARAMS.dateTo),
+    recordIds: ids ? ids.split(',').filter(Boolean) : undefined,
+    sort: column && SORT_COLUMNS.includes(column)
+      ? { column, ascending: params.get(PARAMS.direction) === 'asc' }
+      : undefined
+  }
+}
+
+// Empty filters are left out of the URL.
+export function recordsSearchParams(query: RecordsQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.search) params.set(PARAMS.search, query.search)
+  if (query.field) params.set(PARAMS.field, query.field)
+  if (query.location) params.set(PARAMS.location, query.location)
+  if (query.dateFrom) params.set(PARAMS.dateFrom, query.dateFrom)
+  if (query.dateTo) params.set(PARAMS.dateTo, query.dateTo)
+  if (query.recordIds?.length) params.set(PARAMS.recordIds, query.recordIds.join(','))
+  if (query.sort && (query.sort.column !== DEFAULT_SORT.column || query.sort.ascending !== DEFAULT_SORT.ascending)) {
+    params.set(PARAMS.sort, query.sort.column)
+    params.set(PARAMS.direction, query.sort.ascending ? 'asc' : 'desc')
+  }
+  return params
+}
+
+export function recordsPath(query: RecordsQuery): string {
+  // A single record has its own address.
+  const otherFilters = recordsSearchParams({ ...query, recordIds: undefined }).toString()
+  if (query.recordIds?.length === 1 && !otherFilters) {
+    return `/records/${query.recordIds[0]}`
+  }
+  const search = recordsSearchParams(query).toString()
+  return search ? `/records?${search}` : '/records'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// When the day starts in the profile's timezone. The offset at UTC midnight
+// can be off by an hour across a daylight saving change, so it is read again
+// at the first guess.
+function zonedMidnight(date: string, settings: DisplaySettings): number {
+  const utcMidnight = Date.parse(`${date}T00:00:00Z`)
+  const guess = utcMidnight + utcOffsetMinutes(settings, new Date(utcMidnight)) * 60000
+  return utcMidnight + utcOffsetMinutes(settings, new Date(guess)) * 60000
+}
+
+// Date inputs give calendar days; the range covers them in the profile's
+// timezone. Null for anything that is not a day, which then filters nothing.
+export function startOfDay(date: string, settings: DisplaySettings): string | null {
+  return isCalendarDate(date) ? new Date(zonedMidnight(date, settings)).toISOString() : null
+}
+
+// Up to the next day's start rather than 23:59:59.999, as days around a
+// daylight saving change run 23 or 25 hours.
+export function endOfDay(date: string, settings: DisplaySettings): string | null {
+  if (!isCalendarDate(date)) return null
+  const nextDay = new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10)
+  return new Date(zonedMidnight(nextDay, settings) - 1).toISOString()
+}
+
+// The same filters applied on the device, for records that are still in the
+// outbox and so not yet searchable on the server.
+export function matchesRecordsQuery(record: Tables<'field_records'>, query: RecordsQuery, settings: DisplaySettings): boolean {
+  const contains = (text: string, part: string) => text.toLowerCase().includes(part.toLowerCase())
+  const words = query.search?.split(/\s+/).filter(Boolean) ?? []
+  const from = query.dateFrom ? startOfDay(query.dateFrom, settings) : null
+  const to = query.dateTo ? endOfDay(query.dateTo, settings) : null
+
+  return (
+    words.every(word => contains(record.field, word) || contains(record.value, word) || contains(record.location, word)) &&
+    (!query.field || contains(record.field, query.field)) &&
+    (!query.location || contains(record.location, query.location)) &&
+    (!from || record.timestamp >= from) &&
+    (!to || record.timestamp <= to) &&
+    (!query.recordIds || query.recordIds.includes(record.id))
+  )
+}
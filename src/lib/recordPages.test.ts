@@ -0,0 +1,221 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { RecordCursor, compareRecords, fetchRecordPage } from './recordPages'
+import { RecordSort } from './recordFilters'
+
+type Row = RecordCursor & { project_id: string; deleted_at: string | null }
+
+// Enough of PostgREST to page through rows: the filters, or=() groups and
+// ordering fetchRecordPage sends, evaluated in memory.
+const server = vi.hoisted(() => ({ rows: [] as Record<string, unknown>[] }))
+
+vi.mock('./supabase', () => {
+  const unquote = (value: string) => (value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value)
+
+  function compare(operator: string, actual: unknown, expected: string): boolean {
+    if (operator === 'is') return actual === null
+    if (actual === null || actual === undefined) return false
+    const value = String(actual)
+    switch (operator) {
+      case 'eq': return value === expected
+      case 'gt': return value > expected
+      case 'lt': return value < expected
+      case 'gte': return value >= expected
+      case 'lte': return value <= expected
+      default: throw new Error(`Unsupported operator ${operator}`)
+    }
+  }
+
+  // Splits on commas outside quotes and parentheses.
+  function splitTopLevel(text: string): string[] {
+    const parts: string[] = []
+    let depth = 0
+    let quoted = false
+    let current = ''
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (char === '\\' && quoted) {
+        current += char + text[++i]
+        continue
+      }
+      if (char === '"') quoted = !quoted
+      if (!quoted && char === '(') depth++
+      if (!quoted && char === ')') depth--
+      if (!quoted && depth === 0 && char === ',') {
+        parts.push(current)
+        current = ''
+      } else {
+        current += char
+      }
+    }
+    return [...parts, current]
+  }
+
+  function parseCondition(text: string): (row: Record<string, unknown>) => boolean {
+    if (text.startsWith('and(')) {
+      const conditions = splitTopLevel(text.slice(4, -1)).map(parseCondition)
+      return row => conditions.every(condition => condition(row))
+    }
+    const [column, operator, ...rest] = text.split('.')
+    const expected = unquote(rest.join('.'))
+    return row => compare(operator, row[column], expected)
+  }
+
+  class Query {
+    private conditions: ((row: Record<string, unknown>) => boolean)[] = []
+    private orders: { column: string; ascending: boolean }[] = []
+    private limitTo = Infinity
+
+    select() {
+      return this
+    }
+
+    filter(column: string, operator: string, value: string | number) {
+      this.conditions.push(row => compare(operator, row[column], String(value)))
+      return this
+    }
+
+    is(column: string) {
+      this.conditions.push(row => row[column] === null)
+      return this
+    }
+
+    or(text: string) {
+      const conditions = splitTopLevel(text).map(parseCondition)
+      this.conditions.push(row => conditions.some(condition => condition(row)))
+      return this
+    }
+
+    // Nulls sort last, as the timestamp order asks for; other columns hold
+    // no nulls here.
+    order(column: string, options: { ascending: boolean }) {
+      this.orders.push({ column, ascending: options.ascending })
+      return this
+    }
+
+    limit(count: number) {
+      this.limitTo = count
+      return this
+    }
+
+    then<T>(resolve: (result: { data: unknown[]; count: number; error: null }) => T) {
+      const matched = server.rows.filter(row => this.conditions.every(condition => condition(row)))
+      matched.sort((a, b) => {
+        for (const { column, ascending } of this.orders) {
+          const [first, second] = [a[column] as string | null, b[column] as string | null]
+          if (first === second) continue
+          if (first === null) return 1
+          if (second === null) return -1
+          return (first < second ? -1 : 1) * (ascending ? 1 : -1)
+        }
+        return 0
+      })
+      return Promise.resolve({ data: matched.slice(0, this.limitTo), count: matched.length, error: null }).then(resolve)
+    }
+  }
+
+  return { supabase: { from: () => new Query() } }
+})
+
+const PROJECT = '00000000-0000-4000-8000-0000000000aa'
+
+function row(index: number, timestamp: string | null, field = 'ph', value = '6.8'): Row {
+  const id = `00000000-0000-4000-8000-${String(index).padStart(12, '0')}`
+  // Older rows can lack a timestamp, though the generated type says otherwise.
+  return { id, timestamp: timestamp as string, field, value, location: 'north', project_id: PROJECT, deleted_at: null }
+}
+
+function ids(rows: RecordCursor[]): string[] {
+  return rows.map(record => record.id)
+}
+
+async function readAllPages(sort: RecordSort, pageSize: number): Promise<RecordCursor[]> {
+  const records: RecordCursor[] = []
+  let cursor: RecordCursor | null = null
+  do {
+    const page = await fetchRecordPage(PROJECT, { sort }, null, null, cursor, pageSize)
+    records.push(...(page.records as RecordCursor[]))
+    cursor = page.next
+  } while (cursor)
+  return records
+}
+
+describe('compareRecords', () => {
+  const newer = row(1, '2026-10-18T10:00:00Z')
+  const older = row(2, '2026-10-17T10:00:00Z')
+  const undated = row(3, null)
+
+  it('orders by the sort column in either direction', () => {
+    expect(compareRecords(newer, older, { column: 'timestamp', ascending: false })).toBeLessThan(0)
+    expect(compareRecords(newer, older, { column: 'timestamp', ascending: true })).toBeGreaterThan(0)
+    expect(compareRecords(row(4, null, 'humidity'), row(5, null, 'ph'), { column: 'field', ascending: true })).toBeLessThan(0)
+  })
+
+  it('breaks ties on the sort column by id, following the direction', () => {
+    const first = row(10, '2026-10-18T10:00:00Z')
+    const second = row(11, '2026-10-18T10:00:00Z')
+    expect(compareRecords(first, second, { column: 'timestamp', ascending: true })).toBeLessThan(0)
+    expect(compareRecords(first, second, { column: 'timestamp', ascending: false })).toBeGreaterThan(0)
+  })
+
+  it('puts records without a timestamp last in both directions', () => {
+    expect(compareRecords(undated, older, { column: 'timestamp', ascending: true })).toBeGreaterThan(0)
+    expect(compareRecords(undated, older, { column: 'timestamp', ascending: false })).toBeGreaterThan(0)
+    expect(compareRecords(older, undated, { column: 'timestamp', ascending: false })).toBeLessThan(0)
+  })
+})
+
+describe('fetchRecordPage', () => {
+  beforeEach(() => {
+    // Ties on the timestamp and undated rows fall across page boundaries
+    // with a page size of 2.
+    server.rows = [
+      row(1, '2026-10-15T08:00:00Z'),
+      row(2, null),
+      row(3, '2026-10-16T08:00:00Z'),
+      row(4, '2026-10-16T08:00:00Z'),
+      row(5, '2026-10-16T08:00:00Z'),
+      row(6, null),
+      row(7, '2026-10-17T08:00:00Z'),
+      row(8, null),
+    ]
+  })
+
+  it.each([
+    { column: 'timestamp', ascending: false },
+    { column: 'timestamp', ascending: true },
+  ] as RecordSort[])('pages through every record once, in the device order, sorted $column ascending=$ascending', async sort => {
+    const expected = ids([...(server.rows as Row[])].sort((a, b) => compareRecords(a, b, sort)))
+
+    for (const pageSize of [1, 2, 3]) {
+      expect(ids(await readAllPages(sort, pageSize))).toEqual(expected)
+    }
+  })
+
+  it('lists undated records last, newest first otherwise', async () => {
+    const records = await readAllPages({ column: 'timestamp', ascending: false }, 2)
+
+    expect(records.map(record => record.timestamp)).toEqual([
+      '2026-10-17T08:00:00Z',
+      '2026-10-16T08:00:00Z',
+      '2026-10-16T08:00:00Z',
+      '2026-10-16T08:00:00Z',
+      '2026-10-15T08:00:00Z',
+      null,
+      null,
+      null,
+    ])
+  })
+
+  it('pages through ties on a text column by id', async () => {
+    server.rows = [row(1, null, 'ph', 'b'), row(2, null, 'ph', 'a'), row(3, null, 'ph', 'b'), row(4, null, 'ph', 'b')]
+    const sort: RecordSort = { column: 'value', ascending: true }
+
+    expect(ids(await readAllPages(sort, 2))).toEqual(ids([server.rows[1], server.rows[0], server.rows[2], server.rows[3]] as Row[]))
+  })
+
+  it('counts the matching records with the first page', async () => {
+    const first = await fetchRecordPage(PROJECT, {}, null, null, null, 3)
+    expect(first.total).toBe(8)
+    expect(first.next).toEqual(first.records[2])
+  })
+})
@@ -0,0 +1,234 @@
+import { supabase, Tables } from './supabase'
+import { DEFAULT_SORT, RecordSort, RecordSortColumn, RecordsQuery, endOfDay, startOfDay } from './recordFilters'
+import { GeoArea, areaBounds } from './geo'
+import { DisplaySettings } from './format'
+
+type FieldRecord = Tables<'field_records'>
+
+// Listed rather than `*` so the list downloads only what it shows.
+const RECORD_COLUMNS =
+  'id, field, value, location, timestamp, user_id, project_id, version, updated_at, template_id, data, deleted_at, latitude, longitude, accuracy, altitude, location_source'
+
+// Enough to draw a marker and label it.
+const POINT_COLUMNS = 'id, field, value, latitude, longitude'
+
+export type RecordPoint = Pick<FieldRecord, 'id' | 'field' | 'value' | 'latitude' | 'longitude'>
+
+export const PAGE_SIZE = 100
+
+// Exports and map points read in larger pages; nothing is rendered per row.
+const BATCH_SIZE = 1000
+
+// The last record on a page. The next page starts strictly after it, so rows
+// inserted meanwhile never shift the list the way an offset would.
+export type RecordCursor = Pick<FieldRecord, 'id' | RecordSortColumn>
+
+export interface RecordPage {
+  records: FieldRecord[]
+  next: RecordCursor | null
+  // Only counted for the first page; counting is as costly as the query.
+  total: number | null
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Every word of the search box must match the start of a word in the record,
+// so "tem 2" finds "temperature" at "plot 2B" while still typing.
+function toPrefixQuery(search: string): string {
+  return search
+    .replace(/[&|!():*<>'\\]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => `${word}:*`)
+    .join(' & ')
+}
+
+// Matched as a substring, so a literal % or _ must not act as a wildcard.
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`
+}
+
+// Values inside a PostgREST or=() filter are quoted so commas and
+// parentheses in them are not read as syntax.
+function quoted(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`
+}
+
+type Filter = [column: string, operator: string, value: string | number]
+
+// The query as PostgREST filters, shared by every request below whatever
+// columns it selects. Null when nothing can match, e.g. a deep link whose ids
+// are not UUIDs, which the database would reject rather than return nothing.
+function queryFilters(projectId: string, query: RecordsQuery, area: GeoArea | null, settings: DisplaySettings): Filter[] | null {
+  const filters: Filter[] = [['project_id', 'eq', projectId], ['deleted_at', 'is', 'null']]
+
+  const tsquery = query.search ? toPrefixQuery(query.search) : ''
+  // `search` is a computed field on the table; see its migration.
+  if (tsquery) filters.push(['search', 'fts(simple)', tsquery])
+  if (query.field) filters.push(['field', 'ilike', likePattern(query.field)])
+  if (query.location) filters.push(['location', 'ilike', likePattern(query.location)])
+  const from = query.dateFrom ? startOfDay(query.dateFrom, settings) : null
+  const to = query.dateTo ? endOfDay(query.dateTo, settings) : null
+  if (from) filters.push(['timestamp', 'gte', from])
+  if (to) filters.push(['timestamp', 'lte', to])
+  if (query.recordIds) {
+    const ids = query.recordIds.filter(id => UUID.test(id))
+    if (ids.length === 0) return null
+    filters.push(['id', 'in', `(${ids.join(',')})`])
+  }
+  // Polygons are narrowed to their bounding box here and checked exactly on
+  // the device.
+  if (area) {
+    const bounds = areaBounds(area)
+    filters.push(
+      ['latitude', 'gte', bounds.south],
+      ['latitude', 'lte', bounds.north],
+      ['longitude', 'gte', bounds.west],
+      ['longitude', 'lte', bounds.east]
+    )
+  }
+  return filters
+}
+
+export async function fetchRecordPage(
+  projectId: string,
+  query: RecordsQuery,
+  area: GeoArea | null,
+  settings: DisplaySettings,
+  cursor: RecordCursor | null = null,
+  pageSize = PAGE_SIZE
+): Promise<RecordPage> {
+  const filters = queryFilters(projectId, query, area, settings)
+  if (!filters) return { records: [], next: null, total: 0 }
+
+  const sort: RecordSort = query.sort ?? DEFAULT_SORT
+  let request = supabase
+    .from('field_records')
+    .select(RECORD_COLUMNS, cursor ? undefined : { count: 'exact' })
+  filters.forEach(([column, operator, value]) => {
+    request = request.filter(column, operator, value)
+  })
+
+  // Rows without a value (only `timestamp` may be null) come last in either
+  // direction, so once the cursor reaches them only they are left.
+  if (cursor) {
+    const op = sort.ascending ? 'gt' : 'lt'
+    const last: string | null = cursor[sort.column]
+    if (last === null) {
+      request = request.is(sort.column, null).filter('id', op, cursor.id)
+    } else {
+      const value = quoted(last)
+      request = request.or(
+        `${sort.column}.${op}.${value},${sort.column}.is.null,and(${sort.column}.eq.${value},id.${op}.${cursor.id})`
+      )
+    }
+  }
+
+  // The text columns are never null and keep the default order their indexes
+  // are built for.
+  const { data, count, error } = await request
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: sort.column === 'timestamp' ? false : undefined })
+    .order('id', { ascending: sort.ascending })
+    .limit(pageSize)
+
+  if (error) throw error
+
+  const records = data || []
+  return {
+    records,
+    next: records.length === pageSize ? records[records.length - 1] : null,
+    total: count
+  }
+}
+
+// Every record matching the query, in list order, for exports.
+export async function fetchAllRecords(
+  projectId: string,
+  query: RecordsQuery,
+  area: GeoArea | null,
+  settings: DisplaySettings
+): Promise<FieldRecord[]> {
+  const records: FieldRecord[] = []
+  let cursor: RecordCursor | null = null
+
+  do {
+    const page: RecordPage = await fetchRecordPage(projectId, query, area, settings, cursor, BATCH_SIZE)
+    records.push(...page.records)
+    cursor = page.next
+  } while (cursor)
+
+  return records
+}
+
+// Every located record matching the query, for the map. Only a few columns
+// per record, so a whole project fits where its full rows would not.
+export async function fetchRecordPoints(projectId: string, query: RecordsQuery, settings: DisplaySettings): Promise<RecordPoint[]> {
+  const filters = queryFilters(projectId, query, null, settings)
+  if (!filters) return []
+
+  const points: RecordPoint[] = []
+  let after: string | null = null
+
+  do {
+    let request = supabase
+      .from('field_records')
+      .select(POINT_COLUMNS)
+      .not('latitude', 'is', null)
+    filters.forEach(([column, operator, value]) => {
+      request = request.filter(column, operator, value)
+    })
+    if (after) request = request.gt('id', after)
+
+    const { data, error } = await request.order('id').limit(BATCH_SIZE)
+    if (error) throw error
+
+    const batch = data || []
+    points.push(...batch)
+    after = batch.length === BATCH_SIZE ? batch[batch.length - 1].id : null
+  } while (after)
+
+  return points
+}
+
+export async function fetchRecord(id: string): Promise<FieldRecord | null> {
+  if (!UUID.test(id)) return null
+
+  const { data, error } = await supabase
+    .from('field_records')
+    .select(RECORD_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// How many records the project holds, before any filter.
+export async function countRecords(projectId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('field_records')
+    .select('id', { count: 'exact', head: true })
+    .eq('project_id', projectId)
+    .is('deleted_at', null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+// The list order on the device, for placing unsynced records among fetched
+// ones. Text follows the browser's collation, which can differ slightly from
+// the database's; at worst a pending record lands a row off.
+export function compareRecords(a: RecordCursor, b: RecordCursor, sort: RecordSort): number {
+  const first: string | null = a[sort.column]
+  const second: string | null = b[sort.column]
+  // Missing values sort last whichever way the list runs, as on the server.
+  if (first === null && second !== null) return 1
+  if (second === null && first !== null) return -1
+  const byColumn = first === null || second === null
+    ? 0
+    : sort.column === 'timestamp'
+      ? Date.parse(first) - Date.parse(second)
+      : first.localeCompare(second)
+  const order = byColumn || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  return sort.ascending ? order : -order
+}
@@ -0,0 +1,76 @@
+import { supabase, Tables, Updates } from './supabase'
+
+export type RecordRevision = Tables<'field_record_revisions'>
+
+type FieldRecord = Tables<'field_records'>
+
+export interface RevisionChange {
+  key: string
+  before: string
+  after: string
+}
+
+// Columns a user can change; bookkeeping columns like version would show up
+// as a change on every revision.
+const TRACKED_COLUMNS = ['field', 'value', 'location', 'latitude', 'longitude', 'location_source'] as const
+
+function asRecord(snapshot: RecordRevision['snapshot']): Partial<FieldRecord> {
+  return (snapshot ?? {}) as Partial<FieldRecord>
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+export function diffRevisions(previous: RecordRevision | undefined, current: RecordRevision): RevisionChange[] {
+  const before = previous ? asRecord(previous.snapshot) : {}
+  const after = asRecord(current.snapshot)
+  const changes: RevisionChange[] = []
+
+  TRACKED_COLUMNS.forEach(key => {
+    if (formatValue(before[key]) !== formatValue(after[key])) {
+      changes.push({ key, before: formatValue(before[key]), after: formatValue(after[key]) })
+    }
+  })
+
+  // Templated records keep their typed values in `data`; diff those per key.
+  const beforeData = (before.data ?? {}) as Record<string, unknown>
+  const afterData = (after.data ?? {}) as Record<string, unknown>
+  const dataKeys = new Set([...Object.keys(beforeData), ...Object.keys(afterData)])
+  dataKeys.forEach(key => {
+    if (JSON.stringify(beforeData[key]) !== JSON.stringify(afterData[key])) {
+      changes.push({ key: `data.${key}`, before: formatValue(beforeData[key]), after: formatValue(afterData[key]) })
+    }
+  })
+
+  return changes
+}
+
+export function revertChanges(revision: RecordRevision): Updates<'field_records'> {
+  const snapshot = asRecord(revision.snapshot)
+  return {
+    field: snapshot.field,
+    value: snapshot.value,
+    location: snapshot.location,
+    latitude: snapshot.latitude ?? null,
+    longitude: snapshot.longitude ?? null,
+    accuracy: snapshot.accuracy ?? null,
+    altitude: snapshot.altitude ?? null,
+    location_source: snapshot.location_source ?? null,
+    template_id: snapshot.template_id ?? null,
+    data: snapshot.data ?? null
+  }
+}
+
+export async function loadRevisions(recordId: string): Promise<RecordRevision[]> {
+  const { data, error } = await supabase
+    .from('field_record_revisions')
+    .select('*')
+    .eq('record_id', recordId)
+    .order('version', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { Session } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { Database } from '../types/database'
+
+const SESSION_CACHE_KEY = 'fdc.session'
+
+// Matches the runtime cache the service worker keeps record reads in.
+export const RECORDS_CACHE = 'field-records'
+
+// Supabase drops the session from getSession() when an expired token cannot
+// be refreshed, even though the refresh only failed for lack of network. The
+// last good session is kept here so a signed-in collector can keep working
+// offline; requests pick up a fresh token once the refresh goes through.
+export function cachedSession(): Session | null {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_CACHE_KEY) || 'null')
+  } catch {
+    return null
+  }
+}
+
+export function cacheSession(session: Session) {
+  try {
+    localStorage.setItem(SESSION_CACHE_KEY, JSON.stringify(session))
+  } catch (error) {
+    console.error('Error caching session:', error)
+  }
+}
+
+export async function clearCachedSession() {
+  localStorage.removeItem(SESSION_CACHE_KEY)
+  // Cached record reads belong to whoever was signed in.
+  if ('caches' in window) {
+    await caches.delete(RECORDS_CACHE)
+  }
+}
+
+export type SignedInSession = Database['public']['Functions']['list_my_sessions']['Returns'][number]
+
+// Every device the user is signed in on, newest activity first.
+export async function listSessions(): Promise<SignedInSession[]> {
+  const { data, error } = await supabase.rpc('list_my_sessions')
+
+  if (error) throw error
+  return data || []
+}
+
+// The device stays signed in until its access token expires, at most an hour.
+export async function revokeSession(sessionId: string): Promise<void> {
+  const { error } = await supabase.rpc('revoke_my_session', { session_id: sessionId })
+
+  if (error) throw error
+}
@@ -0,0 +1,145 @@
+import { stripCitations } from './citations'
+
+// Minimal typings for the Web Speech API's recognition side, which the DOM
+// lib does not include. Chrome and Safari only expose it prefixed.
+interface RecognitionResult {
+  isFinal: boolean
+  0: { transcript: string }
+}
+
+interface RecognitionEvent {
+  results: ArrayLike<RecognitionResult>
+}
+
+interface Recognition {
+  lang: string
+  continuous: boolean
+  interimResults: boolean
+  start(): void
+  stop(): void
+  abort(): void
+  onresult: ((event: RecognitionEvent) => void) | null
+  onerror: ((event: { error: string }) => void) | null
+  onend: (() => void) | null
+}
+
+type RecognitionConstructor = new () => Recognition
+
+export interface DictationHandlers {
+  // Called with everything heard so far; `final` once the engine has settled.
+  onText: (text: string, final: boolean) => void
+  onError: (message: string) => void
+  onEnd: () => void
+}
+
+export interface Dictation {
+  // Stops listening and delivers the final transcript.
+  stop(): void
+  // Stops listening and discards what was heard.
+  cancel(): void
+}
+
+const READ_ALOUD_KEY = 'fdc.readAloud'
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied',
+  'service-not-allowed': 'Speech recognition is blocked in this browser',
+  'audio-capture': 'No microphone was found',
+  'no-speech': 'No speech was heard',
+  network: 'Speech recognition needs a network connection in this browser'
+}
+
+function recognitionConstructor(): RecognitionConstructor | undefined {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: RecognitionConstructor
+    webkitSpeechRecognition?: RecognitionConstructor
+  }
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition
+}
+
+export function isSpeechRecognitionSupported(): boolean {
+  return typeof window !== 'undefined' && recognitionConstructor() !== undefined
+}
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window
+}
+
+export function startDictation(handlers: DictationHandlers): Dictation {
+  const Constructor = recognitionConstructor()
+  if (!Constructor) throw new Error('Speech recognition is not supported in this browser')
+
+  const recognition = new Constructor()
+  recognition.lang = navigator.language
+  recognition.continuous = true
+  recognition.interimResults = true
+
+  let cancelled = false
+  recognition.onresult = (event) => {
+    if (cancelled) return
+    const results = Array.from(event.results)
+    handlers.onText(
+      results.map(result => result[0].transcript).join('').trim(),
+      results.every(result => result.isFinal)
+    )
+  }
+  recognition.onerror = (event) => {
+    // "aborted" is what cancel() itself causes.
+    if (event.error !== 'aborted') handlers.onError(ERROR_MESSAGES[event.error] ?? 'Speech recognition failed')
+  }
+  recognition.onend = handlers.onEnd
+  recognition.start()
+
+  return {
+    stop: () => recognition.stop(),
+    cancel: () => {
+      cancelled = true
+      recognition.abort()
+    }
+  }
+}
+
+// Markdown, charts and citation tokens read badly, so they are removed
+// before anything is spoken.
+export function toSpeechText(markdown: string): string {
+  return stripCitations(markdown)
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/gm, '')
+    .replace(/[#*_`|>]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function speak(text: string) {
+  if (!isSpeechSynthesisSupported() || !text) return
+  window.speechSynthesis.cancel()
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.lang = navigator.language
+  window.speechSynthesis.speak(utterance)
+}
+
+export function stopSpeaking() {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel()
+}
+
+export function isReadAloudEnabled(): boolean {
+  try {
+    return isSpeechSynthesisSupported() && localStorage.getItem(READ_ALOUD_KEY) === 'on'
+  } catch {
+    return false
+  }
+}
+
+export function setReadAloudEnabled(enabled: boolean) {
+  try {
+    localStorage.setItem(READ_ALOUD_KEY, enabled ? 'on' : 'off')
+  } catch {
+    // Not remembered; it simply resets on the next visit.
+  }
+}
+
+// Speaks only when the user turned read-aloud on.
+export function announce(text: string) {
+  if (isReadAloudEnabled()) speak(text)
+}
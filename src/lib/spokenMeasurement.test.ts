@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { parseNumberWords, parseSpokenMeasurement } from './spokenMeasurement'
+
+const words = (text: string) => text.split(' ')
+
+describe('parseNumberWords', () => {
+  it('reads tens, units and a decimal point', () => {
+    expect(parseNumberWords(words('twenty five point five'))).toBe(25.5)
+    expect(parseNumberWords(words('point zero five'))).toBe(0.05)
+  })
+
+  it('reads hundreds joined with "and"', () => {
+    expect(parseNumberWords(words('one hundred and five'))).toBe(105)
+    expect(parseNumberWords(words('two thousand three hundred'))).toBe(2300)
+  })
+
+  it('reads negatives', () => {
+    expect(parseNumberWords(words('minus three'))).toBe(-3)
+    expect(parseNumberWords(words('negative two point five'))).toBe(-2.5)
+  })
+
+  it('reads digits with a decimal comma', () => {
+    expect(parseNumberWords(['6,8'])).toBe(6.8)
+    expect(parseNumberWords(['12,75'])).toBe(12.75)
+  })
+
+  it('reads commas between groups of three digits as thousands separators', () => {
+    expect(parseNumberWords(['1,200'])).toBe(1200)
+    expect(parseNumberWords(['2,500'])).toBe(2500)
+    expect(parseNumberWords(['1,234,567'])).toBe(1234567)
+    expect(parseNumberWords(['1,200.5'])).toBe(1200.5)
+  })
+
+  it('rejects words that are not numbers', () => {
+    expect(parseNumberWords(words('twenty plot'))).toBeNull()
+    expect(parseNumberWords([])).toBeNull()
+  })
+})
+
+describe('parseSpokenMeasurement', () => {
+  it('splits a dictated reading into field, value and unit', () => {
+    expect(parseSpokenMeasurement('temperature twenty five point five degrees')).toEqual({
+      field: 'temperature',
+      value: '25.5',
+      unit: 'degrees',
+      location: '',
+    })
+  })
+
+  it('takes the site after a location marker and drops filler words', () => {
+    expect(parseSpokenMeasurement('Log soil pH is 6,8 at north plot.')).toEqual({
+      field: 'soil pH',
+      value: '6.8',
+      unit: '',
+      location: 'north plot',
+    })
+  })
+
+  it('reads hundreds and negative readings in a phrase', () => {
+    expect(parseSpokenMeasurement('depth one hundred and five centimetres')).toMatchObject({ value: '105', unit: 'centimetres' })
+    expect(parseSpokenMeasurement('air temperature minus three celsius in the orchard')).toEqual({
+      field: 'air temperature',
+      value: '-3',
+      unit: 'celsius',
+      location: 'the orchard',
+    })
+  })
+
+  it('keeps thousands in dictated readings', () => {
+    expect(parseSpokenMeasurement('rainfall 1,200 millimetres at north plot')).toEqual({
+      field: 'rainfall',
+      value: '1200',
+      unit: 'millimetres',
+      location: 'north plot',
+    })
+    expect(parseSpokenMeasurement('elevation 2,500 metres')).toMatchObject({ value: '2500', unit: 'metres' })
+    expect(parseSpokenMeasurement('soil pH 6,8')).toMatchObject({ value: '6.8' })
+  })
+
+  it('reads a percent sign or the word percent as the unit', () => {
+    expect(parseSpokenMeasurement('humidity 80% at plot 2')).toEqual({
+      field: 'humidity',
+      value: '80',
+      unit: '%',
+      location: 'plot 2',
+    })
+    expect(parseSpokenMeasurement('humidity eighty percent')).toMatchObject({ value: '80', unit: '%' })
+  })
+
+  it('returns null when nothing in the transcript is a number', () => {
+    expect(parseSpokenMeasurement('soil looks dry')).toBeNull()
+  })
+})
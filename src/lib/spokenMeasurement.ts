@@ -0,0 +1,153 @@
+// Turns a dictated reading such as "temperature twenty five point five
+// degrees at north plot" into the field, value and site label of a record.
+
+export interface SpokenMeasurement {
+  field: string
+  value: string
+  unit: string
+  location: string
+}
+
+const ONES: Record<string, number> = {
+  zero: 0, oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19
+}
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+}
+
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000 }
+
+const NEGATIVE = new Set(['minus', 'negative'])
+const DIGITS = /^-?(?:\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:[.,]\d+)?)$/
+// Recognizers write "1,200" for one thousand two hundred; a comma is only a
+// decimal point when the digits cannot be read as groups of thousands.
+const GROUPED_DIGITS = /^-?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/
+
+// Words people put before a reading that are not part of the field name.
+const LEADING_FILLER = /^(?:please\s+)?(?:log|record|add|enter|save)\s+/i
+const TRAILING_FILLER = /\s+(?:is|was|equals|of|reads|reading|at)$/i
+const LOCATION_MARKERS = new Set(['at', 'in', 'near', 'on'])
+// "80%" from a recognizer and "eighty percent" as spoken both mean %.
+const PERCENT = /^(?:%|percent|per cent)$/i
+
+function digitsValue(word: string): number {
+  return GROUPED_DIGITS.test(word) ? Number(word.replace(/,/g, '')) : Number(word.replace(',', '.'))
+}
+
+function isNumberWord(word: string): boolean {
+  return word in ONES || word in TENS || word in SCALES || DIGITS.test(word)
+}
+
+// Integer part from words like "one hundred and twenty five", or digits.
+function parseInteger(words: string[]): number | null {
+  let total = 0
+  let current = 0
+  let seen = false
+
+  for (const word of words) {
+    if (word === 'and') continue
+    if (DIGITS.test(word)) {
+      current += digitsValue(word)
+    } else if (word in ONES) {
+      current += ONES[word]
+    } else if (word in TENS) {
+      current += TENS[word]
+    } else if (word in SCALES) {
+      const scale = SCALES[word]
+      if (scale === 100) {
+        current = (current || 1) * scale
+      } else {
+        total += (current || 1) * scale
+        current = 0
+      }
+    } else {
+      return null
+    }
+    seen = true
+  }
+
+  return seen ? total + current : null
+}
+
+// Decimals are usually read digit by digit ("point zero five"), but "point
+// twenty five" is also common.
+function parseDecimals(words: string[]): string | null {
+  let digits = ''
+  for (const word of words) {
+    if (/^\d+$/.test(word)) digits += word
+    else if (word in ONES) digits += String(ONES[word])
+    else if (word in TENS) digits += String(TENS[word] / 10)
+    else return null
+  }
+  return digits || null
+}
+
+export function parseNumberWords(words: string[]): number | null {
+  const negative = words.length > 0 && NEGATIVE.has(words[0])
+  const rest = negative ? words.slice(1) : words
+  const point = rest.indexOf('point')
+
+  const integer = parseInteger(point === -1 ? rest : rest.slice(0, point))
+  if (point === -1) return integer === null ? null : (negative ? -integer : integer)
+
+  const decimals = parseDecimals(rest.slice(point + 1))
+  if (decimals === null) return null
+  const value = Number(`${integer ?? 0}.${decimals}`)
+  return negative ? -value : value
+}
+
+// The words that make up the first number in the phrase: [start, end).
+function findNumberRun(words: string[]): [number, number] | null {
+  const start = words.findIndex((word, index) =>
+    isNumberWord(word) || (NEGATIVE.has(word) && isNumberWord(words[index + 1] ?? '')) ||
+    (word === 'point' && isNumberWord(words[index + 1] ?? ''))
+  )
+  if (start === -1) return null
+
+  let end = start + 1
+  while (end < words.length) {
+    const word = words[end]
+    const next = words[end + 1] ?? ''
+    if (isNumberWord(word) || ((word === 'point' || word === 'and') && isNumberWord(next))) {
+      end++
+    } else {
+      break
+    }
+  }
+  return [start, end]
+}
+
+export function parseSpokenMeasurement(transcript: string): SpokenMeasurement | null {
+  // Matching is case-insensitive, but names keep the speaker's casing ("pH").
+  const spoken = transcript
+    .replace(/[^\p{L}\p{N}\s.,%-]/gu, ' ')
+    .replace(/%/g, ' % ')
+    .replace(/(\D)[.,](?=\s|$)/g, '$1')
+    .split(/\s+/)
+    .filter(Boolean)
+  const words = spoken.map(word => word.toLowerCase())
+
+  const run = findNumberRun(words)
+  if (!run) return null
+
+  const value = parseNumberWords(words.slice(run[0], run[1]))
+  if (value === null) return null
+
+  const field = spoken
+    .slice(0, run[0])
+    .join(' ')
+    .replace(LEADING_FILLER, '')
+    .replace(TRAILING_FILLER, '')
+    .trim()
+
+  const rest = spoken.slice(run[1])
+  const marker = words.slice(run[1]).findIndex(word => LOCATION_MARKERS.has(word))
+  const unitText = (marker === -1 ? rest : rest.slice(0, marker)).join(' ')
+  const unit = PERCENT.test(unitText) ? '%' : unitText
+  const location = marker === -1 ? '' : rest.slice(marker + 1).join(' ')
+
+  return { field, value: String(value), unit, location }
+}
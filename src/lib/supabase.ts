@@ -4,14 +4,31 @@ import { Database } from '../types/database'
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseKey) {
+function isHttpUrl(value: string | undefined): boolean {
+  try {
+    const { protocol } = new URL(value ?? '')
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Any http(s) URL counts, so self-hosted and local stacks such as
+// http://localhost:54321 work as well as supabase.co projects.
+export const isSupabaseConfigured = isHttpUrl(supabaseUrl) && !!supabaseKey
+
+if (!isSupabaseConfigured) {
   console.warn('Supabase configuration is missing. Please check your .env file.')
 }
 
-export const supabase = createClient<Database>(
-  supabaseUrl || 'https://placeholder.supabase.co',
-  supabaseKey || 'placeholder-key'
-)
+const clientUrl = isSupabaseConfigured ? supabaseUrl : 'https://placeholder.supabase.co'
+
+export const supabase = createClient<Database>(clientUrl, supabaseKey || 'placeholder-key')
+
+// For calling edge functions with fetch directly where functions.invoke falls
+// short, such as reading a streamed response that the user can cancel.
+export const functionsUrl = `${clientUrl}/functions/v1`
+export const anonKey: string = supabaseKey || 'placeholder-key'
 
 export type Tables<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Row']
 export type Inserts<T extends keyof Database['public']['Tables']> = Database['public']['Tables'][T]['Insert']
@@ -0,0 +1,389 @@
+import 'fake-indexeddb/auto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  InsertEntry,
+  enqueueRecord,
+  enqueueRecordUpdate,
+  listConflicts,
+  listOutbox,
+  removeConflict,
+  removeOutboxEntry
+} from './outbox'
+import { startBackgroundSync, syncOutbox } from './sync'
+import { resolveConflict } from './conflicts'
+
+type Row = Record<string, unknown> & { id: string; version: number }
+
+// An in-memory stand-in for the few PostgREST calls sync makes. Rows the
+// user may not see or edit are filtered out the way RLS would.
+const server = vi.hoisted(() => ({
+  records: new Map<string, Row>(),
+  activities: [] as { id: string; action: string }[],
+  hidden: new Set<string>(),
+  readOnly: new Set<string>(),
+  attachments: [] as { record_id: string; storage_path: string }[],
+  files: new Set<string>(),
+  purges: 0,
+  // Files still stored for records the last purge deleted.
+  orphanedFiles: [] as string[],
+  beforeWrite: null as (() => Promise<void>) | null
+}))
+
+vi.mock('./supabase', () => {
+  class Query {
+    private filters: ((row: Record<string, unknown>) => boolean)[] = []
+    private limitTo = Infinity
+    private operation: 'select' | 'update' | 'upsert' = 'select'
+    private payload: unknown = null
+    private single = false
+
+    constructor(private table: string) {}
+
+    upsert(payload: unknown) {
+      this.operation = 'upsert'
+      this.payload = payload
+      return this
+    }
+
+    update(payload: unknown) {
+      this.operation = 'update'
+      this.payload = payload
+      return this
+    }
+
+    select() {
+      return this
+    }
+
+    eq(column: string, value: unknown) {
+      this.filters.push(row => row[column] === value)
+      return this
+    }
+
+    not(column: string, _operator: 'is', value: null) {
+      this.filters.push(row => row[column] !== value)
+      return this
+    }
+
+    lt(column: string, value: string) {
+      this.filters.push(row => typeof row[column] === 'string' && (row[column] as string) < value)
+      return this
+    }
+
+    gt(column: string, value: string) {
+      this.filters.push(row => typeof row[column] === 'string' && (row[column] as string) > value)
+      return this
+    }
+
+    in(column: string, values: unknown[]) {
+      this.filters.push(row => values.includes(row[column]))
+      return this
+    }
+
+    order() {
+      return this
+    }
+
+    limit(count: number) {
+      this.limitTo = count
+      return this
+    }
+
+    maybeSingle() {
+      this.single = true
+      return this
+    }
+
+    then<T>(resolve: (result: { data: unknown; error: null }) => T, reject: (error: unknown) => void) {
+      return this.run().then(resolve, reject)
+    }
+
+    private async run() {
+      if (this.operation !== 'select') await server.beforeWrite?.()
+
+      if (this.table === 'activity_logs') {
+        for (const activity of this.payload as { id: string; action: string }[]) {
+          if (!server.activities.some(logged => logged.id === activity.id)) server.activities.push(activity)
+        }
+        return { data: null, error: null }
+      }
+
+      if (this.table === 'field_record_attachments') {
+        return { data: server.attachments.filter(row => this.filters.every(filter => filter(row))), error: null }
+      }
+
+      if (this.operation === 'upsert') {
+        const row = this.payload as Row
+        if (!server.records.has(row.id)) server.records.set(row.id, { ...row, version: 1 })
+        return { data: null, error: null }
+      }
+
+      const visible = [...server.records.values()].filter(row =>
+        !server.hidden.has(row.id) && this.filters.every(filter => filter(row))
+      ).slice(0, this.limitTo)
+
+      if (this.operation === 'update') {
+        const updated = visible
+          .filter(row => !server.readOnly.has(row.id))
+          .map(row => {
+            const next = { ...row, ...(this.payload as object), version: row.version + 1 }
+            server.records.set(row.id, next)
+            return next
+          })
+        return { data: updated, error: null }
+      }
+
+      return { data: this.single ? visible[0] ?? null : visible, error: null }
+    }
+  }
+
+  return {
+    supabase: {
+      from: (table: string) => new Query(table),
+      rpc: async (_name: string, { retention_days }: { retention_days: number }) => {
+        server.purges += 1
+        const cutoff = new Date(Date.now() - retention_days * 24 * 60 * 60 * 1000).toISOString()
+        for (const row of [...server.records.values()]) {
+          if (typeof row.deleted_at !== 'string' || row.deleted_at >= cutoff) continue
+          server.records.delete(row.id)
+          const cascaded = server.attachments.filter(attachment => attachment.record_id === row.id)
+          server.attachments = server.attachments.filter(attachment => attachment.record_id !== row.id)
+          server.orphanedFiles.push(...cascaded.map(attachment => attachment.storage_path).filter(path => server.files.has(path)))
+        }
+        return { error: null }
+      },
+      storage: {
+        from: () => ({
+          remove: async (paths: string[]) => {
+            paths.forEach(path => server.files.delete(path))
+            return { data: [], error: null }
+          }
+        })
+      }
+    }
+  }
+})
+
+const USER = '00000000-0000-4000-8000-000000000001'
+const OTHER_USER = '00000000-0000-4000-8000-000000000002'
+const PROJECT = '00000000-0000-4000-8000-0000000000aa'
+
+function queueRecord(userId = USER) {
+  return enqueueRecord(
+    { field: 'pH', value: '6.8', location: 'Plot B2', user_id: userId, project_id: PROJECT },
+    'Added field record: pH = 6.8'
+  )
+}
+
+function serverRecord(changes: Partial<Row> = {}): Row {
+  const row = { id: crypto.randomUUID(), field: 'pH', value: '6.8', location: 'Plot B2', user_id: USER, version: 2, ...changes }
+  server.records.set(row.id, row)
+  return row
+}
+
+function actions() {
+  return server.activities.map(activity => activity.action)
+}
+
+let stopSync: () => void
+
+beforeEach(async () => {
+  await Promise.all((await listOutbox()).map(entry => removeOutboxEntry(entry.id)))
+  await Promise.all((await listConflicts()).map(conflict => removeConflict(conflict.id)))
+  server.records.clear()
+  server.activities = []
+  server.hidden.clear()
+  server.readOnly.clear()
+  server.attachments = []
+  server.files.clear()
+  server.purges = 0
+  server.orphanedFiles = []
+  server.beforeWrite = null
+
+  const stored = new Map<string, string>()
+  vi.stubGlobal('navigator', { onLine: true })
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value)
+  })
+  vi.stubGlobal('window', {
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    setInterval: () => 0,
+    clearInterval: () => {}
+  })
+
+  stopSync = startBackgroundSync(USER)
+  // Starting up syncs once and then purges old trash; wait for both so the
+  // tests below control every later sync.
+  await vi.waitFor(() => expect(server.purges).toBe(1))
+})
+
+afterEach(() => {
+  stopSync()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('syncOutbox', () => {
+  it('pushes a queued record and its activity, then empties the outbox', async () => {
+    const record = await queueRecord()
+
+    await syncOutbox()
+
+    expect(server.records.get(record.recordId)?.value).toBe('6.8')
+    expect(actions()).toEqual(['DATA_ENTRY'])
+    expect(await listOutbox()).toEqual([])
+  })
+
+  it('keeps an edit made while the record is being pushed and sends it next', async () => {
+    const record = await queueRecord()
+    server.beforeWrite = async () => {
+      server.beforeWrite = null
+      await enqueueRecordUpdate(record.recordId, { value: '7.1' }, 1, USER, 'DATA_EDIT', 'Edited pH')
+    }
+
+    await syncOutbox()
+
+    expect(server.records.get(record.recordId)?.value).toBe('6.8')
+    const [queued] = await listOutbox()
+    expect(queued).toMatchObject({ operation: 'update', state: 'pending', payload: { value: '7.1' } })
+
+    await syncOutbox()
+
+    expect(server.records.get(record.recordId)).toMatchObject({ value: '7.1', version: 2 })
+    expect(actions()).toEqual(['DATA_ENTRY', 'DATA_EDIT'])
+  })
+
+  it('logs every activity folded into an update', async () => {
+    const row = serverRecord()
+    await enqueueRecordUpdate(row.id, { value: '7.1' }, 2, USER, 'DATA_EDIT', 'Edited pH')
+    await enqueueRecordUpdate(row.id, { deleted_at: '2026-10-18T10:00:00Z' }, 2, USER, 'DATA_DELETE', 'Deleted')
+
+    await syncOutbox()
+
+    expect(server.records.get(row.id)).toMatchObject({ value: '7.1', deleted_at: '2026-10-18T10:00:00Z', version: 3 })
+    expect(actions()).toEqual(['DATA_EDIT', 'DATA_DELETE'])
+  })
+
+  it('queues a conflict when the record changed on the server since it was read', async () => {
+    const row = serverRecord({ version: 4, value: '6.9' })
+    await enqueueRecordUpdate(row.id, { value: '7.1' }, 2, USER, 'DATA_EDIT', 'Edited pH')
+
+    await syncOutbox()
+
+    const [conflict] = await listConflicts()
+    expect(conflict).toMatchObject({ recordId: row.id, userId: USER, local: { value: '7.1' }, baseVersion: 2 })
+    expect(conflict.server).toMatchObject({ value: '6.9', version: 4 })
+    expect(conflict.activities.map(activity => activity.action)).toEqual(['DATA_EDIT'])
+    expect(await listOutbox()).toEqual([])
+    expect(actions()).toEqual([])
+  })
+
+  it('logs the edits held by a conflict when it is resolved', async () => {
+    const row = serverRecord({ version: 4, value: '6.9' })
+    await enqueueRecordUpdate(row.id, { value: '7.1' }, 2, USER, 'DATA_EDIT', 'Edited pH')
+    await enqueueRecordUpdate(row.id, { deleted_at: '2026-10-18T10:00:00Z' }, 2, USER, 'DATA_DELETE', 'Deleted')
+    await syncOutbox()
+    const [conflict] = await listConflicts()
+
+    await resolveConflict(conflict, {})
+    await syncOutbox()
+
+    expect(server.records.get(row.id)).toMatchObject({ value: '6.9', version: 4 })
+    expect(actions()).toEqual(['DATA_EDIT', 'DATA_DELETE', 'CONFLICT_RESOLVED'])
+    expect(await listConflicts()).toEqual([])
+  })
+
+  it('logs the held edits with a resolution that keeps local values', async () => {
+    const row = serverRecord({ version: 4, value: '6.9' })
+    await enqueueRecordUpdate(row.id, { value: '7.1' }, 2, USER, 'DATA_EDIT', 'Edited pH')
+    await syncOutbox()
+    const [conflict] = await listConflicts()
+
+    await resolveConflict(conflict, { value: 'local' })
+    await syncOutbox()
+
+    expect(server.records.get(row.id)).toMatchObject({ value: '7.1', version: 5 })
+    expect(actions()).toEqual(['DATA_EDIT', 'CONFLICT_RESOLVED'])
+  })
+
+  it('treats a retried update the server already applied as synced', async () => {
+    const row = serverRecord({ version: 3, value: '7.1' })
+    await enqueueRecordUpdate(row.id, { value: '7.1' }, 2, USER, 'DATA_EDIT', 'Edited pH')
+
+    await syncOutbox()
+
+    expect(await listConflicts()).toEqual([])
+    expect(await listOutbox()).toEqual([])
+    expect(actions()).toEqual(['DATA_EDIT'])
+  })
+
+  it('fails an update the user may no longer make instead of queueing a conflict', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const row = serverRecord()
+    server.readOnly.add(row.id)
+    await enqueueRecordUpdate(row.id, { value: '7.1' }, 2, USER, 'DATA_EDIT', 'Edited pH')
+
+    await syncOutbox()
+
+    expect(await listConflicts()).toEqual([])
+    const [entry] = await listOutbox()
+    expect(entry).toMatchObject({ state: 'failed', attempts: 1, lastError: 'You do not have permission to edit this record' })
+  })
+
+  it('fails an update of a record the user can no longer see', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const row = serverRecord()
+    server.hidden.add(row.id)
+    await enqueueRecordUpdate(row.id, { value: '7.1' }, 2, USER, 'DATA_EDIT', 'Edited pH')
+
+    await syncOutbox()
+
+    expect(await listConflicts()).toEqual([])
+    const [entry] = await listOutbox()
+    expect(entry.state).toBe('failed')
+  })
+
+  it('holds another user\'s entries until they sign in again', async () => {
+    const theirs = await queueRecord(OTHER_USER)
+
+    await syncOutbox()
+
+    expect(server.records.size).toBe(0)
+    const [held] = await listOutbox()
+    expect(held).toMatchObject({ id: theirs.id, state: 'pending', attempts: 0 })
+
+    stopSync()
+    stopSync = startBackgroundSync(OTHER_USER)
+    await syncOutbox()
+
+    expect(server.records.has((held as InsertEntry).recordId)).toBe(true)
+    expect(await listOutbox()).toEqual([])
+  })
+})
+
+describe('purging expired trash', () => {
+  it('removes the attachment files of expired records before purging them', async () => {
+    const now = Date.now()
+    const expired = { id: 'expired', version: 1, deleted_at: new Date(now - 365 * 24 * 60 * 60 * 1000).toISOString() }
+    const recent = { id: 'recent', version: 1, deleted_at: new Date(now).toISOString() }
+    server.records.set(expired.id, expired)
+    server.records.set(recent.id, recent)
+    server.attachments = [
+      { record_id: expired.id, storage_path: 'user/expired/photo.jpg' },
+      { record_id: recent.id, storage_path: 'user/recent/photo.jpg' }
+    ]
+    server.files = new Set(server.attachments.map(attachment => attachment.storage_path))
+
+    // Restart with a fresh device, so the daily purge is due again.
+    stopSync()
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} })
+    stopSync = startBackgroundSync(USER)
+    await vi.waitFor(() => expect(server.purges).toBe(2))
+
+    expect(server.records.has(expired.id)).toBe(false)
+    expect(server.orphanedFiles).toEqual([])
+    expect([...server.files]).toEqual(['user/recent/photo.jpg'])
+  })
+})
@@ -0,0 +1,413 @@
+import { supabase } from './supabase'
+import { config } from './config'
+import { ATTACHMENT_BUCKET, removeAttachmentFiles } from './attachments'
+import {
+  OutboxEntry,
+  UpdateEntry,
+  addConflict,
+  claimOutboxEntry,
+  createId,
+  entryOwner,
+  listConflicts,
+  listOutbox,
+  patchOutboxEntries,
+  removeOutboxEntry,
+  subscribeToOutbox,
+  updateOutboxEntry
+} from './outbox'
+
+const SYNC_INTERVAL_MS = 15 * 1000
+const BASE_BACKOFF_MS = 2 * 1000
+const MAX_BACKOFF_MS = 5 * 60 * 1000
+const LAST_SYNC_KEY = 'fdc.lastSyncAt'
+const LAST_PURGE_KEY = 'fdc.lastTrashPurgeAt'
+const DAY_MS = 24 * 60 * 60 * 1000
+const PURGE_INTERVAL_MS = DAY_MS
+// Expired records are listed in pages; one request stops at the server's
+// row limit.
+const PURGE_BATCH_SIZE = 1000
+
+export interface SyncStatus {
+  pending: number
+  inFlight: number
+  failed: number
+  conflicts: number
+  online: boolean
+  lastSyncAt: string | null
+  lastError: string | null
+}
+
+export type SyncHealth = 'synced' | 'pending' | 'conflict' | 'error'
+
+type SyncStatusListener = () => void
+
+let activeSync: Promise<void> | null = null
+// The signed-in user whose entries are pushed; set by startBackgroundSync.
+let syncUserId: string | null = null
+let status: SyncStatus = {
+  pending: 0,
+  inFlight: 0,
+  failed: 0,
+  conflicts: 0,
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  lastSyncAt: readLastSyncAt(),
+  lastError: null
+}
+const statusListeners = new Set<SyncStatusListener>()
+
+function readLastSyncAt(): string | null {
+  try {
+    return localStorage.getItem(LAST_SYNC_KEY)
+  } catch {
+    return null
+  }
+}
+
+function setStatus(patch: Partial<SyncStatus>) {
+  status = { ...status, ...patch }
+  statusListeners.forEach(listener => listener())
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status
+}
+
+export function subscribeToSyncStatus(listener: SyncStatusListener): () => void {
+  statusListeners.add(listener)
+  return () => {
+    statusListeners.delete(listener)
+  }
+}
+
+export function getSyncHealth(current: SyncStatus): SyncHealth {
+  if (current.failed > 0) return 'error'
+  if (current.conflicts > 0) return 'conflict'
+  if (current.pending > 0 || current.inFlight > 0) return 'pending'
+  return 'synced'
+}
+
+// Called after any request that reached Supabase and came back clean, so
+// "last sync" reflects real contact with the server rather than a page load.
+export function recordRoundTrip() {
+  const now = new Date().toISOString()
+  try {
+    localStorage.setItem(LAST_SYNC_KEY, now)
+  } catch {
+    // Storage can be unavailable in private mode; the in-memory value still updates.
+  }
+  setStatus({ lastSyncAt: now })
+}
+
+async function refreshCounts() {
+  try {
+    const [allEntries, allConflicts] = await Promise.all([listOutbox(), listConflicts()])
+    const entries = allEntries.filter(entry => entryOwner(entry) === syncUserId)
+    const conflicts = allConflicts.filter(conflict => conflict.userId === syncUserId)
+    setStatus({
+      pending: entries.filter(entry => entry.state === 'pending').length,
+      inFlight: entries.filter(entry => entry.state === 'syncing').length,
+      failed: entries.filter(entry => entry.state === 'failed').length,
+      conflicts: conflicts.length
+    })
+  } catch (error) {
+    console.error('Error reading outbox:', error)
+  }
+}
+
+export function backoffDelay(attempts: number): number {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+  // Jitter keeps a crew's devices from all retrying at the same instant
+  // when coverage comes back.
+  return exponential / 2 + Math.random() * (exponential / 2)
+}
+
+type PushResult = 'synced' | 'conflict'
+
+async function pushActivity(entry: OutboxEntry) {
+  const { error } = await supabase
+    .from('activity_logs')
+    .upsert(entry.activities, { onConflict: 'id', ignoreDuplicates: true })
+
+  if (error) throw error
+}
+
+async function pushUpdate(entry: UpdateEntry): Promise<PushResult> {
+  // Only applies if nobody else has written the row since this device last
+  // saw it; the version trigger bumps the number on every update.
+  const { data, error } = await supabase
+    .from(entry.table)
+    .update(entry.payload)
+    .eq('id', entry.recordId)
+    .eq('version', entry.baseVersion)
+    .select()
+
+  if (error) throw error
+
+  if (data && data.length > 0) {
+    await rebaseQueuedUpdates(entry, data[0].version)
+    return 'synced'
+  }
+
+  const { data: server, error: fetchError } = await supabase
+    .from(entry.table)
+    .select('*')
+    .eq('id', entry.recordId)
+    .maybeSingle()
+
+  if (fetchError) throw fetchError
+
+  // RLS filters the update the same way it does a stale version, so zero rows
+  // only mean someone else wrote the record if it is visible and has moved on.
+  // Otherwise the user has lost access to it, which no conflict choice fixes;
+  // the entry fails and is retried in case access comes back.
+  if (!server) {
+    throw new Error('This record no longer exists or you no longer have access to it')
+  }
+  if (server.version === entry.baseVersion) {
+    throw new Error('You do not have permission to edit this record')
+  }
+
+  // A retry of an update whose response was lost looks like a stale write;
+  // recognise it by the server already holding exactly our values.
+  if (server.version === entry.baseVersion + 1 && matchesChanges(server, entry.payload)) {
+    return 'synced'
+  }
+
+  await addConflict({
+    id: createId(),
+    recordId: entry.recordId,
+    userId: entryOwner(entry),
+    local: entry.payload,
+    baseVersion: entry.baseVersion,
+    server,
+    activities: entry.activities,
+    detectedAt: new Date().toISOString()
+  })
+  return 'conflict'
+}
+
+function matchesChanges(row: Record<string, unknown>, changes: Record<string, unknown>) {
+  return Object.entries(changes).every(([key, value]) => sameValue(row[key], value))
+}
+
+// Postgres hands jsonb back with its keys reordered, so values such as a
+// templated record's `data` are compared by content, not identity.
+export function sameValue(a: unknown, b: unknown): boolean {
+  return stableJson(a) === stableJson(b)
+}
+
+function stableJson(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : item
+  )
+}
+
+// Another user's queued edit keeps its own base version, so it still
+// conflicts with this write when they sign back in.
+async function rebaseQueuedUpdates(applied: UpdateEntry, version: number) {
+  await patchOutboxEntries(
+    entry =>
+      entry.id !== applied.id &&
+      entry.recordId === applied.recordId &&
+      entry.operation === 'update' &&
+      entryOwner(entry) === entryOwner(applied),
+    entry => (entry.operation === 'update' ? { ...entry, baseVersion: version } : entry)
+  )
+}
+
+async function pushEntry(entry: OutboxEntry): Promise<PushResult> {
+  if (entry.operation === 'insert') {
+    // Both rows carry client-generated ids, so replaying an entry after a
+    // dropped response is a no-op instead of a duplicate.
+    const { error } = await supabase
+      .from(entry.table)
+      .upsert(entry.payload, { onConflict: 'id', ignoreDuplicates: true })
+
+    if (error) throw error
+  }
+
+  if (entry.operation === 'upload') {
+    // upsert overwrites an object left behind by an upload whose response
+    // was lost, so the retry converges on the same path.
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(entry.payload.storage_path, entry.file, {
+        contentType: entry.payload.mime_type,
+        upsert: true
+      })
+
+    if (uploadError) throw uploadError
+
+    const { error } = await supabase
+      .from(entry.table)
+      .upsert(entry.payload, { onConflict: 'id', ignoreDuplicates: true })
+
+    if (error) throw error
+  }
+
+  if (entry.operation === 'update') {
+    const result = await pushUpdate(entry)
+    // The conflict keeps the entry's activities and logs them when resolved.
+    if (result === 'conflict') return result
+  }
+
+  await pushActivity(entry)
+  return 'synced'
+}
+
+async function pushPendingEntries() {
+  const userId = syncUserId
+  if (!userId) return
+
+  // Other users' entries are held until they sign in here again; they were
+  // queued under their session and RLS would reject them under this one.
+  const entries = (await listOutbox()).filter(entry => entryOwner(entry) === userId)
+  const now = Date.now()
+  // Records with an entry still waiting; later entries for them must not
+  // overtake it (an attachment cannot land before its record exists).
+  const blocked = new Set<string>()
+
+  for (const listed of entries) {
+    if (!navigator.onLine || syncUserId !== userId) return
+    if (listed.state === 'syncing' || listed.nextAttemptAt > now || blocked.has(listed.recordId)) {
+      blocked.add(listed.recordId)
+      continue
+    }
+
+    // Pushes the stored copy, with any edit merged in since the list was read.
+    const entry = await claimOutboxEntry(listed.id)
+    if (!entry) {
+      blocked.add(listed.recordId)
+      continue
+    }
+
+    try {
+      await pushEntry(entry)
+      await removeOutboxEntry(entry.id)
+      recordRoundTrip()
+      setStatus({ lastError: null })
+    } catch (error) {
+      const attempts = entry.attempts + 1
+      const message = (error as { message?: string })?.message ?? String(error)
+      console.error('Error syncing outbox entry:', error)
+      blocked.add(entry.recordId)
+      setStatus({ lastError: message })
+      await updateOutboxEntry({
+        ...entry,
+        state: 'failed',
+        attempts,
+        nextAttemptAt: Date.now() + backoffDelay(attempts),
+        lastError: message
+      })
+    }
+  }
+}
+
+export function syncOutbox(): Promise<void> {
+  if (!activeSync) {
+    activeSync = pushPendingEntries()
+      .catch(error => console.error('Error reading outbox:', error))
+      .finally(() => {
+        activeSync = null
+      })
+  }
+  return activeSync
+}
+
+async function resetInterruptedEntries() {
+  // An entry left in 'syncing' means the tab closed mid-push; the upserts are
+  // idempotent so it is safe to send it again.
+  await patchOutboxEntries(
+    entry => entry.state === 'syncing',
+    entry => ({ ...entry, state: 'pending' })
+  )
+}
+
+// Trashed records old enough for purge_deleted_field_records to delete.
+async function listExpiredTrash(): Promise<string[]> {
+  const cutoff = new Date(Date.now() - Math.max(config.trashRetentionDays, 0) * DAY_MS).toISOString()
+  const ids: string[] = []
+  let after: string | null = null
+
+  do {
+    let request = supabase
+      .from('field_records')
+      .select('id')
+      .not('deleted_at', 'is', null)
+      .lt('deleted_at', cutoff)
+    if (after) request = request.gt('id', after)
+
+    const { data, error } = await request.order('id').limit(PURGE_BATCH_SIZE)
+    if (error) throw error
+
+    const batch = (data || []).map(record => record.id)
+    ids.push(...batch)
+    after = batch.length === PURGE_BATCH_SIZE ? batch[batch.length - 1] : null
+  } while (after)
+
+  return ids
+}
+
+// Empties trash older than the retention period, at most once a day per device.
+async function purgeExpiredTrash() {
+  if (!navigator.onLine) return
+
+  const lastPurge = Number(localStorage.getItem(LAST_PURGE_KEY) || 0)
+  if (Date.now() - lastPurge < PURGE_INTERVAL_MS) return
+
+  // Files first, as when purging by hand: the storage policy checks the
+  // record, and once the rows cascade away nothing points at the files.
+  await removeAttachmentFiles(await listExpiredTrash())
+
+  const { error } = await supabase.rpc('purge_deleted_field_records', {
+    retention_days: config.trashRetentionDays
+  })
+
+  if (error) throw error
+  localStorage.setItem(LAST_PURGE_KEY, String(Date.now()))
+}
+
+// Retries everything immediately, including failed entries still waiting out
+// their backoff.
+export async function syncNow(): Promise<void> {
+  await patchOutboxEntries(
+    entry => entry.state === 'failed' && entryOwner(entry) === syncUserId,
+    entry => ({ ...entry, nextAttemptAt: 0 })
+  )
+  return syncOutbox()
+}
+
+export function startBackgroundSync(userId: string): () => void {
+  syncUserId = userId
+
+  const handleOnline = () => {
+    setStatus({ online: true })
+    syncOutbox()
+  }
+  const handleOffline = () => {
+    setStatus({ online: false })
+  }
+
+  const unsubscribe = subscribeToOutbox(refreshCounts)
+  refreshCounts()
+
+  resetInterruptedEntries()
+    .catch(error => console.error('Error reading outbox:', error))
+    .finally(() => syncOutbox())
+    .then(() => purgeExpiredTrash())
+    .catch(error => console.error('Error purging trash:', error))
+
+  window.addEventListener('online', handleOnline)
+  window.addEventListener('offline', handleOffline)
+  const interval = window.setInterval(syncOutbox, SYNC_INTERVAL_MS)
+
+  return () => {
+    syncUserId = null
+    unsubscribe()
+    window.removeEventListener('online', handleOnline)
+    window.removeEventListener('offline', handleOffline)
+    window.clearInterval(interval)
+  }
+}
\ No newline at end of file
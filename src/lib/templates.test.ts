@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TemplateField, validateTemplateData } from './templates'
+
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const PH: TemplateField = { key: 'ph', label: 'pH', type: 'number', required: true, min: 0, max: 14 }
+const DEPTH: TemplateField = { key: 'depth', label: 'Depth', type: 'number', required: false, min: 5, max: 30, unit: 'cm' }
+const TEXTURE: TemplateField = { key: 'texture', label: 'Texture', type: 'select', required: true, options: ['sand', 'loam', 'clay'] }
+const PESTS: TemplateField = { key: 'pests', label: 'Pests', type: 'multiselect', required: false, options: ['aphids', 'mites'] }
+const IRRIGATED: TemplateField = { key: 'irrigated', label: 'Irrigated', type: 'boolean', required: true }
+const SAMPLED: TemplateField = { key: 'sampled', label: 'Sampled on', type: 'date', required: true }
+const NOTES: TemplateField = { key: 'notes', label: 'Notes', type: 'text', required: false }
+
+describe('validateTemplateData', () => {
+  describe('required fields', () => {
+    it('flags empty required fields of every type but boolean', () => {
+      expect(validateTemplateData([PH, TEXTURE, SAMPLED], { ph: null, texture: '', sampled: null })).toEqual({
+        ph: 'pH is required',
+        texture: 'Texture is required',
+        sampled: 'Sampled on is required',
+      })
+      expect(validateTemplateData([{ ...PESTS, required: true }], { pests: [] })).toEqual({ pests: 'Pests is required' })
+    })
+
+    it('accepts an empty optional field without checking it further', () => {
+      expect(validateTemplateData([DEPTH, PESTS, NOTES], { depth: null, pests: [], notes: '' })).toEqual({})
+    })
+  })
+
+  describe('number', () => {
+    it('accepts values inside the range, including its ends', () => {
+      expect(validateTemplateData([PH], { ph: 0 })).toEqual({})
+      expect(validateTemplateData([PH], { ph: 14 })).toEqual({})
+      expect(validateTemplateData([PH], { ph: 6.8 })).toEqual({})
+    })
+
+    it('rejects values outside the range, naming the unit', () => {
+      expect(validateTemplateData([DEPTH], { depth: 4 })).toEqual({ depth: 'Depth must be at least 5 cm' })
+      expect(validateTemplateData([DEPTH], { depth: 31 })).toEqual({ depth: 'Depth must be at most 30 cm' })
+      expect(validateTemplateData([PH], { ph: 15 })).toEqual({ ph: 'pH must be at most 14' })
+    })
+
+    it('rejects values that are not numbers', () => {
+      expect(validateTemplateData([PH], { ph: '6.8' })).toEqual({ ph: 'pH must be a number' })
+      expect(validateTemplateData([PH], { ph: NaN })).toEqual({ ph: 'pH must be a number' })
+    })
+  })
+
+  describe('select', () => {
+    it('accepts only one of the options', () => {
+      expect(validateTemplateData([TEXTURE], { texture: 'loam' })).toEqual({})
+      expect(validateTemplateData([TEXTURE], { texture: 'gravel' })).toEqual({ texture: 'Choose a valid option for Texture' })
+      expect(validateTemplateData([TEXTURE], { texture: ['loam'] })).toEqual({ texture: 'Choose a valid option for Texture' })
+    })
+  })
+
+  describe('multiselect', () => {
+    it('accepts any subset of the options', () => {
+      expect(validateTemplateData([PESTS], { pests: ['mites', 'aphids'] })).toEqual({})
+    })
+
+    it('rejects an unknown option or a single string', () => {
+      expect(validateTemplateData([PESTS], { pests: ['aphids', 'beetles'] })).toEqual({ pests: 'Choose valid options for Pests' })
+      expect(validateTemplateData([PESTS], { pests: 'aphids' })).toEqual({ pests: 'Choose valid options for Pests' })
+    })
+  })
+
+  describe('boolean', () => {
+    it('counts both answers as given, even when required', () => {
+      expect(validateTemplateData([IRRIGATED], { irrigated: false })).toEqual({})
+      expect(validateTemplateData([IRRIGATED], { irrigated: true })).toEqual({})
+      expect(validateTemplateData([IRRIGATED], { irrigated: null })).toEqual({})
+    })
+  })
+
+  describe('date', () => {
+    it('accepts a parseable date and rejects anything else', () => {
+      expect(validateTemplateData([SAMPLED], { sampled: '2026-10-18' })).toEqual({})
+      expect(validateTemplateData([SAMPLED], { sampled: 'last tuesday' })).toEqual({ sampled: 'Sampled on must be a valid date' })
+      expect(validateTemplateData([SAMPLED], { sampled: 20261018 })).toEqual({ sampled: 'Sampled on must be a valid date' })
+    })
+  })
+
+  describe('text', () => {
+    it('accepts any text', () => {
+      expect(validateTemplateData([NOTES], { notes: 'Dry topsoil near the fence' })).toEqual({})
+    })
+  })
+
+  it('reports every invalid field at once', () => {
+    expect(
+      validateTemplateData([PH, TEXTURE, PESTS, IRRIGATED, SAMPLED, NOTES], {
+        ph: 20,
+        texture: 'loam',
+        pests: ['beetles'],
+        irrigated: true,
+        sampled: 'soon',
+        notes: null,
+      })
+    ).toEqual({
+      ph: 'pH must be at most 14',
+      pests: 'Choose valid options for Pests',
+      sampled: 'Sampled on must be a valid date',
+    })
+  })
+})
@@ -0,0 +1,169 @@
+import { supabase, Tables } from './supabase'
+
+const TEMPLATE_CACHE_KEY = 'fdc.formTemplates'
+
+export type TemplateFieldType = 'number' | 'select' | 'multiselect' | 'boolean' | 'date' | 'text'
+
+export interface TemplateField {
+  key: string
+  label: string
+  type: TemplateFieldType
+  required: boolean
+  unit?: string
+  min?: number
+  max?: number
+  options?: string[]
+}
+
+export type TemplateValue = string | number | boolean | string[] | null
+
+export type TemplateData = Record<string, TemplateValue>
+
+export interface FormTemplate extends Omit<Tables<'form_templates'>, 'fields'> {
+  fields: TemplateField[]
+}
+
+export const FIELD_TYPE_LABELS: Record<TemplateFieldType, string> = {
+  number: 'Number',
+  select: 'Select',
+  multiselect: 'Multi-select',
+  boolean: 'Yes / No',
+  date: 'Date',
+  text: 'Text'
+}
+
+export function fieldKeyFromLabel(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+export function emptyTemplateData(fields: TemplateField[]): TemplateData {
+  return Object.fromEntries(fields.map(field => {
+    switch (field.type) {
+      case 'boolean':
+        return [field.key, false]
+      case 'multiselect':
+        return [field.key, []]
+      default:
+        return [field.key, null]
+    }
+  }))
+}
+
+export function validateTemplateData(fields: TemplateField[], data: TemplateData): Record<string, string> {
+  const errors: Record<string, string> = {}
+
+  fields.forEach(field => {
+    const value = data[field.key]
+    const isEmpty = value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+    if (isEmpty) {
+      // A boolean always has an answer, so "required" never fails for it.
+      if (field.required && field.type !== 'boolean') {
+        errors[field.key] = `${field.label} is required`
+      }
+      return
+    }
+
+    switch (field.type) {
+      case 'number': {
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          errors[field.key] = `${field.label} must be a number`
+        } else if (field.min !== undefined && value < field.min) {
+          errors[field.key] = `${field.label} must be at least ${field.min}${field.unit ? ` ${field.unit}` : ''}`
+        } else if (field.max !== undefined && value > field.max) {
+          errors[field.key] = `${field.label} must be at most ${field.max}${field.unit ? ` ${field.unit}` : ''}`
+        }
+        break
+      }
+      case 'select':
+        if (typeof value !== 'string' || !field.options?.includes(value)) {
+          errors[field.key] = `Choose a valid option for ${field.label}`
+        }
+        break
+      case 'multiselect':
+        if (!Array.isArray(value) || value.some(option => !field.options?.includes(option))) {
+          errors[field.key] = `Choose valid options for ${field.label}`
+        }
+        break
+      case 'date':
+        if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+          errors[field.key] = `${field.label} must be a valid date`
+        }
+        break
+    }
+  })
+
+  return errors
+}
+
+export function formatTemplateValue(field: TemplateField, value: TemplateValue): string {
+  if (value === null || value === undefined || value === '') return ''
+  if (Array.isArray(value)) return value.join(', ')
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (field.type === 'number' && field.unit) return `${value} ${field.unit}`
+  return String(value)
+}
+
+// Templated records still fill the legacy `value` column so the table,
+// exports and chatbot keep working on a readable summary.
+export function summarizeTemplateData(fields: TemplateField[], data: TemplateData): string {
+  return fields
+    .map(field => {
+      const formatted = formatTemplateValue(field, data[field.key])
+      return formatted ? `${field.label}: ${formatted}` : ''
+    })
+    .filter(Boolean)
+    .join('; ')
+}
+
+export function validateTemplateDefinition(name: string, fields: TemplateField[]): string | null {
+  if (!name.trim()) return 'Template name is required'
+  if (fields.length === 0) return 'Add at least one field'
+
+  const keys = new Set<string>()
+  for (const field of fields) {
+    if (!field.label.trim() || !field.key) return 'Every field needs a label'
+    if (keys.has(field.key)) return `Two fields share the name "${field.label}"`
+    keys.add(field.key)
+
+    if ((field.type === 'select' || field.type === 'multiselect') && !field.options?.length) {
+      return `${field.label} needs at least one option`
+    }
+    if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      return `${field.label} has a minimum above its maximum`
+    }
+  }
+  return null
+}
+
+function readCachedTemplates(): FormTemplate[] {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATE_CACHE_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+// Crews pick templates in the field, so the last list fetched is kept on the
+// device and used whenever the server cannot be reached.
+export async function loadActiveTemplates(): Promise<FormTemplate[]> {
+  try {
+    const { data, error } = await supabase
+      .from('form_templates')
+      .select('*')
+      .eq('is_active', true)
+      .order('name')
+
+    if (error) throw error
+
+    const templates = (data || []) as unknown as FormTemplate[]
+    localStorage.setItem(TEMPLATE_CACHE_KEY, JSON.stringify(templates))
+    return templates
+  } catch {
+    return readCachedTemplates()
+  }
+}
\ No newline at end of file
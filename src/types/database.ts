@@ -1,4 +1,12 @@
-export interface Database {
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
   public: {
     Tables: {
       field_records: {
@@ -9,14 +17,36 @@ export interface Database {
           location: string
           timestamp: string
           user_id: string
+          project_id: string
+          version: number
+          updated_at: string
+          template_id: string | null
+          data: Json | null
+          deleted_at: string | null
+          latitude: number | null
+          longitude: number | null
+          accuracy: number | null
+          altitude: number | null
+          location_source: 'gps' | 'manual' | null
         }
         Insert: {
           id?: string
           field: string
           value: string
-          location: string
+          location?: string
           timestamp?: string
           user_id: string
+          project_id: string
+          version?: number
+          updated_at?: string
+          template_id?: string | null
+          data?: Json | null
+          deleted_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          accuracy?: number | null
+          altitude?: number | null
+          location_source?: 'gps' | 'manual' | null
         }
         Update: {
           id?: string
@@ -25,30 +55,329 @@ export interface Database {
           location?: string
           timestamp?: string
           user_id?: string
+          project_id?: string
+          version?: number
+          updated_at?: string
+          template_id?: string | null
+          data?: Json | null
+          deleted_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          accuracy?: number | null
+          altitude?: number | null
+          location_source?: 'gps' | 'manual' | null
         }
+        Relationships: []
       }
-      users: {
+      form_templates: {
         Row: {
           id: string
-          username: string
-          password_hash: string
-          role: 'admin' | 'user'
+          name: string
+          description: string
+          fields: Json
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string
+          fields?: Json
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string
+          fields?: Json
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      field_record_revisions: {
+        Row: {
+          id: string
+          record_id: string
+          version: number
+          snapshot: Json
+          edited_by: string | null
+          edited_at: string
+        }
+        Insert: {
+          id?: string
+          record_id: string
+          version: number
+          snapshot: Json
+          edited_by?: string | null
+          edited_at?: string
+        }
+        Update: {
+          id?: string
+          record_id?: string
+          version?: number
+          snapshot?: Json
+          edited_by?: string | null
+          edited_at?: string
+        }
+        Relationships: []
+      }
+      field_record_attachments: {
+        Row: {
+          id: string
+          record_id: string
+          user_id: string
+          storage_path: string
+          file_name: string
+          mime_type: string
+          size_bytes: number
+          kind: 'image' | 'audio' | 'file'
+          captured_at: string | null
+          latitude: number | null
+          longitude: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          record_id: string
+          user_id: string
+          storage_path: string
+          file_name: string
+          mime_type: string
+          size_bytes: number
+          kind: 'image' | 'audio' | 'file'
+          captured_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          record_id?: string
+          user_id?: string
+          storage_path?: string
+          file_name?: string
+          mime_type?: string
+          size_bytes?: number
+          kind?: 'image' | 'audio' | 'file'
+          captured_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      organizations: {
+        Row: {
+          id: string
+          name: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      projects: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          description: string
+          is_default: boolean
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
+          organization_id: string
+          name: string
+          description?: string
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          description?: string
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'projects_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      organization_members: {
+        Row: {
+          organization_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          organization_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          organization_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'organization_members_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      project_members: {
+        Row: {
+          project_id: string
+          user_id: string
+          role: Database['public']['Enums']['app_role']
+          created_at: string
+        }
+        Insert: {
+          project_id: string
+          user_id: string
+          role?: Database['public']['Enums']['app_role']
+          created_at?: string
+        }
+        Update: {
+          project_id?: string
+          user_id?: string
+          role?: Database['public']['Enums']['app_role']
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'project_members_project_id_fkey'
+            columns: ['project_id']
+            isOneToOne: false
+            referencedRelation: 'projects'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      profiles: {
+        Row: {
+          id: string
           username: string
-          password_hash: string
-          role?: 'admin' | 'user'
+          display_name: string
+          units: string
+          timezone: string
+          role: Database['public']['Enums']['app_role']
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          username?: string
+          display_name?: string
+          units?: string
+          timezone?: string
+          role?: Database['public']['Enums']['app_role']
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
           username?: string
-          password_hash?: string
-          role?: 'admin' | 'user'
+          display_name?: string
+          units?: string
+          timezone?: string
+          role?: Database['public']['Enums']['app_role']
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      kb_articles: {
+        Row: {
+          id: string
+          title: string
+          body: string
+          published: boolean
+          search: unknown
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          title: string
+          body: string
+          published?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          title?: string
+          body?: string
+          published?: boolean
+          created_by?: string | null
           created_at?: string
+          updated_at?: string
         }
+        Relationships: []
+      }
+      chat_sessions: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
       chatbot_logs: {
         Row: {
@@ -57,6 +386,9 @@ export interface Database {
           message: string
           response: string
           timestamp: string
+          session_id: string | null
+          citations: Json | null
+          truncated: boolean
         }
         Insert: {
           id?: string
@@ -64,6 +396,9 @@ export interface Database {
           message: string
           response: string
           timestamp?: string
+          session_id?: string | null
+          citations?: Json | null
+          truncated?: boolean
         }
         Update: {
           id?: string
@@ -71,7 +406,41 @@ export interface Database {
           message?: string
           response?: string
           timestamp?: string
+          session_id?: string | null
+          citations?: Json | null
+          truncated?: boolean
+        }
+        Relationships: []
+      }
+      chatbot_feedback: {
+        Row: {
+          id: string
+          log_id: string
+          user_id: string
+          rating: number
+          comment: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          log_id: string
+          user_id: string
+          rating: number
+          comment?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          log_id?: string
+          user_id?: string
+          rating?: number
+          comment?: string
+          created_at?: string
+          updated_at?: string
         }
+        Relationships: []
       }
       activity_logs: {
         Row: {
@@ -95,7 +464,110 @@ export interface Database {
           details?: string
           timestamp?: string
         }
+        Relationships: []
       }
     }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      has_project_role: {
+        Args: {
+          project: string
+          roles: Database['public']['Enums']['app_role'][]
+        }
+        Returns: boolean
+      }
+      is_project_member: {
+        Args: {
+          project: string
+        }
+        Returns: boolean
+      }
+      is_organization_member: {
+        Args: {
+          organization: string
+          member?: string
+        }
+        Returns: boolean
+      }
+      can_edit_field_record: {
+        Args: {
+          project: string
+          owner: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          roles: Database['public']['Enums']['app_role'][]
+        }
+        Returns: boolean
+      }
+      list_my_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          created_at: string
+          refreshed_at: string
+          user_agent: string
+          ip: string
+          is_current: boolean
+        }[]
+      }
+      revoke_my_session: {
+        Args: {
+          session_id: string
+        }
+        Returns: undefined
+      }
+      purge_deleted_field_records: {
+        Args: {
+          retention_days?: number
+        }
+        Returns: number
+      }
+      chatbot_feedback_daily: {
+        Args: {
+          days?: number
+        }
+        Returns: {
+          day: string
+          positive: number
+          negative: number
+        }[]
+      }
+      chatbot_feedback_comments: {
+        Args: {
+          max_results?: number
+        }
+        Returns: {
+          id: string
+          rating: number
+          comment: string
+          message: string
+          response: string
+          created_at: string
+        }[]
+      }
+      search_kb_articles: {
+        Args: {
+          search_query: string
+          max_results?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          body: string
+          rank: number
+        }[]
+      }
+    }
+    Enums: {
+      app_role: 'admin' | 'supervisor' | 'collector' | 'viewer'
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { answerTokens } from './answer.ts'
+import { createMockProvider } from './providers/mock.ts'
+import type { ChatRequest, LlmProvider } from './providers/index.ts'
+import { RecordAction, createToolRunner, toolsFor } from './tools.ts'
+import type { FieldRecordRow } from './retrieval.ts'
+
+const USER = '00000000-0000-4000-8000-000000000001'
+const PROJECT = '00000000-0000-4000-8000-0000000000aa'
+
+const HUMIDITY_OLD = '00000000-0000-4000-8000-000000000101'
+const HUMIDITY_NEW = '00000000-0000-4000-8000-000000000102'
+const PH = '00000000-0000-4000-8000-000000000103'
+
+type Row = FieldRecordRow & { project_id: string; deleted_at: string | null }
+
+// An in-memory stand-in for the PostgREST calls the tools make.
+const server = {
+  records: [] as Row[],
+  activities: [] as { action: string; details: string }[],
+  canWrite: true,
+}
+
+class Query {
+  private filters: ((row: Row) => boolean)[] = []
+  private limitTo = Infinity
+
+  constructor(private table: string) {}
+
+  select() {
+    return this
+  }
+
+  is(column: keyof Row, value: null) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  eq(column: keyof Row, value: unknown) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  ilike(column: keyof Row, pattern: string) {
+    const text = pattern.replace(/\\(.)/g, '$1').toLowerCase()
+    this.filters.push(row => String(row[column]).toLowerCase() === text)
+    return this
+  }
+
+  gte(column: keyof Row, value: string) {
+    this.filters.push(row => String(row[column]) >= value)
+    return this
+  }
+
+  lt(column: keyof Row, value: string) {
+    this.filters.push(row => String(row[column]) < value)
+    return this
+  }
+
+  order() {
+    return this
+  }
+
+  limit(count: number) {
+    this.limitTo = count
+    return this
+  }
+
+  insert(activity: { action: string; details: string }) {
+    server.activities.push(activity)
+    return Promise.resolve({ error: null })
+  }
+
+  then<T>(resolve: (result: { data: Row[]; error: null }) => T) {
+    const rows = server.records
+      .filter(row => this.filters.every(filter => filter(row)))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, this.limitTo)
+    return Promise.resolve({ data: this.table === 'field_records' ? rows : [], error: null }).then(resolve)
+  }
+}
+
+const client = {
+  from: (table: string) => new Query(table),
+  rpc: async () => ({ data: server.canWrite, error: null }),
+} as unknown as SupabaseClient
+
+function record(id: string, field: string, value: string, timestamp: string): Row {
+  return { id, field, value, location: 'north plot', timestamp, project_id: PROJECT, deleted_at: null }
+}
+
+async function ask(
+  message: string,
+  options: { provider?: LlmProvider | null; system?: string } = {}
+) {
+  const actions: RecordAction[] = []
+  const tools = createToolRunner(client, USER, PROJECT, 0, action => actions.push(action))
+  const request: ChatRequest = {
+    system: options.system ?? 'User data:\nRecords matched: 0',
+    history: [],
+    message,
+    tools: await toolsFor(client, PROJECT),
+  }
+  const provider = options.provider === undefined ? createMockProvider() : options.provider
+
+  let answer = ''
+  for await (const token of answerTokens(
+    provider,
+    request,
+    tools,
+    async () => 'Fallback answer',
+    new AbortController().signal
+  )) {
+    answer += token
+  }
+  return { answer, actions, records: tools.records }
+}
+
+beforeEach(() => {
+  server.records = [
+    record(HUMIDITY_OLD, 'humidity', '61', '2026-10-16T08:00:00Z'),
+    record(HUMIDITY_NEW, 'humidity', '64', '2026-10-17T08:00:00Z'),
+    record(PH, 'soil pH', '6.8', '2026-10-17T09:00:00Z'),
+  ]
+  server.activities = []
+  server.canWrite = true
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('answerTokens with the mock provider', () => {
+  it('answers from the records in the prompt and cites them', async () => {
+    const { answer } = await ask('what is the humidity?', {
+      system: `User data:\nRecords matched: 2\n- [rec:${HUMIDITY_NEW}] humidity = 64`,
+    })
+
+    expect(answer).toBe(`Mock answer to "what is the humidity?" (turn 1). Records matched: 2 [rec:${HUMIDITY_NEW}]`)
+  })
+
+  it('runs query_records for "show me" and cites what it returned', async () => {
+    const { answer, records } = await ask('show me humidity')
+
+    expect(records.map(row => row.id)).toEqual([HUMIDITY_NEW, HUMIDITY_OLD])
+    expect(answer).toContain('query_records returned {"matched":2,"returned":2')
+    expect(answer).toContain(`[rec:${HUMIDITY_NEW}] [rec:${HUMIDITY_OLD}]`)
+    expect(server.activities).toEqual([
+      expect.objectContaining({ action: 'CHATBOT_TOOL', details: expect.stringContaining('2 records matched') }),
+    ])
+  })
+
+  it('proposes a record for "log" instead of saving it', async () => {
+    const { answer, actions } = await ask('log soil pH 6.8 at south plot')
+
+    expect(actions).toEqual([
+      { id: expect.any(String), tool: 'create_record', record: { field: 'soil pH', value: '6.8', location: 'south plot' } },
+    ])
+    expect(answer).toContain('create_record returned {"status":"awaiting_confirmation"')
+    expect(server.records).toHaveLength(3)
+    expect(server.activities[0].details).toContain('awaiting confirmation')
+  })
+
+  it('does not offer create_record to a user who cannot add records', async () => {
+    server.canWrite = false
+
+    const { answer, actions } = await ask('log soil pH 6.8 at south plot')
+
+    expect(actions).toEqual([])
+    expect(answer).toMatch(/^Mock answer to "log soil pH 6.8 at south plot" \(turn 1\)/)
+    expect(server.activities).toEqual([])
+  })
+
+  it('answers from the fallback when no provider is configured', async () => {
+    const { answer } = await ask('show me humidity', { provider: null })
+
+    expect(answer).toBe('Fallback answer')
+  })
+
+  it('answers from the fallback when the provider fails before any text', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const failing: LlmProvider = {
+      name: 'failing',
+      // eslint-disable-next-line require-yield
+      async *stream() {
+        throw new Error('unreachable')
+      },
+    }
+
+    const { answer } = await ask('what is the humidity?', { provider: failing })
+
+    expect(answer).toBe('Fallback answer')
+  })
+
+  it('stops streaming once the request is aborted', async () => {
+    const abort = new AbortController()
+    const tools = createToolRunner(client, USER, PROJECT, 0, () => {})
+    const request: ChatRequest = { system: 'Records matched: 0', history: [], message: 'what is the humidity?' }
+
+    const tokens: string[] = []
+    for await (const token of answerTokens(createMockProvider(), request, tools, async () => 'Fallback answer', abort.signal)) {
+      tokens.push(token)
+      abort.abort()
+    }
+
+    expect(tokens).toEqual(['Mock '])
+  })
+})
@@ -0,0 +1,46 @@
+import type { ChatRequest, LlmProvider, ToolCall } from './providers/index.ts'
+import type { ToolRunner } from './tools.ts'
+
+// Rounds of tool calls allowed per message before the model must answer.
+const MAX_TOOL_ROUNDS = 3
+
+// Streams the model's answer, or a computed one when no model is configured
+// or it fails before saying anything. A failure part-way through is rethrown
+// so the caller can keep what arrived.
+//
+// Tool calls are run between rounds and their results handed back to the
+// model; the last round offers no tools so it has to answer.
+export async function* answerTokens(
+  provider: LlmProvider | null,
+  request: ChatRequest,
+  tools: ToolRunner,
+  fallback: () => Promise<string>,
+  signal: AbortSignal
+): AsyncGenerator<string> {
+  let started = false
+  if (provider) {
+    try {
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const calls: ToolCall[] = []
+        const roundRequest = round < MAX_TOOL_ROUNDS ? request : { ...request, tools: undefined }
+        for await (const chunk of provider.stream(roundRequest, signal)) {
+          if (chunk.type === 'tool_call') {
+            calls.push(chunk.call)
+          } else {
+            started = true
+            yield chunk.text
+          }
+        }
+        if (calls.length === 0 || signal.aborted) break
+
+        const results = []
+        for (const call of calls) results.push(await tools.run(call))
+        request = { ...request, toolRounds: [...(request.toolRounds ?? []), results] }
+      }
+    } catch (error) {
+      if (started || signal.aborted) throw error
+      console.error(`LLM provider "${provider.name}" failed:`, error)
+    }
+  }
+  if (!started) yield await fallback()
+}
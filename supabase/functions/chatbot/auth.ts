@@ -0,0 +1,45 @@
+import { createClient, SupabaseClient, User } from 'npm:@supabase/supabase-js@2'
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+export interface Caller {
+  user: User
+  // Acts as the caller, so row level security applies to every query.
+  client: SupabaseClient
+}
+
+// Resolves the caller from the Supabase JWT in the Authorization header. The
+// anon key is itself a valid JWT, so a token without a user is rejected too.
+export async function authenticate(req: Request): Promise<Caller> {
+  const authorization = req.headers.get('Authorization') ?? ''
+  const token = authorization.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization token')
+  }
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) {
+    throw new HttpError(401, 'Invalid or expired session')
+  }
+  if (data.user.is_anonymous) {
+    throw new HttpError(403, 'Sign in with an account to use the assistant')
+  }
+
+  return { user: data.user, client }
+}
+
+// For writes clients are not allowed to make themselves, such as chat logs.
+export function createServiceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,65 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { RetrievalContext, summarizeContext } from './retrieval.ts'
+
+interface KnowledgeArticle {
+  id: string
+  title: string
+  body: string
+  rank: number
+}
+
+const MAX_ARTICLES = 2
+const MAX_LISTED_FIELDS = 8
+
+// Words that make a question about the user's records even when it names no
+// field, site or period, e.g. "how many records do I have?"
+const DATA_QUESTION = /\b(my|our|latest|last|average|mean|count|how many|total|minimum|maximum|highest|lowest)\b/i
+
+async function searchKnowledgeBase(client: SupabaseClient, question: string): Promise<KnowledgeArticle[]> {
+  const { data, error } = await client.rpc('search_kb_articles', {
+    search_query: question,
+    max_results: MAX_ARTICLES,
+  })
+
+  if (error) throw error
+  return (data ?? []) as KnowledgeArticle[]
+}
+
+function asksAboutRecords(question: string, context: RetrievalContext): boolean {
+  const { range, fields, locations } = context.filters
+  return range !== null || fields.length > 0 || locations.length > 0 || DATA_QUESTION.test(question)
+}
+
+function noMatch(context: RetrievalContext | null): string {
+  const fields = context?.aggregates.map(item => item.field).slice(0, MAX_LISTED_FIELDS) ?? []
+  return [
+    'I couldn\'t find a help article or any of your records that match that question.',
+    fields.length > 0
+      ? `Try asking about a field you record, such as ${fields.map(field => `"${field}"`).join(', ')}, ` +
+        'a site, or a period like "last week".'
+      : 'Try asking about a field you record, a site, or a period like "last week".',
+  ].join(' ')
+}
+
+// Answers without a language model: computed figures over the user's own
+// records when the question is about them, plus the best-ranked knowledge
+// base articles. Used when no provider is configured or it is unreachable.
+export async function fallbackAnswer(
+  client: SupabaseClient,
+  question: string,
+  context: RetrievalContext | null
+): Promise<string> {
+  const parts: string[] = []
+
+  const summary = context && asksAboutRecords(question, context) ? summarizeContext(context) : null
+  if (summary) parts.push(summary)
+
+  try {
+    const articles = await searchKnowledgeBase(client, question)
+    articles.forEach(article => parts.push(`${article.title}: ${article.body}`))
+  } catch (error) {
+    console.error('Knowledge base search error:', error)
+  }
+
+  return parts.length > 0 ? parts.join('\n\n') : noMatch(context)
+}
@@ -1,3 +1,12 @@
+import { HttpError, authenticate, createServiceClient } from './auth.ts'
+import { FieldRecordRow, RetrievalContext, formatContext, retrieveContext } from './retrieval.ts'
+import { fallbackAnswer } from './fallback.ts'
+import { loadHistory, resolveSession, touchSession } from './sessions.ts'
+import { ChatRequest, createProvider } from './providers/index.ts'
+import { localDate } from './question.ts'
+import { RecordAction, createToolRunner, toolsFor } from './tools.ts'
+import { answerTokens } from './answer.ts'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -6,8 +15,101 @@ const corsHeaders = {
 
 interface ChatbotRequest {
   message: string
-  user_id: string
-  apiKey?: string
+  // Optional; the caller is taken from the JWT, and a user_id that disagrees
+  // with it is rejected rather than trusted.
+  user_id?: string
+  // Omitted to start a new conversation.
+  session_id?: string
+  // The project whose records the assistant reads; RLS still applies.
+  project_id?: string
+  // Date.getTimezoneOffset() on the caller's device, for reading "today" and
+  // "last week" in their local time.
+  utc_offset_minutes?: number
+}
+
+const CITATION_PATTERN = /\[rec:([0-9a-f-]{36})\]/g
+
+const SYSTEM_PROMPT = `You are a helpful AI assistant specializing in field data collection and analysis. You help users understand their agricultural or scientific field data, provide insights, and offer guidance on best practices. Keep responses concise and practical.
+
+Format answers in Markdown; lists and small tables are fine. To show how a value changes over time or compares across sites, add a chart as a fenced code block with the language "chart" containing JSON like {"title": "Soil pH", "type": "line", "unit": "pH", "points": [{"label": "2026-10-01", "value": 6.4}]}; use "bar" for comparisons. Chart only values that appear in the user data or tool results.
+
+When the question is about the user's own data, answer only from the "User data" section below and never invent readings. Cite each record you rely on as [rec:<id>] exactly as written there, and cite any period you summarize as [range:YYYY-MM-DD/YYYY-MM-DD]. If the data section has no matching records, say so.
+
+You can also call tools. Use query_records or summarize_field when the data section does not cover what was asked, and cite the records they return the same way. Use create_record when the user asks to log, record or add a measurement; the user confirms it in the app, so tell them to check the card rather than saying it was saved.`
+
+// Everything the client needs to turn citation tokens into links: the quoted
+// records by id, whether retrieved up front or returned by a tool, and the
+// filters the retrieval used.
+function buildCitations(response: string, context: RetrievalContext | null, toolRecords: FieldRecordRow[]) {
+  if (!context && toolRecords.length === 0) return null
+
+  const cited = new Set([...response.matchAll(CITATION_PATTERN)].map(match => match[1]))
+  const available = new Map([...(context?.records ?? []), ...toolRecords].map(record => [record.id, record]))
+  return {
+    records: [...available.values()].filter(record => cited.has(record.id)),
+    range: context?.filters.range ?? null,
+    fields: context?.filters.fields ?? [],
+    locations: context?.filters.locations ?? [],
+    total: context?.total ?? 0,
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// Drains the answer, stopping early when the caller goes away. Whatever was
+// produced by then is still returned, flagged as truncated.
+async function collectAnswer(
+  tokens: AsyncIterable<string>,
+  signal: AbortSignal,
+  onToken: (text: string) => void
+): Promise<{ response: string; truncated: boolean }> {
+  let response = ''
+  try {
+    for await (const token of tokens) {
+      if (signal.aborted) break
+      response += token
+      onToken(token)
+    }
+  } catch (error) {
+    if (!signal.aborted) console.error('Answer stream interrupted:', error)
+    return { response, truncated: true }
+  }
+  return { response, truncated: signal.aborted }
+}
+
+function eventStreamResponse(
+  produce: (send: (event: string, data: unknown) => void) => Promise<void>,
+  abort: AbortController
+): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+      try {
+        await produce(send)
+      } catch (error) {
+        console.error('Chatbot stream error:', error)
+        send('error', { error: 'An error occurred while processing your request' })
+      }
+      if (!abort.signal.aborted) controller.close()
+    },
+    // Called when the browser stops reading, e.g. the user pressed Stop.
+    cancel() {
+      abort.abort()
+    },
+  })
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  })
 }
 
 Deno.serve(async (req: Request) => {
@@ -19,114 +121,129 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { message, user_id, apiKey }: ChatbotRequest = await req.json()
-
-    if (!message || !user_id) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields' }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      )
+    const { user, client } = await authenticate(req)
+    const { message, user_id, session_id, project_id, utc_offset_minutes }: ChatbotRequest = await req.json()
+
+    if (!message) {
+      return jsonResponse({ error: 'Missing required fields' }, 400)
     }
 
-    if (!apiKey) {
-      const fallbackResponse = generateFallbackResponse(message)
-      return new Response(
-        JSON.stringify({ response: fallbackResponse }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      )
+    if (user_id && user_id !== user.id) {
+      return jsonResponse({ error: 'user_id does not match the signed-in user' }, 403)
     }
 
-    const geminiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: `You are a helpful AI assistant specializing in field data collection and analysis. You help users understand their agricultural or scientific field data, provide insights, and offer guidance on best practices. Keep responses concise and practical.\n\nUser: ${message}`
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          maxOutputTokens: 500,
-          temperature: 0.7,
-        },
-      }),
-    })
+    const service = createServiceClient()
+    const session = await resolveSession(client, service, user.id, session_id, message)
+    const history = session_id ? await loadHistory(client, session.id) : []
 
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text()
-      console.error(`Gemini API error: ${geminiResponse.status} - ${errorText}`)
-      
-      const fallbackResponse = generateFallbackResponse(message)
-      return new Response(
-        JSON.stringify({ response: fallbackResponse }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
+    // A failed lookup should not take the whole assistant down; it just
+    // answers without the user's data.
+    let context: RetrievalContext | null = null
+    try {
+      context = await retrieveContext(
+        client,
+        project_id ?? null,
+        message,
+        utc_offset_minutes ?? 0,
+        history.map(turn => turn.message)
       )
+    } catch (error) {
+      console.error('Record retrieval error:', error)
     }
 
-    const geminiData = await geminiResponse.json()
-    const aiResponse = geminiData.candidates?.[0]?.content?.parts?.[0]?.text || 'I apologize, but I encountered an error processing your request.'
+    // Provider keys are function secrets and never reach the browser.
+    const provider = createProvider()
+    const offsetMinutes = utc_offset_minutes ?? 0
+    const request: ChatRequest = {
+      system:
+        `${SYSTEM_PROMPT}\n\nToday is ${localDate(new Date(), offsetMinutes)} in the user's time zone.` +
+        `\n\nUser data:\n${context ? formatContext(context) : 'Unavailable.'}`,
+      history,
+      message,
+      tools: await toolsFor(client, project_id ?? null),
+    }
+    const fallback = () => fallbackAnswer(client, message, context)
 
-    return new Response(
-      JSON.stringify({ response: aiResponse }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    // Proposed writes go to the client as they happen; the listener is set
+    // once the response format is known.
+    const actions: RecordAction[] = []
+    let onAction: (action: RecordAction) => void = () => {}
+    const tools = createToolRunner(client, user.id, project_id ?? null, offsetMinutes, action => {
+      actions.push(action)
+      onAction(action)
+    })
+
+    const saveTurn = async (response: string, truncated: boolean) => {
+      const citations = buildCitations(response, context, tools.records)
+      const { data: log, error: logError } = await service
+        .from('chatbot_logs')
+        .insert({
+          user_id: user.id,
+          session_id: session.id,
+          message,
+          response,
+          citations,
+          truncated,
+          timestamp: new Date().toISOString(),
+        })
+        .select('id')
+        .single()
+
+      if (logError) {
+        console.error('Error writing chat log:', logError)
+      } else {
+        await touchSession(service, session.id).catch(error => console.error('Error updating chat session:', error))
       }
-    )
+      // The log id is what the client attaches feedback to.
+      return { citations, log_id: log?.id ?? null }
+    }
+
+    if (!req.headers.get('Accept')?.includes('text/event-stream')) {
+      const { response, truncated } = await collectAnswer(
+        answerTokens(provider, request, tools, fallback, req.signal),
+        req.signal,
+        () => {}
+      )
+      const saved = await saveTurn(response, truncated)
+      return jsonResponse({
+        response,
+        ...saved,
+        actions,
+        truncated,
+        session_id: session.id,
+        session_title: session.title,
+      })
+    }
+
+    // Streamed as server-sent events: `session` first, so a stopped answer
+    // still belongs to a conversation, then `token`s interleaved with any
+    // `action` cards, then `done`.
+    const abort = new AbortController()
+    req.signal.addEventListener('abort', () => abort.abort())
+    return eventStreamResponse(async send => {
+      send('session', { session_id: session.id, session_title: session.title })
+      onAction = action => send('action', action)
+      const { response, truncated } = await collectAnswer(
+        answerTokens(provider, request, tools, fallback, abort.signal),
+        abort.signal,
+        text => send('token', { text })
+      )
+      send('done', { ...(await saveTurn(response, truncated)), truncated })
+    }, abort)
 
   } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
     console.error('Chatbot function error:', error)
-    
-    return new Response(
-      JSON.stringify({ 
+
+    return jsonResponse(
+      {
         error: 'An error occurred while processing your request',
         response: 'I apologize, but I\'m having trouble connecting right now. Please try again later.'
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
+      },
+      500
     )
   }
 })
-
-function generateFallbackResponse(message: string): string {
-  const lowerMessage = message.toLowerCase()
-  
-  if (lowerMessage.includes('temperature')) {
-    return 'For temperature measurements, ensure your sensors are calibrated and protected from direct sunlight. Normal soil temperatures range from 50-80°F depending on season and depth. Consider measuring at multiple depths for better insights.'
-  }
-  
-  if (lowerMessage.includes('humidity')) {
-    return 'Humidity levels are crucial for crop health. Ideal relative humidity varies by crop but generally ranges from 40-70%. High humidity can lead to fungal issues, while low humidity may stress plants. Monitor throughout the day as levels fluctuate.'
-  }
-  
-  if (lowerMessage.includes('soil') || lowerMessage.includes('ph')) {
-    return 'Soil pH affects nutrient availability. Most crops prefer slightly acidic to neutral soil (pH 6.0-7.0). Test soil pH regularly and consider amendments like lime to raise pH or sulfur to lower it. Take samples from multiple locations for accuracy.'
-  }
-  
-  if (lowerMessage.includes('data') || lowerMessage.includes('record')) {
-    return 'Consistent data collection is key to successful field management. Record measurements at the same time daily when possible, maintain detailed location notes, and look for patterns over time. Your data helps identify trends and optimize practices.'
-  }
-  
-  if (lowerMessage.includes('help') || lowerMessage.includes('how')) {
-    return 'I\'m here to help with your field data questions! I can provide insights on temperature, humidity, soil conditions, and data collection best practices. Feel free to ask about specific measurements or general field management guidance.'
-  }
-  
-  return 'Thank you for your question! I can provide general guidance on field data practices. Please ensure consistent data collection timing, record detailed location information, and look for patterns in your data over time. For specific technical questions, consider consulting with agricultural extension services or field specialists.'
-}
\ No newline at end of file
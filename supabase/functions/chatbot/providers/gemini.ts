@@ -0,0 +1,73 @@
+import { readEventData } from './sse.ts'
+import { ChatRequest, LlmProvider, ProviderError, ProviderSettings, StreamChunk } from './types.ts'
+
+const API_BASE = 'https://generativelanguage.googleapis.com/v1beta'
+
+interface GeminiPart {
+  text?: string
+  functionCall?: { name: string; args?: Record<string, unknown> }
+}
+
+function buildContents({ history, message, toolRounds = [] }: ChatRequest) {
+  return [
+    ...history.flatMap(turn => [
+      { role: 'user', parts: [{ text: turn.message }] },
+      { role: 'model', parts: [{ text: turn.response }] },
+    ]),
+    { role: 'user', parts: [{ text: message }] },
+    ...toolRounds.flatMap(round => [
+      { role: 'model', parts: round.map(({ call }) => ({ functionCall: { name: call.name, args: call.args } })) },
+      {
+        role: 'user',
+        parts: round.map(({ call, result }) => ({
+          functionResponse: { name: call.name, response: { result } },
+        })),
+      },
+    ]),
+  ]
+}
+
+export function createGeminiProvider(apiKey: string, settings: ProviderSettings): LlmProvider {
+  return {
+    name: 'gemini',
+
+    async *stream(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<StreamChunk> {
+      const response = await fetch(`${API_BASE}/models/${settings.model}:streamGenerateContent?alt=sse`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: request.system }] },
+          contents: buildContents(request),
+          ...(request.tools?.length ? { tools: [{ functionDeclarations: request.tools }] } : {}),
+          generationConfig: {
+            maxOutputTokens: settings.maxTokens,
+            temperature: settings.temperature,
+          },
+        }),
+        signal,
+      })
+
+      if (!response.ok || !response.body) {
+        throw new ProviderError('Gemini', response.status, await response.text())
+      }
+
+      for await (const data of readEventData(response.body)) {
+        const parts: GeminiPart[] = JSON.parse(data).candidates?.[0]?.content?.parts ?? []
+        for (const part of parts) {
+          if (part.text) {
+            yield { type: 'text', text: part.text }
+          } else if (part.functionCall) {
+            // Gemini does not number its calls; results are matched by name.
+            yield {
+              type: 'tool_call',
+              call: { id: crypto.randomUUID(), name: part.functionCall.name, args: part.functionCall.args ?? {} },
+            }
+          }
+        }
+      }
+    },
+  }
+}
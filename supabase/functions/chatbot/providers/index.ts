@@ -0,0 +1,58 @@
+import { createGeminiProvider } from './gemini.ts'
+import { createMockProvider } from './mock.ts'
+import { createOpenAiProvider } from './openai.ts'
+import { LlmProvider, ProviderSettings } from './types.ts'
+
+export type { ChatRequest, LlmProvider, ToolCall, ToolDefinition, ToolResult } from './types.ts'
+
+const DEFAULTS: Record<string, ProviderSettings> = {
+  GEMINI: { model: 'gemini-2.5-flash', temperature: 0.7, maxTokens: 500 },
+  OPENAI: { model: 'gpt-4o-mini', temperature: 0.7, maxTokens: 500 },
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Deno.env.get(name)
+  const parsed = Number(value)
+  return value && Number.isFinite(parsed) ? parsed : fallback
+}
+
+// Settings are read per provider, e.g. GEMINI_MODEL, OPENAI_TEMPERATURE,
+// OPENAI_MAX_TOKENS.
+function readSettings(prefix: string): ProviderSettings {
+  const defaults = DEFAULTS[prefix]
+  return {
+    model: Deno.env.get(`${prefix}_MODEL`) || defaults.model,
+    temperature: readNumber(`${prefix}_TEMPERATURE`, defaults.temperature),
+    maxTokens: readNumber(`${prefix}_MAX_TOKENS`, defaults.maxTokens),
+  }
+}
+
+// LLM_PROVIDER picks the adapter: gemini, openai or mock. Left unset, Gemini
+// is used when its key is configured. Returns null when no model is
+// available, and the caller answers from computed summaries instead.
+export function createProvider(): LlmProvider | null {
+  const configured = Deno.env.get('LLM_PROVIDER')?.toLowerCase()
+  const geminiKey = Deno.env.get('GEMINI_API_KEY')
+
+  switch (configured ?? (geminiKey ? 'gemini' : 'none')) {
+    case 'gemini':
+      if (!geminiKey) {
+        console.error('LLM_PROVIDER is gemini but GEMINI_API_KEY is not set')
+        return null
+      }
+      return createGeminiProvider(geminiKey, readSettings('GEMINI'))
+    case 'openai':
+      return createOpenAiProvider(
+        Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        Deno.env.get('OPENAI_API_KEY'),
+        readSettings('OPENAI')
+      )
+    case 'mock':
+      return createMockProvider()
+    case 'none':
+      return null
+    default:
+      console.error(`Unknown LLM_PROVIDER "${configured}"`)
+      return null
+  }
+}
@@ -0,0 +1,63 @@
+import { ChatRequest, LlmProvider, StreamChunk } from './types.ts'
+
+const CREATE_PATTERN = /^(?:log|record|add)\s+(.+?)\s+(-?\d+(?:\.\d+)?\s*%?)(?:\s+(?:at|in)\s+(.+?))?\.?$/i
+const QUERY_PATTERN = /^(?:show|list|find)(?:\s+me)?\s+([\w-]+)/i
+const RECORD_TOKEN = /\[rec:[0-9a-f-]{36}\]/g
+
+// The tool call a simple command maps to, if any: "log soil pH 6.8 at north
+// plot" creates a record, "show me humidity" queries one field.
+function toolCallFor(message: string) {
+  const create = message.trim().match(CREATE_PATTERN)
+  if (create) {
+    return { name: 'create_record', args: { field: create[1], value: create[2].trim(), location: create[3] ?? '' } }
+  }
+  const query = message.trim().match(QUERY_PATTERN)
+  if (query) {
+    return { name: 'query_records', args: { field: query[1] } }
+  }
+  return null
+}
+
+function citedIds(value: unknown): string[] {
+  return [...JSON.stringify(value).matchAll(/"id":"([0-9a-f-]{36})"/g)].map(match => `[rec:${match[1]}]`)
+}
+
+// Deterministic stand-in for a model: the same request always produces the
+// same answer, built from the data the retrieval step put in the prompt. Lets
+// the whole chat flow run offline and under test without a network call.
+export function createMockProvider(): LlmProvider {
+  return {
+    name: 'mock',
+
+    async *stream({ system, history, message, tools, toolRounds = [] }: ChatRequest, signal?: AbortSignal): AsyncGenerator<StreamChunk> {
+      const call = tools?.length && toolRounds.length === 0 ? toolCallFor(message) : null
+      if (call && tools?.some(tool => tool.name === call.name)) {
+        yield { type: 'tool_call', call: { id: `mock-${call.name}`, ...call } }
+        return
+      }
+
+      let answer: string
+      if (toolRounds.length > 0) {
+        const results = toolRounds.flat()
+        answer = [
+          `Mock answer to "${message}":`,
+          results.map(({ call, result }) => `${call.name} returned ${JSON.stringify(result).slice(0, 200)}`).join('; '),
+          ...results.flatMap(({ result }) => citedIds(result)).slice(0, 3),
+        ].join(' ')
+      } else {
+        const matched = system.match(/^Records matched: .*$/m)?.[0]
+        answer = [
+          `Mock answer to "${message}" (turn ${history.length + 1}).`,
+          matched ?? 'No user data was provided.',
+          ...[...system.matchAll(RECORD_TOKEN)].slice(0, 3).map(match => match[0]),
+        ].join(' ')
+      }
+
+      // Yielded word by word, the way a real model streams.
+      for (const word of answer.split(/(?<= )/)) {
+        if (signal?.aborted) return
+        yield { type: 'text', text: word }
+      }
+    },
+  }
+}
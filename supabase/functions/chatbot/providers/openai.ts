@@ -0,0 +1,104 @@
+import { readEventData } from './sse.ts'
+import { ChatRequest, LlmProvider, ProviderError, ProviderSettings, StreamChunk } from './types.ts'
+
+interface PendingToolCall {
+  id: string
+  name: string
+  arguments: string
+}
+
+function buildMessages({ system, history, message, toolRounds = [] }: ChatRequest) {
+  return [
+    { role: 'system', content: system },
+    ...history.flatMap(turn => [
+      { role: 'user', content: turn.message },
+      { role: 'assistant', content: turn.response },
+    ]),
+    { role: 'user', content: message },
+    ...toolRounds.flatMap(round => [
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: round.map(({ call }) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      },
+      ...round.map(({ call, result }) => ({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(result),
+      })),
+    ]),
+  ]
+}
+
+function parseArguments(text: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(text || '{}')
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+// local Ollama / llama.cpp / vLLM instance, which usually needs no key.
+export function createOpenAiProvider(
+  baseUrl: string,
+  apiKey: string | undefined,
+  settings: ProviderSettings
+): LlmProvider {
+  return {
+    name: 'openai',
+
+    async *stream(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<StreamChunk> {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          stream: true,
+          messages: buildMessages(request),
+          ...(request.tools?.length
+            ? { tools: request.tools.map(tool => ({ type: 'function', function: tool })) }
+            : {}),
+        }),
+        signal,
+      })
+
+      if (!response.ok || !response.body) {
+        throw new ProviderError('OpenAI-compatible', response.status, await response.text())
+      }
+
+      // Tool calls arrive in fragments keyed by index; they are only usable
+      // once the stream has finished.
+      const pending: PendingToolCall[] = []
+      for await (const data of readEventData(response.body)) {
+        if (data === '[DONE]') break
+        const delta = JSON.parse(data).choices?.[0]?.delta
+        if (delta?.content) yield { type: 'text', text: delta.content }
+
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = (pending[fragment.index ?? 0] ??= { id: '', name: '', arguments: '' })
+          if (fragment.id) call.id = fragment.id
+          if (fragment.function?.name) call.name += fragment.function.name
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments
+        }
+      }
+
+      for (const call of pending.filter(Boolean)) {
+        yield {
+          type: 'tool_call',
+          call: { id: call.id || crypto.randomUUID(), name: call.name, args: parseArguments(call.arguments) },
+        }
+      }
+    },
+  }
+}
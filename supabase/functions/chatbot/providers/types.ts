@@ -0,0 +1,55 @@
+import type { ChatTurn } from '../sessions.ts'
+
+// A function the model may call, described with a JSON Schema for its
+// arguments; both Gemini and OpenAI-compatible servers accept this shape.
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  args: Record<string, unknown>
+}
+
+export interface ToolResult {
+  call: ToolCall
+  result: unknown
+}
+
+export interface ChatRequest {
+  // Instructions plus the retrieved user data.
+  system: string
+  history: ChatTurn[]
+  message: string
+  tools?: ToolDefinition[]
+  // Calls the model made while answering this message, one entry per round,
+  // with what each returned.
+  toolRounds?: ToolResult[][]
+}
+
+export type StreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; call: ToolCall }
+
+export interface ProviderSettings {
+  model: string
+  temperature: number
+  maxTokens: number
+}
+
+export interface LlmProvider {
+  name: string
+  // Yields the answer as it is generated, and any tool calls the model
+  // wants made before it continues. Aborting the signal cancels the upstream
+  // request.
+  stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<StreamChunk>
+}
+
+export class ProviderError extends Error {
+  constructor(provider: string, public status: number, detail: string) {
+    super(`${provider} error: ${status} - ${detail}`)
+  }
+}
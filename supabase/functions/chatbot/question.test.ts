@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { localDate, matchTerms, parseDateRange, rangeBounds } from './question.ts'
+
+// Sunday 18 October 2026, 23:30 UTC.
+const NOW = new Date('2026-10-18T23:30:00Z')
+
+describe('parseDateRange', () => {
+  it('reads relative days on the caller\'s calendar', () => {
+    expect(parseDateRange('readings today', NOW, 0)).toEqual({ from: '2026-10-18', to: '2026-10-18' })
+    // UTC+2 (offset -120) is already on Monday.
+    expect(parseDateRange('readings today', NOW, -120)).toEqual({ from: '2026-10-19', to: '2026-10-19' })
+    expect(parseDateRange('what about yesterday?', NOW, 0)).toEqual({ from: '2026-10-17', to: '2026-10-17' })
+  })
+
+  it('reads weeks starting on Monday', () => {
+    expect(parseDateRange('this week', NOW, 0)).toEqual({ from: '2026-10-12', to: '2026-10-18' })
+    expect(parseDateRange('last week', NOW, 0)).toEqual({ from: '2026-10-05', to: '2026-10-11' })
+    expect(parseDateRange('the past 3 days', NOW, 0)).toEqual({ from: '2026-10-16', to: '2026-10-18' })
+  })
+
+  it('reads explicit dates, months and years', () => {
+    expect(parseDateRange('between 2026-10-09 and 2026-10-01', NOW, 0)).toEqual({ from: '2026-10-01', to: '2026-10-09' })
+    expect(parseDateRange('since 2026-09-30', NOW, 0)).toEqual({ from: '2026-09-30', to: '2026-10-18' })
+    expect(parseDateRange('last month', NOW, 0)).toEqual({ from: '2026-09-01', to: '2026-09-30' })
+    // A month still ahead this year means last year's.
+    expect(parseDateRange('in december', NOW, 0)).toEqual({ from: '2025-12-01', to: '2025-12-31' })
+    expect(parseDateRange('during 2025', NOW, 0)).toEqual({ from: '2025-01-01', to: '2025-12-31' })
+  })
+
+  it('returns null when the question names no period', () => {
+    expect(parseDateRange('average soil pH', NOW, 0)).toBeNull()
+  })
+})
+
+describe('matchTerms', () => {
+  it('prefers the longest name and accepts plurals', () => {
+    expect(matchTerms('soil temperature and nitrates', ['temperature', 'soil temperature', 'nitrate'])).toEqual([
+      'soil temperature',
+      'nitrate',
+    ])
+  })
+
+  it('matches whole words only', () => {
+    expect(matchTerms('phosphorus levels', ['ph'])).toEqual([])
+  })
+})
+
+describe('localDate and rangeBounds', () => {
+  it('shifts local days to UTC instants', () => {
+    expect(localDate(NOW, -120)).toBe('2026-10-19')
+    expect(rangeBounds({ from: '2026-10-18', to: '2026-10-18' }, -120)).toEqual({
+      start: '2026-10-17T22:00:00.000Z',
+      end: '2026-10-18T22:00:00.000Z',
+    })
+  })
+})
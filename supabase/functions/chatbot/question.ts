@@ -0,0 +1,168 @@
+// Pulls record filters out of a free-text question: a date range, and any
+// field names or site labels the user already has records for.
+
+// Inclusive calendar dates (YYYY-MM-DD) in the caller's local time.
+export interface DateRange {
+  from: string
+  to: string
+}
+
+export interface QuestionFilters {
+  range: DateRange | null
+  fields: string[]
+  locations: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+const ISO_DATE = '(\\d{4}-\\d{2}-\\d{2})'
+
+// Dates are worked out on a clock shifted to the caller's offset, so the UTC
+// getters below read local calendar values.
+function localNow(now: Date, offsetMinutes: number): Date {
+  return new Date(now.getTime() - offsetMinutes * 60 * 1000)
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function monthRange(year: number, month: number): DateRange {
+  return {
+    from: toDateString(new Date(Date.UTC(year, month, 1))),
+    to: toDateString(new Date(Date.UTC(year, month + 1, 0))),
+  }
+}
+
+function isValidDate(value: string): boolean {
+  return !Number.isNaN(new Date(`${value}T00:00:00Z`).getTime())
+}
+
+export function parseDateRange(question: string, now: Date, offsetMinutes: number): DateRange | null {
+  const text = question.toLowerCase()
+  const today = startOfDay(localNow(now, offsetMinutes))
+  const todayString = toDateString(today)
+
+  const between = text.match(new RegExp(`(?:between|from)\\s+${ISO_DATE}\\s+(?:and|to|until)\\s+${ISO_DATE}`))
+  if (between && isValidDate(between[1]) && isValidDate(between[2])) {
+    const [from, to] = [between[1], between[2]].sort()
+    return { from, to }
+  }
+
+  const since = text.match(new RegExp(`(?:since|after)\\s+${ISO_DATE}`))
+  if (since && isValidDate(since[1])) {
+    return { from: since[1], to: todayString }
+  }
+
+  const single = text.match(new RegExp(ISO_DATE))
+  if (single && isValidDate(single[1])) {
+    return { from: single[1], to: single[1] }
+  }
+
+  if (/\btoday\b/.test(text)) {
+    return { from: todayString, to: todayString }
+  }
+
+  if (/\byesterday\b/.test(text)) {
+    const yesterday = toDateString(addDays(today, -1))
+    return { from: yesterday, to: yesterday }
+  }
+
+  const lastN = text.match(/\b(?:last|past|previous)\s+(\d+)\s+(day|week|month)s?\b/)
+  if (lastN) {
+    const count = Number(lastN[1])
+    const days = lastN[2] === 'day' ? count : lastN[2] === 'week' ? count * 7 : count * 30
+    return { from: toDateString(addDays(today, -(days - 1))), to: todayString }
+  }
+
+  // Weeks start on Monday.
+  const weekStart = addDays(today, -((today.getUTCDay() + 6) % 7))
+  if (/\bthis week\b/.test(text)) {
+    return { from: toDateString(weekStart), to: todayString }
+  }
+  if (/\blast week\b/.test(text)) {
+    return { from: toDateString(addDays(weekStart, -7)), to: toDateString(addDays(weekStart, -1)) }
+  }
+
+  if (/\bthis month\b/.test(text)) {
+    return { from: monthRange(today.getUTCFullYear(), today.getUTCMonth()).from, to: todayString }
+  }
+  if (/\blast month\b/.test(text)) {
+    return monthRange(today.getUTCFullYear(), today.getUTCMonth() - 1)
+  }
+
+  if (/\bthis year\b/.test(text)) {
+    return { from: `${today.getUTCFullYear()}-01-01`, to: todayString }
+  }
+  if (/\blast year\b/.test(text)) {
+    const year = today.getUTCFullYear() - 1
+    return { from: `${year}-01-01`, to: `${year}-12-31` }
+  }
+
+  const month = text.match(new RegExp(`\\b(?:in|during)\\s+(${MONTHS.join('|')})(?:\\s+(\\d{4}))?\\b`))
+  if (month) {
+    const monthIndex = MONTHS.indexOf(month[1])
+    // A bare month name means its most recent occurrence.
+    const year = month[2]
+      ? Number(month[2])
+      : monthIndex > today.getUTCMonth() ? today.getUTCFullYear() - 1 : today.getUTCFullYear()
+    return monthRange(year, monthIndex)
+  }
+
+  const year = text.match(/\b(?:in|during)\s+(\d{4})\b/)
+  if (year) {
+    return { from: `${year[1]}-01-01`, to: `${year[1]}-12-31` }
+  }
+
+  return null
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Longest names first, so "soil temperature" wins over "temperature".
+export function matchTerms(question: string, candidates: string[]): string[] {
+  const text = question.toLowerCase()
+  const matched: string[] = []
+  let remaining = text
+
+  ;[...new Set(candidates)]
+    .filter(candidate => candidate.trim().length > 1)
+    .sort((a, b) => b.length - a.length)
+    .forEach(candidate => {
+      const pattern = new RegExp(`\\b${escapeRegExp(candidate.toLowerCase())}(?:s|es)?\\b`)
+      if (pattern.test(remaining)) {
+        matched.push(candidate)
+        remaining = remaining.replace(pattern, ' ')
+      }
+    })
+
+  return matched
+}
+
+// Today's date on the caller's calendar.
+export function localDate(now: Date, offsetMinutes: number): string {
+  return toDateString(localNow(now, offsetMinutes))
+}
+
+// The [from, to) instants bounding a local date range, for querying timestamps.
+export function rangeBounds(range: DateRange, offsetMinutes: number): { start: string; end: string } {
+  const shift = offsetMinutes * 60 * 1000
+  const start = new Date(new Date(`${range.from}T00:00:00Z`).getTime() + shift)
+  const end = new Date(addDays(new Date(`${range.to}T00:00:00Z`), 1).getTime() + shift)
+  return { start: start.toISOString(), end: end.toISOString() }
+}
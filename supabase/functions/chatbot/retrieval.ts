@@ -0,0 +1,221 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { DateRange, QuestionFilters, matchTerms, parseDateRange, rangeBounds } from './question.ts'
+
+export interface FieldRecordRow {
+  id: string
+  field: string
+  value: string
+  location: string
+  timestamp: string
+}
+
+export interface FieldAggregate {
+  field: string
+  count: number
+  numericCount: number
+  min: number | null
+  max: number | null
+  mean: number | null
+  first: string
+  last: string
+  latestValue: string
+}
+
+export interface RetrievalContext {
+  filters: QuestionFilters
+  total: number
+  aggregates: FieldAggregate[]
+  records: FieldRecordRow[]
+}
+
+// How many rows are aggregated, and how many of the newest are quoted to the
+// model verbatim; enough to answer from without blowing the prompt budget.
+const MAX_AGGREGATED = 1000
+const MAX_QUOTED = 40
+const VOCABULARY_LIMIT = 5000
+
+const NUMBER = /^-?\d+(?:\.\d+)?/
+
+async function loadVocabulary(
+  client: SupabaseClient,
+  projectId: string | null
+): Promise<{ fields: string[]; locations: string[] }> {
+  let query = client
+    .from('field_records')
+    .select('field, location')
+    .is('deleted_at', null)
+  if (projectId) query = query.eq('project_id', projectId)
+
+  const { data, error } = await query
+    .order('timestamp', { ascending: false })
+    .limit(VOCABULARY_LIMIT)
+
+  if (error) throw error
+
+  const rows = (data ?? []) as Pick<FieldRecordRow, 'field' | 'location'>[]
+  return {
+    fields: [...new Set(rows.map(row => row.field))],
+    locations: [...new Set(rows.map(row => row.location).filter(Boolean))],
+  }
+}
+
+export function aggregate(records: FieldRecordRow[]): FieldAggregate[] {
+  const byField = new Map<string, FieldRecordRow[]>()
+  records.forEach(record => byField.set(record.field, [...(byField.get(record.field) ?? []), record]))
+
+  return [...byField.entries()]
+    .map(([field, rows]) => {
+      // Rows arrive newest first.
+      const numbers = rows
+        .map(row => row.value.trim().match(NUMBER))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => Number(match[0]))
+
+      return {
+        field,
+        count: rows.length,
+        numericCount: numbers.length,
+        min: numbers.length ? Math.min(...numbers) : null,
+        max: numbers.length ? Math.max(...numbers) : null,
+        mean: numbers.length ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null,
+        first: rows[rows.length - 1].timestamp,
+        last: rows[0].timestamp,
+        latestValue: rows[0].value,
+      }
+    })
+    .sort((a, b) => b.count - a.count)
+}
+
+// The client is created with the caller's JWT, so row level security limits
+// every query here to records in projects the caller is a member of.
+//
+// Earlier questions in the conversation fill in whatever this one leaves out,
+// so "and yesterday?" keeps the field asked about a turn ago.
+// Without a project, everything the caller can see is searched.
+export async function retrieveContext(
+  client: SupabaseClient,
+  projectId: string | null,
+  question: string,
+  offsetMinutes: number,
+  earlierQuestions: string[] = []
+): Promise<RetrievalContext> {
+  const vocabulary = await loadVocabulary(client, projectId)
+  const now = new Date()
+  const parse = (text: string): QuestionFilters => ({
+    range: parseDateRange(text, now, offsetMinutes),
+    fields: matchTerms(text, vocabulary.fields),
+    locations: matchTerms(text, vocabulary.locations),
+  })
+
+  const filters = parse(question)
+  for (const earlier of [...earlierQuestions].reverse().map(parse)) {
+    if (filters.range && filters.fields.length > 0 && filters.locations.length > 0) break
+    filters.range ??= earlier.range
+    if (filters.fields.length === 0) filters.fields = earlier.fields
+    if (filters.locations.length === 0) filters.locations = earlier.locations
+  }
+
+  let query = client
+    .from('field_records')
+    .select('id, field, value, location, timestamp', { count: 'exact' })
+    .is('deleted_at', null)
+  if (projectId) query = query.eq('project_id', projectId)
+
+  if (filters.range) {
+    const { start, end } = rangeBounds(filters.range, offsetMinutes)
+    query = query.gte('timestamp', start).lt('timestamp', end)
+  }
+  if (filters.fields.length > 0) query = query.in('field', filters.fields)
+  if (filters.locations.length > 0) query = query.in('location', filters.locations)
+
+  const { data, count, error } = await query
+    .order('timestamp', { ascending: false })
+    .limit(MAX_AGGREGATED)
+
+  if (error) throw error
+
+  const records = (data ?? []) as FieldRecordRow[]
+  return {
+    filters,
+    total: count ?? records.length,
+    aggregates: aggregate(records),
+    records: records.slice(0, MAX_QUOTED),
+  }
+}
+
+function formatNumber(value: number | null): string {
+  return value === null ? '-' : String(Math.round(value * 100) / 100)
+}
+
+function describeRange(range: DateRange | null): string {
+  return range ? `${range.from} to ${range.to}` : 'all dates'
+}
+
+export function rangeToken(range: DateRange): string {
+  return `[range:${range.from}/${range.to}]`
+}
+
+// Plain-text block handed to the model as the only source of facts about the
+// user's data.
+export function formatContext(context: RetrievalContext): string {
+  const { filters, total, aggregates, records } = context
+  const lines = [
+    `Records matched: ${total} (dates: ${describeRange(filters.range)}; ` +
+      `fields: ${filters.fields.join(', ') || 'any'}; locations: ${filters.locations.join(', ') || 'any'})`,
+  ]
+  if (total > MAX_AGGREGATED) {
+    lines.push(`Statistics cover the newest ${MAX_AGGREGATED} of these records.`)
+  }
+
+  if (aggregates.length > 0) {
+    lines.push('', 'Per field:')
+    aggregates.forEach(item => {
+      lines.push(
+        `- ${item.field}: ${item.count} records from ${item.first.slice(0, 10)} to ${item.last.slice(0, 10)}; ` +
+          `latest value "${item.latestValue}"` +
+          (item.numericCount > 0
+            ? `; numeric min ${formatNumber(item.min)}, max ${formatNumber(item.max)}, mean ${formatNumber(item.mean)}`
+            : '')
+      )
+    })
+  }
+
+  if (records.length > 0) {
+    lines.push('', `Newest ${records.length} records:`)
+    records.forEach(record => {
+      lines.push(
+        `- [rec:${record.id}] ${record.timestamp} ${record.field} = ${record.value}` +
+          (record.location ? ` at ${record.location}` : '')
+      )
+    })
+  }
+
+  return lines.join('\n')
+}
+
+// Used when no model is available: state the numbers rather than give
+// generic advice.
+export function summarizeContext(context: RetrievalContext): string | null {
+  if (context.total === 0) return null
+
+  const { filters, total, aggregates } = context
+  const parts = [
+    `I found ${total} record${total === 1 ? '' : 's'}` +
+      (filters.range ? ` between ${filters.range.from} and ${filters.range.to}` : '') +
+      (filters.locations.length > 0 ? ` at ${filters.locations.join(', ')}` : '') +
+      '.',
+  ]
+
+  aggregates.slice(0, 5).forEach(item => {
+    parts.push(
+      item.numericCount > 0
+        ? `${item.field}: ${item.count} readings, average ${formatNumber(item.mean)} ` +
+            `(min ${formatNumber(item.min)}, max ${formatNumber(item.max)}), latest ${item.latestValue}.`
+        : `${item.field}: ${item.count} records, latest "${item.latestValue}".`
+    )
+  })
+
+  if (filters.range) parts.push(rangeToken(filters.range))
+  context.records.slice(0, 3).forEach(record => parts.push(`[rec:${record.id}]`))
+  return parts.join(' ')
+}
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { HttpError } from './auth.ts'
+
+export interface ChatTurn {
+  message: string
+  response: string
+}
+
+// The model sees at most this many earlier turns, and drops the oldest of
+// those first if they would push the prompt past the character budget.
+const HISTORY_TURNS = 6
+const HISTORY_CHAR_BUDGET = 6000
+const TITLE_LENGTH = 60
+
+function titleFrom(message: string): string {
+  const title = message.trim().replace(/\s+/g, ' ')
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1)}…` : title
+}
+
+// Returns the session to append to, creating one when the client starts a new
+// conversation. An existing id is looked up as the caller, so another user's
+// session reads as missing.
+export async function resolveSession(
+  caller: SupabaseClient,
+  service: SupabaseClient,
+  userId: string,
+  sessionId: string | undefined,
+  message: string
+): Promise<{ id: string; title: string }> {
+  if (sessionId) {
+    const { data, error } = await caller
+      .from('chat_sessions')
+      .select('id, title')
+      .eq('id', sessionId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) throw new HttpError(404, 'Chat session not found')
+    return data
+  }
+
+  const { data, error } = await service
+    .from('chat_sessions')
+    .insert({ user_id: userId, title: titleFrom(message) })
+    .select('id, title')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function loadHistory(caller: SupabaseClient, sessionId: string): Promise<ChatTurn[]> {
+  const { data, error } = await caller
+    .from('chatbot_logs')
+    .select('message, response')
+    .eq('session_id', sessionId)
+    .order('timestamp', { ascending: false })
+    .limit(HISTORY_TURNS)
+
+  if (error) throw error
+
+  const turns: ChatTurn[] = []
+  let size = 0
+  for (const turn of (data ?? []) as ChatTurn[]) {
+    size += turn.message.length + turn.response.length
+    if (size > HISTORY_CHAR_BUDGET) break
+    turns.unshift(turn)
+  }
+  return turns
+}
+
+export async function touchSession(service: SupabaseClient, sessionId: string): Promise<void> {
+  const { error } = await service
+    .from('chat_sessions')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+
+  if (error) throw error
+}
@@ -0,0 +1,257 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { ToolCall, ToolDefinition, ToolResult } from './providers/index.ts'
+import { rangeBounds } from './question.ts'
+import { FieldRecordRow, aggregate } from './retrieval.ts'
+
+// A write the model asked for. It is not made here: the client shows it as a
+// confirmation card and queues the record only once the user accepts.
+export interface RecordAction {
+  id: string
+  tool: 'create_record'
+  record: {
+    field: string
+    value: string
+    location: string
+  }
+}
+
+export interface ToolRunner {
+  run(call: ToolCall): Promise<ToolResult>
+  // Every record a tool returned, so answers can cite them.
+  records: FieldRecordRow[]
+}
+
+const MAX_SCANNED = 1000
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+const NUMBER = /^-?\d+(?:\.\d+)?/
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const DATE_PROPERTIES = {
+  date_from: { type: 'string', description: 'First day to include, YYYY-MM-DD in the user\'s time zone' },
+  date_to: { type: 'string', description: 'Last day to include, YYYY-MM-DD in the user\'s time zone' },
+}
+
+const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: 'query_records',
+    description: 'Find the user\'s field records, newest first. Use for requests to show, list or find records.',
+    parameters: {
+      type: 'object',
+      properties: {
+        field: { type: 'string', description: 'Field name, e.g. "humidity" (case-insensitive)' },
+        location: { type: 'string', description: 'Site label (case-insensitive)' },
+        ...DATE_PROPERTIES,
+        min_value: { type: 'number', description: 'Only numeric values at or above this' },
+        max_value: { type: 'number', description: 'Only numeric values at or below this' },
+        limit: { type: 'integer', description: `Records to return, at most ${MAX_LIMIT}` },
+      },
+    },
+  },
+  {
+    name: 'summarize_field',
+    description: 'Count, minimum, maximum, mean and latest value of one field.',
+    parameters: {
+      type: 'object',
+      properties: {
+        field: { type: 'string', description: 'Field name (case-insensitive)' },
+        location: { type: 'string', description: 'Site label (case-insensitive)' },
+        ...DATE_PROPERTIES,
+      },
+      required: ['field'],
+    },
+  },
+  {
+    name: 'create_record',
+    description: 'Propose a new field record, e.g. for "log soil pH 6.8 at north plot". The user confirms it before it is saved.',
+    parameters: {
+      type: 'object',
+      properties: {
+        field: { type: 'string', description: 'Field name, e.g. "soil pH"' },
+        value: { type: 'string', description: 'Measured value with its unit if given, e.g. "6.8"' },
+        location: { type: 'string', description: 'Site label, e.g. "north plot"; empty if not given' },
+      },
+      required: ['field', 'value'],
+    },
+  },
+]
+
+// Viewers cannot add records, so the model is not offered a tool whose
+// proposals they could never save. What counts is the role in the active
+// project; without one there is nowhere to save a record.
+export async function toolsFor(client: SupabaseClient, projectId: string | null): Promise<ToolDefinition[]> {
+  const readOnly = TOOL_DEFINITIONS.filter(tool => tool.name !== 'create_record')
+  if (!projectId) return readOnly
+
+  const { data, error } = await client.rpc('has_project_role', {
+    project: projectId,
+    roles: ['admin', 'supervisor', 'collector'],
+  })
+  if (error) console.error('Role lookup error:', error)
+  return data === true ? TOOL_DEFINITIONS : readOnly
+}
+
+class ToolArgumentError extends Error {}
+
+function optionalString(args: Record<string, unknown>, key: string): string | undefined {
+  const value = args[key]
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function requiredString(args: Record<string, unknown>, key: string): string {
+  const value = optionalString(args, key)
+  if (!value) throw new ToolArgumentError(`"${key}" is required`)
+  return value
+}
+
+function optionalNumber(args: Record<string, unknown>, key: string): number | undefined {
+  const value = Number(args[key])
+  return args[key] !== undefined && args[key] !== null && Number.isFinite(value) ? value : undefined
+}
+
+function optionalDate(args: Record<string, unknown>, key: string): string | undefined {
+  const value = optionalString(args, key)
+  if (value && !DATE.test(value)) throw new ToolArgumentError(`"${key}" must be a YYYY-MM-DD date`)
+  return value
+}
+
+// ilike without the caller's text acting as a pattern.
+function exactPattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+function numericValue(record: FieldRecordRow): number | null {
+  const match = record.value.trim().match(NUMBER)
+  return match ? Number(match[0]) : null
+}
+
+function describeCall(call: ToolCall, result: unknown): string {
+  const outcome = result as { error?: string; matched?: number }
+  let summary = 'done'
+  if (outcome.error) {
+    summary = `failed: ${outcome.error}`
+  } else if (call.name === 'query_records') {
+    summary = `${outcome.matched} records matched`
+  } else if (call.name === 'create_record') {
+    summary = 'awaiting confirmation'
+  }
+  return `Assistant called ${call.name} ${JSON.stringify(call.args)}: ${summary}`
+}
+
+// Runs tool calls with the caller's client, so row level security applies
+// exactly as it does in the app, and writes each call to activity_logs.
+export function createToolRunner(
+  client: SupabaseClient,
+  userId: string,
+  projectId: string | null,
+  offsetMinutes: number,
+  onAction: (action: RecordAction) => void
+): ToolRunner {
+  const records: FieldRecordRow[] = []
+
+  const findRecords = async (args: Record<string, unknown>): Promise<FieldRecordRow[]> => {
+    const field = optionalString(args, 'field')
+    const location = optionalString(args, 'location')
+    const dateFrom = optionalDate(args, 'date_from')
+    const dateTo = optionalDate(args, 'date_to')
+
+    let query = client
+      .from('field_records')
+      .select('id, field, value, location, timestamp')
+      .is('deleted_at', null)
+
+    if (projectId) query = query.eq('project_id', projectId)
+    if (field) query = query.ilike('field', exactPattern(field))
+    if (location) query = query.ilike('location', exactPattern(location))
+    if (dateFrom) query = query.gte('timestamp', rangeBounds({ from: dateFrom, to: dateFrom }, offsetMinutes).start)
+    if (dateTo) query = query.lt('timestamp', rangeBounds({ from: dateTo, to: dateTo }, offsetMinutes).end)
+
+    const { data, error } = await query.order('timestamp', { ascending: false }).limit(MAX_SCANNED)
+    if (error) throw error
+    return (data ?? []) as FieldRecordRow[]
+  }
+
+  const queryRecords = async (args: Record<string, unknown>) => {
+    const min = optionalNumber(args, 'min_value')
+    const max = optionalNumber(args, 'max_value')
+    const limit = Math.min(Math.max(Math.trunc(optionalNumber(args, 'limit') ?? DEFAULT_LIMIT), 1), MAX_LIMIT)
+
+    // Values are free text, so numeric bounds are applied after fetching.
+    const matched = (await findRecords(args)).filter(record => {
+      if (min === undefined && max === undefined) return true
+      const value = numericValue(record)
+      return value !== null && (min === undefined || value >= min) && (max === undefined || value <= max)
+    })
+
+    const returned = matched.slice(0, limit)
+    records.push(...returned)
+    return { matched: matched.length, returned: returned.length, records: returned }
+  }
+
+  const summarizeField = async (args: Record<string, unknown>) => {
+    requiredString(args, 'field')
+    const rows = await findRecords(args)
+    if (rows.length === 0) return { count: 0 }
+
+    const latest = rows.slice(0, 5)
+    records.push(...latest)
+    return { ...aggregate(rows)[0], latest_records: latest }
+  }
+
+  const createRecord = (args: Record<string, unknown>) => {
+    const action: RecordAction = {
+      id: crypto.randomUUID(),
+      tool: 'create_record',
+      record: {
+        field: requiredString(args, 'field'),
+        value: requiredString(args, 'value'),
+        location: optionalString(args, 'location') ?? '',
+      },
+    }
+    onAction(action)
+    return {
+      status: 'awaiting_confirmation',
+      note: 'Shown to the user as a confirmation card; it is saved only if they confirm. Do not say it was saved.',
+    }
+  }
+
+  return {
+    records,
+
+    async run(call: ToolCall): Promise<ToolResult> {
+      let result: unknown
+      try {
+        switch (call.name) {
+          case 'query_records':
+            result = await queryRecords(call.args)
+            break
+          case 'summarize_field':
+            result = await summarizeField(call.args)
+            break
+          case 'create_record':
+            result = createRecord(call.args)
+            break
+          default:
+            result = { error: `Unknown tool "${call.name}"` }
+        }
+      } catch (error) {
+        // Bad arguments go back to the model so it can correct itself.
+        if (!(error instanceof ToolArgumentError)) console.error(`Tool ${call.name} failed:`, error)
+        result = { error: error instanceof ToolArgumentError ? error.message : 'The lookup failed' }
+      }
+
+      const { error: logError } = await client
+        .from('activity_logs')
+        .insert({
+          user_id: userId,
+          action: 'CHATBOT_TOOL',
+          details: describeCall(call, result),
+          timestamp: new Date().toISOString(),
+        })
+      if (logError) console.error('Error logging tool call:', logError)
+
+      return { call, result }
+    },
+  }
+}
@@ -0,0 +1,38 @@
+/*
+  # Record versions for offline conflict detection
+
+  1. Changes
+    - `field_records`
+      - `version` (integer, incremented on every update)
+      - `updated_at` (timestamptz, set on every update)
+
+  2. Functions
+    - `bump_field_record_version()` trigger function
+
+  3. Notes
+    - Clients send updates conditioned on the version they last saw. An update
+      that matches no row means another device changed the record first, and
+      the client queues a conflict instead of overwriting it.
+*/
+
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE OR REPLACE FUNCTION bump_field_record_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS field_records_bump_version ON field_records;
+CREATE TRIGGER field_records_bump_version
+  BEFORE UPDATE ON field_records
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_field_record_version();
+
+CREATE INDEX IF NOT EXISTS field_records_updated_at_idx ON field_records(updated_at);
\ No newline at end of file
@@ -0,0 +1,72 @@
+/*
+  # Configurable form templates
+
+  1. New Tables
+    - `form_templates`
+      - `id` (uuid, primary key)
+      - `name` (text, template name shown to collectors)
+      - `description` (text)
+      - `fields` (jsonb, ordered list of typed field definitions)
+      - `is_active` (boolean, inactive templates are hidden from the collection form)
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Changes
+    - `field_records`
+      - `template_id` (uuid, template the record was collected with)
+      - `data` (jsonb, typed values keyed by template field key)
+
+  3. Security
+    - Enable RLS on `form_templates`
+    - Every authenticated user can read templates
+    - Only admins (`app_metadata.role = 'admin'`) can create, edit or delete them
+*/
+
+CREATE TABLE IF NOT EXISTS form_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  fields jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT form_templates_fields_is_array CHECK (jsonb_typeof(fields) = 'array')
+);
+
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES form_templates(id) ON DELETE SET NULL;
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS data jsonb;
+
+ALTER TABLE form_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read form templates"
+  ON form_templates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage form templates"
+  ON form_templates
+  FOR ALL
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS form_templates_set_updated_at ON form_templates;
+CREATE TRIGGER form_templates_set_updated_at
+  BEFORE UPDATE ON form_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE INDEX IF NOT EXISTS form_templates_is_active_idx ON form_templates(is_active);
+CREATE INDEX IF NOT EXISTS field_records_template_id_idx ON field_records(template_id);
\ No newline at end of file
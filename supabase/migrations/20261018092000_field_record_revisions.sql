@@ -0,0 +1,75 @@
+/*
+  # Revision history for field records
+
+  1. New Tables
+    - `field_record_revisions`
+      - `id` (uuid, primary key)
+      - `record_id` (uuid, foreign key to field_records)
+      - `version` (integer, the record version this snapshot captures)
+      - `snapshot` (jsonb, the full row as it was at that version)
+      - `edited_by` (uuid, foreign key to auth.users, who produced this version)
+      - `edited_at` (timestamptz, when this version was written)
+
+  2. Functions
+    - `record_field_record_revision()` trigger function, run after every insert
+      and update on `field_records`
+
+  3. Security
+    - Enable RLS on `field_record_revisions`
+    - Users can read revisions of records they own
+    - Revisions are written only by the trigger, never directly by clients
+
+  4. Notes
+    - Existing records are backfilled with their current state as the first revision.
+*/
+
+CREATE TABLE IF NOT EXISTS field_record_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  record_id uuid NOT NULL REFERENCES field_records(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  edited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  edited_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (record_id, version)
+);
+
+ALTER TABLE field_record_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of their own field records"
+  ON field_record_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_revisions.record_id
+        AND field_records.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION record_field_record_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO field_record_revisions (record_id, version, snapshot, edited_by, edited_at)
+  VALUES (NEW.id, NEW.version, to_jsonb(NEW), COALESCE(auth.uid(), NEW.user_id), now())
+  ON CONFLICT (record_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS field_records_record_revision ON field_records;
+CREATE TRIGGER field_records_record_revision
+  AFTER INSERT OR UPDATE ON field_records
+  FOR EACH ROW
+  EXECUTE FUNCTION record_field_record_revision();
+
+INSERT INTO field_record_revisions (record_id, version, snapshot, edited_by, edited_at)
+SELECT id, version, to_jsonb(field_records), user_id, COALESCE(updated_at, timestamp, now())
+FROM field_records
+ON CONFLICT (record_id, version) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS field_record_revisions_record_id_idx ON field_record_revisions(record_id);
\ No newline at end of file
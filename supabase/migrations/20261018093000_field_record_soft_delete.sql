@@ -0,0 +1,42 @@
+/*
+  # Soft delete for field records
+
+  1. Changes
+    - `field_records`
+      - `deleted_at` (timestamptz, set when a record is moved to the trash)
+
+  2. Functions
+    - `purge_deleted_field_records(retention_days)` permanently deletes the
+      caller's records that have been in the trash longer than the retention
+      period and returns how many were removed
+
+  3. Notes
+    - Deleting from the app now sets `deleted_at` instead of removing the row,
+      so offline devices can sync a deletion like any other edit and it can be
+      undone from the Trash view.
+    - The function runs with the caller's privileges, so RLS still limits it
+      to records the caller owns.
+*/
+
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE OR REPLACE FUNCTION purge_deleted_field_records(retention_days integer DEFAULT 30)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  purged integer;
+BEGIN
+  DELETE FROM field_records
+  WHERE user_id = auth.uid()
+    AND deleted_at IS NOT NULL
+    AND deleted_at < now() - make_interval(days => GREATEST(retention_days, 0));
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS field_records_deleted_at_idx ON field_records(deleted_at);
\ No newline at end of file
@@ -0,0 +1,58 @@
+/*
+  # Structured coordinates for field records
+
+  1. Changes
+    - `field_records`
+      - `latitude` / `longitude` (double precision, WGS84 degrees)
+      - `accuracy` (double precision, horizontal accuracy in metres, GPS only)
+      - `altitude` (double precision, metres above the WGS84 ellipsoid, when reported)
+      - `location_source` (text, 'gps' or 'manual')
+      - `location` is now an optional site label and defaults to an empty string
+
+  2. Notes
+    - Existing "lat, lng" strings written by the old form are parsed into the
+      new columns and marked as GPS fixes; the placeholder text
+      "Location unavailable" is cleared.
+    - Pairs outside the valid ranges, such as "95, 200", are left in
+      `location` as text rather than failing the coordinates check.
+*/
+
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS latitude double precision;
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS longitude double precision;
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS accuracy double precision;
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS altitude double precision;
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS location_source text;
+
+ALTER TABLE field_records ALTER COLUMN location SET DEFAULT '';
+
+ALTER TABLE field_records DROP CONSTRAINT IF EXISTS field_records_location_source_check;
+ALTER TABLE field_records ADD CONSTRAINT field_records_location_source_check
+  CHECK (location_source IS NULL OR location_source IN ('gps', 'manual'));
+
+ALTER TABLE field_records DROP CONSTRAINT IF EXISTS field_records_coordinates_check;
+ALTER TABLE field_records ADD CONSTRAINT field_records_coordinates_check
+  CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  );
+
+UPDATE field_records
+SET
+  latitude = split_part(location, ',', 1)::double precision,
+  longitude = trim(split_part(location, ',', 2))::double precision,
+  location_source = 'gps',
+  location = ''
+WHERE latitude IS NULL
+  -- CASE makes the casts run only on text the pattern accepted.
+  AND CASE
+    WHEN location ~ '^\s*-?\d{1,2}(\.\d+)?\s*,\s*-?\d{1,3}(\.\d+)?\s*$' THEN
+      split_part(location, ',', 1)::double precision BETWEEN -90 AND 90
+      AND trim(split_part(location, ',', 2))::double precision BETWEEN -180 AND 180
+    ELSE false
+  END;
+
+UPDATE field_records
+SET location = ''
+WHERE location = 'Location unavailable';
+
+CREATE INDEX IF NOT EXISTS field_records_coordinates_idx ON field_records(latitude, longitude);
\ No newline at end of file
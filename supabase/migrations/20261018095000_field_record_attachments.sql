@@ -0,0 +1,100 @@
+/*
+  # Attachments for field records
+
+  1. New Tables
+    - `field_record_attachments`
+      - `id` (uuid, primary key, generated on the device so queued uploads can be replayed)
+      - `record_id` (uuid, foreign key to field_records)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `storage_path` (text, object name in the `field-attachments` bucket)
+      - `file_name` (text, original file name)
+      - `mime_type` (text)
+      - `size_bytes` (integer, size after client-side compression)
+      - `kind` (text, 'image', 'audio' or 'file')
+      - `captured_at` (timestamptz, from EXIF when the photo carries it)
+      - `latitude` / `longitude` (double precision, from EXIF GPS when present)
+      - `created_at` (timestamptz)
+
+  2. Storage
+    - Private `field-attachments` bucket, 25 MB per object
+    - Objects live under `<user_id>/<record_id>/`, and the path is checked
+      against the owning field record
+
+  3. Security
+    - Enable RLS on `field_record_attachments`
+    - Users can manage attachments on field records they own, mirroring the
+      `field_records` policy
+
+  4. Notes
+    - Rows cascade away when their record is purged, so the client removes
+      the stored objects first, both when purging by hand and before the
+      automatic purge of expired trash.
+*/
+
+CREATE TABLE IF NOT EXISTS field_record_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  record_id uuid NOT NULL REFERENCES field_records(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  mime_type text NOT NULL,
+  size_bytes integer NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('image', 'audio', 'file')),
+  captured_at timestamptz,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS field_record_attachments_record_id_idx
+  ON field_record_attachments(record_id);
+
+ALTER TABLE field_record_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage attachments on their own field records"
+  ON field_record_attachments
+  FOR ALL
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_attachments.record_id
+        AND field_records.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_attachments.record_id
+        AND field_records.user_id = auth.uid()
+    )
+  );
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('field-attachments', 'field-attachments', false, 26214400)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can manage attachment files on their own field records"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'field-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.field_records
+      WHERE field_records.id::text = (storage.foldername(name))[2]
+        AND field_records.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'field-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.field_records
+      WHERE field_records.id::text = (storage.foldername(name))[2]
+        AND field_records.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,18 @@
+/*
+  # Chat logs are written by the chatbot function only
+
+  1. Security
+    - Replace the catch-all policy on `chatbot_logs` with a read-only one;
+      users can still see their own history
+    - Inserts now come from the `chatbot` edge function using the service
+      role, after it has verified the caller's JWT, so clients can no longer
+      write log rows for themselves or anyone else
+*/
+
+DROP POLICY IF EXISTS "Users can manage their own chatbot logs" ON chatbot_logs;
+
+CREATE POLICY "Users can view their own chatbot logs"
+  ON chatbot_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
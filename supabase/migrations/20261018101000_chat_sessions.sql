@@ -0,0 +1,66 @@
+/*
+  # Chat sessions
+
+  1. New Tables
+    - `chat_sessions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `title` (text, defaults to the opening question)
+      - `created_at` / `updated_at` (timestamptz; `updated_at` moves with each new turn)
+
+  2. Changes
+    - `chatbot_logs`
+      - `session_id` (uuid, foreign key to chat_sessions, cascades on delete)
+      - `citations` (jsonb, the records and ranges an answer cited, so resumed
+        conversations keep their links)
+
+  3. Security
+    - Enable RLS on `chat_sessions`
+    - Users can read, rename and delete their own sessions
+    - Sessions are created by the chatbot edge function, like the logs in them
+
+  4. Notes
+    - Logs written before sessions existed keep a null `session_id`.
+*/
+
+CREATE TABLE IF NOT EXISTS chat_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT 'New conversation',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE chat_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat sessions"
+  ON chat_sessions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rename their own chat sessions"
+  ON chat_sessions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chat sessions"
+  ON chat_sessions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS chat_sessions_set_updated_at ON chat_sessions;
+CREATE TRIGGER chat_sessions_set_updated_at
+  BEFORE UPDATE ON chat_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+ALTER TABLE chatbot_logs
+  ADD COLUMN IF NOT EXISTS session_id uuid REFERENCES chat_sessions(id) ON DELETE CASCADE;
+ALTER TABLE chatbot_logs ADD COLUMN IF NOT EXISTS citations jsonb;
+
+CREATE INDEX IF NOT EXISTS chat_sessions_user_id_updated_at_idx ON chat_sessions(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS chatbot_logs_session_id_idx ON chatbot_logs(session_id, timestamp);
@@ -0,0 +1,16 @@
+/*
+  # Mark chat answers that were cut short
+
+  1. Modified Tables
+    - `chatbot_logs`
+      - `truncated` (boolean, default false) - the answer stopped before the
+        model finished, because the user pressed Stop, closed the connection
+        or the model stream failed part-way
+
+  2. Notes
+    - The partial text is still stored in `response`, so the conversation
+      history shows what the user actually saw
+*/
+
+ALTER TABLE chatbot_logs
+  ADD COLUMN IF NOT EXISTS truncated boolean NOT NULL DEFAULT false;
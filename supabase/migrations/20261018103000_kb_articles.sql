@@ -0,0 +1,100 @@
+/*
+  # Knowledge base for the chatbot's offline answers
+
+  1. New Tables
+    - `kb_articles`
+      - `id` (uuid, primary key)
+      - `title` (text)
+      - `body` (text, the answer shown to the user)
+      - `published` (boolean, drafts are visible to admins only)
+      - `search` (tsvector, generated from title and body; title weighs more)
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. New Functions
+    - `search_kb_articles(search_query, max_results)` ranks published
+      articles against a free-text question. Any word may match, so a full
+      question still finds an article that only shares its key terms.
+
+  3. Security
+    - Enable RLS on `kb_articles`
+    - Authenticated users can read published articles
+    - Only admins (`app_metadata.role = 'admin'`) can read drafts and create,
+      edit or delete articles
+    - The search function runs with the caller's rights
+
+  4. Notes
+    - Seeded with the guidance the chatbot used to hard-code, so the fallback
+      keeps answering the same topics until admins edit them
+*/
+
+CREATE TABLE IF NOT EXISTS kb_articles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  body text NOT NULL,
+  published boolean NOT NULL DEFAULT true,
+  search tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', title), 'A') || setweight(to_tsvector('english', body), 'B')
+  ) STORED,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE kb_articles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read published articles"
+  ON kb_articles
+  FOR SELECT
+  TO authenticated
+  USING (published);
+
+CREATE POLICY "Admins can manage articles"
+  ON kb_articles
+  FOR ALL
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+DROP TRIGGER IF EXISTS kb_articles_set_updated_at ON kb_articles;
+CREATE TRIGGER kb_articles_set_updated_at
+  BEFORE UPDATE ON kb_articles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE INDEX IF NOT EXISTS kb_articles_search_idx ON kb_articles USING gin(search);
+
+CREATE OR REPLACE FUNCTION search_kb_articles(search_query text, max_results integer DEFAULT 3)
+RETURNS TABLE (id uuid, title text, body text, rank real)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH terms AS (
+    SELECT to_tsquery('english', replace(plainto_tsquery('english', search_query)::text, ' & ', ' | ')) AS query
+  )
+  SELECT a.id, a.title, a.body, ts_rank_cd(a.search, terms.query) AS rank
+  FROM kb_articles a, terms
+  WHERE a.published AND a.search @@ terms.query
+  ORDER BY rank DESC, a.updated_at DESC
+  LIMIT greatest(least(max_results, 10), 1);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_kb_articles(text, integer) TO authenticated;
+
+INSERT INTO kb_articles (title, body) VALUES
+  (
+    'Measuring temperature',
+    'For temperature measurements, ensure your sensors are calibrated and protected from direct sunlight. Normal soil temperatures range from 50-80°F depending on season and depth. Consider measuring at multiple depths for better insights.'
+  ),
+  (
+    'Humidity and crop health',
+    'Humidity levels are crucial for crop health. Ideal relative humidity varies by crop but generally ranges from 40-70%. High humidity can lead to fungal issues, while low humidity may stress plants. Monitor throughout the day as levels fluctuate.'
+  ),
+  (
+    'Soil pH',
+    'Soil pH affects nutrient availability. Most crops prefer slightly acidic to neutral soil (pH 6.0-7.0). Test soil pH regularly and consider amendments like lime to raise pH or sulfur to lower it. Take samples from multiple locations for accuracy.'
+  ),
+  (
+    'Consistent data collection',
+    'Consistent data collection is key to successful field management. Record measurements at the same time daily when possible, maintain detailed location notes, and look for patterns over time. Your data helps identify trends and optimize practices.'
+  );
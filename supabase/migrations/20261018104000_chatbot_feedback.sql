@@ -0,0 +1,119 @@
+/*
+  # Feedback on chatbot answers
+
+  1. New Tables
+    - `chatbot_feedback`
+      - `id` (uuid, primary key)
+      - `log_id` (uuid, the rated answer in `chatbot_logs`; removed with it)
+      - `user_id` (uuid, foreign key to auth.users)
+      - `rating` (smallint, 1 for thumbs up, -1 for thumbs down)
+      - `comment` (text, optional)
+      - `created_at` / `updated_at` (timestamptz)
+    - One row per user and answer; changing a rating updates it
+
+  2. New Functions
+    - `chatbot_feedback_daily(days)` - thumbs up and down per day
+    - `chatbot_feedback_comments(max_results)` - the newest comments with the
+      question and answer they refer to
+    - Both are for admins only and return data across all users, so they run
+      as security definer and check the caller's role themselves
+
+  3. Security
+    - Enable RLS on `chatbot_feedback`
+    - Users can read and write feedback only on their own chat answers
+*/
+
+CREATE TABLE IF NOT EXISTS chatbot_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  log_id uuid NOT NULL REFERENCES chatbot_logs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating smallint NOT NULL CHECK (rating IN (-1, 1)),
+  comment text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (log_id, user_id)
+);
+
+ALTER TABLE chatbot_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chatbot feedback"
+  ON chatbot_feedback
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can rate their own chatbot answers"
+  ON chatbot_feedback
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM chatbot_logs l WHERE l.id = log_id AND l.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can change their own chatbot feedback"
+  ON chatbot_feedback
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM chatbot_logs l WHERE l.id = log_id AND l.user_id = auth.uid())
+  );
+
+DROP TRIGGER IF EXISTS chatbot_feedback_set_updated_at ON chatbot_feedback;
+CREATE TRIGGER chatbot_feedback_set_updated_at
+  BEFORE UPDATE ON chatbot_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE INDEX IF NOT EXISTS chatbot_feedback_created_at_idx ON chatbot_feedback(created_at);
+
+CREATE OR REPLACE FUNCTION chatbot_feedback_daily(days integer DEFAULT 30)
+RETURNS TABLE (day date, positive bigint, negative bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (auth.jwt() -> 'app_metadata' ->> 'role') IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can view chatbot feedback' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    f.created_at::date AS day,
+    count(*) FILTER (WHERE f.rating = 1) AS positive,
+    count(*) FILTER (WHERE f.rating = -1) AS negative
+  FROM chatbot_feedback f
+  WHERE f.created_at >= now() - make_interval(days => greatest(days, 1))
+  GROUP BY f.created_at::date
+  ORDER BY 1;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION chatbot_feedback_comments(max_results integer DEFAULT 20)
+RETURNS TABLE (id uuid, rating smallint, comment text, message text, response text, created_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (auth.jwt() -> 'app_metadata' ->> 'role') IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can view chatbot feedback' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT f.id, f.rating, f.comment, l.message, l.response, f.created_at
+  FROM chatbot_feedback f
+  JOIN chatbot_logs l ON l.id = f.log_id
+  WHERE f.comment <> ''
+  ORDER BY f.created_at DESC
+  LIMIT greatest(least(max_results, 100), 1);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION chatbot_feedback_daily(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION chatbot_feedback_comments(integer) TO authenticated;
@@ -0,0 +1,300 @@
+/*
+  # User profiles and role-based access
+
+  1. New Types
+    - `app_role` enum: `admin`, `supervisor`, `collector`, `viewer`
+
+  2. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, the auth.users id; removed with the user)
+      - `username` (text, from the `username` given at sign-up)
+      - `role` (app_role, defaults to `collector`)
+      - `created_at` / `updated_at` (timestamptz)
+    - A row is created for every new auth user, and for existing users below
+
+  3. New Functions
+    - `has_role(VARIADIC roles)` - whether the caller holds one of the given
+      roles. It runs as security definer so policies on `profiles` itself can
+      use it without recursing.
+
+  4. Security
+    - Enable RLS on `profiles`. Users read and edit their own profile;
+      admins and supervisors can read every profile, and only admins can
+      change a role.
+    - `field_records`
+      - Admins, supervisors and viewers can read every record; collectors
+        see their own
+      - Admins, supervisors and collectors can add records of their own
+      - Collectors edit and delete their own records; admins and supervisors
+        can edit and delete any
+    - Revisions and attachments follow the visibility of their record
+    - Form templates and knowledge base articles: admins only, now checked
+      with `has_role` instead of `app_metadata.role`
+    - The chatbot feedback report is open to admins and supervisors
+
+  5. Notes
+    - Users whose `app_metadata.role` was `admin` keep admin rights; everyone
+      else starts as a collector, which matches what they could do before.
+    - The last admin cannot give up the role, so the app is never left
+      without someone able to assign roles.
+    - Roles changed from the SQL editor (no signed-in user) are not checked.
+*/
+
+DO $$
+BEGIN
+  CREATE TYPE app_role AS ENUM ('admin', 'supervisor', 'collector', 'viewer');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username text NOT NULL DEFAULT '',
+  role app_role NOT NULL DEFAULT 'collector',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION has_role(VARIADIC roles app_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+      AND profiles.role = ANY (roles)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_role(app_role[]) TO authenticated;
+
+CREATE POLICY "Users can view their own profile"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = id OR has_role('admin', 'supervisor'));
+
+CREATE POLICY "Users can update their own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Admins can update any profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL THEN
+    IF NOT has_role('admin') THEN
+      RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+    END IF;
+
+    IF OLD.role = 'admin' AND NOT EXISTS (
+      SELECT 1 FROM profiles WHERE role = 'admin' AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'At least one admin is required' USING ERRCODE = '23514';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_role ON profiles;
+CREATE TRIGGER profiles_protect_role
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+DROP TRIGGER IF EXISTS profiles_set_updated_at ON profiles;
+CREATE TRIGGER profiles_set_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+CREATE OR REPLACE FUNCTION create_profile_for_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, username, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NULLIF(NEW.raw_user_meta_data ->> 'username', ''), split_part(NEW.email, '@', 1), ''),
+    CASE WHEN NEW.raw_app_meta_data ->> 'role' = 'admin' THEN 'admin'::app_role ELSE 'collector'::app_role END
+  )
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_profile_for_user();
+
+INSERT INTO profiles (id, username, role, created_at)
+SELECT
+  id,
+  COALESCE(NULLIF(raw_user_meta_data ->> 'username', ''), split_part(email, '@', 1), ''),
+  CASE WHEN raw_app_meta_data ->> 'role' = 'admin' THEN 'admin'::app_role ELSE 'collector'::app_role END,
+  created_at
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS profiles_role_idx ON profiles(role);
+
+-- Field records
+DROP POLICY IF EXISTS "Users can manage their own field records" ON field_records;
+
+CREATE POLICY "Owners and reviewers can view field records"
+  ON field_records
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR has_role('admin', 'supervisor', 'viewer'));
+
+CREATE POLICY "Collectors can add their own field records"
+  ON field_records
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND has_role('admin', 'supervisor', 'collector'));
+
+CREATE POLICY "Collectors can edit their own field records, supervisors any"
+  ON field_records
+  FOR UPDATE
+  TO authenticated
+  USING ((auth.uid() = user_id AND has_role('collector')) OR has_role('admin', 'supervisor'))
+  WITH CHECK ((auth.uid() = user_id AND has_role('collector')) OR has_role('admin', 'supervisor'));
+
+CREATE POLICY "Collectors can delete their own field records, supervisors any"
+  ON field_records
+  FOR DELETE
+  TO authenticated
+  USING ((auth.uid() = user_id AND has_role('collector')) OR has_role('admin', 'supervisor'));
+
+-- The subqueries run under field_records' own policies, so revisions and
+-- attachments are visible exactly when their record is.
+DROP POLICY IF EXISTS "Users can view revisions of their own field records" ON field_record_revisions;
+
+CREATE POLICY "Users can view revisions of visible field records"
+  ON field_record_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_revisions.record_id
+    )
+  );
+
+CREATE POLICY "Reviewers can view attachments on visible field records"
+  ON field_record_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_role('admin', 'supervisor', 'viewer')
+    AND EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_attachments.record_id
+    )
+  );
+
+-- Files are stored under <owner>/<record id>/, so the record is found from
+-- the path.
+CREATE POLICY "Reviewers can view attachment files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'field-attachments'
+    AND public.has_role('admin', 'supervisor', 'viewer')
+    AND EXISTS (
+      SELECT 1 FROM public.field_records
+      WHERE field_records.id::text = (storage.foldername(name))[2]
+    )
+  );
+
+-- Admin-only tables
+DROP POLICY IF EXISTS "Admins can manage form templates" ON form_templates;
+
+CREATE POLICY "Admins can manage form templates"
+  ON form_templates
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+DROP POLICY IF EXISTS "Admins can manage articles" ON kb_articles;
+
+CREATE POLICY "Admins can manage articles"
+  ON kb_articles
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+-- Feedback report
+CREATE OR REPLACE FUNCTION chatbot_feedback_daily(days integer DEFAULT 30)
+RETURNS TABLE (day date, positive bigint, negative bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('admin', 'supervisor') THEN
+    RAISE EXCEPTION 'Only admins and supervisors can view chatbot feedback' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    f.created_at::date AS day,
+    count(*) FILTER (WHERE f.rating = 1) AS positive,
+    count(*) FILTER (WHERE f.rating = -1) AS negative
+  FROM chatbot_feedback f
+  WHERE f.created_at >= now() - make_interval(days => greatest(days, 1))
+  GROUP BY f.created_at::date
+  ORDER BY 1;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION chatbot_feedback_comments(max_results integer DEFAULT 20)
+RETURNS TABLE (id uuid, rating smallint, comment text, message text, response text, created_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role('admin', 'supervisor') THEN
+    RAISE EXCEPTION 'Only admins and supervisors can view chatbot feedback' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT f.id, f.rating, f.comment, l.message, l.response, f.created_at
+  FROM chatbot_feedback f
+  JOIN chatbot_logs l ON l.id = f.log_id
+  WHERE f.comment <> ''
+  ORDER BY f.created_at DESC
+  LIMIT greatest(least(max_results, 100), 1);
+END;
+$$;
@@ -0,0 +1,488 @@
+/*
+  # Organizations, projects and project membership
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `created_by` (uuid, foreign key to auth.users)
+      - `created_at` / `updated_at` (timestamptz)
+    - `organization_members`
+      - `organization_id` / `user_id` (primary key; removed with either side)
+      - `created_at` (timestamptz)
+    - `projects`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, removed with its organization)
+      - `name`, `description` (text)
+      - `is_default` (boolean, at most one project; new accounts join it)
+      - `created_at` / `updated_at` (timestamptz)
+    - `project_members`
+      - `project_id` / `user_id` (primary key; removed with either side)
+      - `role` (app_role, what the member may do with the project's records)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `field_records`
+      - `project_id` (uuid, required). Existing records move to the default
+        project, and inserts without one (such as changes queued offline
+        before this migration) land there too.
+
+  3. New Functions
+    - `is_project_member(project)` and `has_project_role(project, VARIADIC
+      roles)`. Global admins count as admins of every project.
+    - `is_organization_member(organization, member)` - whether `member`, the
+      caller by default, belongs to the organization
+    - `can_edit_field_record(project, owner)` - the record edit rule, shared
+      by the record, attachment and file policies
+    - `shares_project_with(member)` - whether the caller and `member` belong
+      to a common project
+    - `purge_deleted_field_records` now empties the trash of every record the
+      caller may delete, not only their own
+
+  4. Security
+    - Enable RLS on the new tables
+    - Members see their projects, their organizations and their teammates'
+      memberships and profiles, so shared records can name who edited them
+    - Global admins manage organizations, their members and projects;
+      project admins manage their project's members, who must belong to the
+      project's organization. Leaving an organization ends its project
+      memberships.
+    - `field_records` now follow the project role instead of the global one:
+      every member reads the project's records, collectors add records and
+      edit their own, supervisors and admins edit any, viewers only read
+    - Attachments and their files are visible wherever their record is, and
+      anyone who can edit the record can add and remove them
+
+  5. Notes
+    - Every existing user joins a "General" project, and its organization,
+      with their current role, so nobody loses access to records they see
+      today.
+    - The global role still decides app-wide rights (templates, knowledge
+      base, user roles) and is the role a new account gets in the default
+      project.
+    - Triggers on `field_records` are paused while records are moved, so the
+      move does not bump versions and clash with edits queued offline.
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role app_role NOT NULL DEFAULT 'collector',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS projects_single_default_idx ON projects(is_default) WHERE is_default;
+CREATE INDEX IF NOT EXISTS projects_organization_id_idx ON projects(organization_id);
+CREATE INDEX IF NOT EXISTS project_members_user_id_idx ON project_members(user_id);
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON organization_members(user_id);
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies on project_members can call them without
+-- recursing into their own checks.
+CREATE OR REPLACE FUNCTION has_project_role(project uuid, VARIADIC roles app_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role('admin') OR EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_members.project_id = project
+      AND project_members.user_id = auth.uid()
+      AND project_members.role = ANY (roles)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_project_member(project uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_project_role(project, 'admin', 'supervisor', 'collector', 'viewer');
+$$;
+
+CREATE OR REPLACE FUNCTION is_organization_member(organization uuid, member uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE organization_members.organization_id = organization
+      AND organization_members.user_id = member
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_field_record(project uuid, owner uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_project_role(project, 'admin', 'supervisor')
+    OR (owner = auth.uid() AND has_project_role(project, 'collector'));
+$$;
+
+CREATE OR REPLACE FUNCTION shares_project_with(member uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM project_members mine
+    JOIN project_members theirs ON theirs.project_id = mine.project_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = member
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION has_project_role(uuid, app_role[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_project_member(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_organization_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_edit_field_record(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION shares_project_with(uuid) TO authenticated;
+
+CREATE POLICY "Members can view their teammates' profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (shares_project_with(id));
+
+CREATE POLICY "Members can view their organizations"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin') OR is_organization_member(id));
+
+CREATE POLICY "Admins can manage organizations"
+  ON organizations
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Members can view their organization's members"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (has_role('admin') OR is_organization_member(organization_id));
+
+CREATE POLICY "Admins can manage organization members"
+  ON organization_members
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Members can view their projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING (is_project_member(id));
+
+CREATE POLICY "Admins can manage projects"
+  ON projects
+  FOR ALL
+  TO authenticated
+  USING (has_role('admin'))
+  WITH CHECK (has_role('admin'));
+
+CREATE POLICY "Members can view their project's members"
+  ON project_members
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_project_member(project_id));
+
+CREATE POLICY "Project admins can manage members"
+  ON project_members
+  FOR ALL
+  TO authenticated
+  USING (has_project_role(project_id, 'admin'))
+  WITH CHECK (
+    has_project_role(project_id, 'admin')
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_members.project_id
+        AND is_organization_member(projects.organization_id, project_members.user_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION leave_organization_projects()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM project_members
+  USING projects
+  WHERE projects.id = project_members.project_id
+    AND projects.organization_id = OLD.organization_id
+    AND project_members.user_id = OLD.user_id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS organization_members_leave_projects ON organization_members;
+CREATE TRIGGER organization_members_leave_projects
+  AFTER DELETE ON organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION leave_organization_projects();
+
+DROP TRIGGER IF EXISTS organizations_set_updated_at ON organizations;
+CREATE TRIGGER organizations_set_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+DROP TRIGGER IF EXISTS projects_set_updated_at ON projects;
+CREATE TRIGGER projects_set_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- Records
+ALTER TABLE field_records ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES projects(id);
+
+DO $$
+DECLARE
+  default_project uuid;
+  new_organization uuid;
+BEGIN
+  SELECT id INTO default_project FROM projects WHERE is_default;
+
+  IF default_project IS NULL THEN
+    INSERT INTO organizations (name) VALUES ('My organization') RETURNING id INTO new_organization;
+    INSERT INTO projects (organization_id, name, is_default)
+    VALUES (new_organization, 'General', true)
+    RETURNING id INTO default_project;
+  END IF;
+
+  INSERT INTO organization_members (organization_id, user_id)
+  SELECT projects.organization_id, profiles.id FROM projects, profiles
+  WHERE projects.id = default_project
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO project_members (project_id, user_id, role)
+  SELECT default_project, id, role FROM profiles
+  ON CONFLICT DO NOTHING;
+
+  ALTER TABLE field_records DISABLE TRIGGER USER;
+  UPDATE field_records SET project_id = default_project WHERE project_id IS NULL;
+  ALTER TABLE field_records ENABLE TRIGGER USER;
+END;
+$$;
+
+ALTER TABLE field_records ALTER COLUMN project_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS field_records_project_id_timestamp_idx ON field_records(project_id, timestamp DESC);
+
+CREATE OR REPLACE FUNCTION assign_default_project()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.project_id IS NULL THEN
+    NEW.project_id := (SELECT id FROM projects WHERE is_default);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS field_records_assign_default_project ON field_records;
+CREATE TRIGGER field_records_assign_default_project
+  BEFORE INSERT ON field_records
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_default_project();
+
+CREATE OR REPLACE FUNCTION join_default_project()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO organization_members (organization_id, user_id)
+  SELECT organization_id, NEW.id FROM projects WHERE is_default
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO project_members (project_id, user_id, role)
+  SELECT id, NEW.id, NEW.role FROM projects WHERE is_default
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_join_default_project ON profiles;
+CREATE TRIGGER profiles_join_default_project
+  AFTER INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION join_default_project();
+
+DROP POLICY IF EXISTS "Owners and reviewers can view field records" ON field_records;
+DROP POLICY IF EXISTS "Collectors can add their own field records" ON field_records;
+DROP POLICY IF EXISTS "Collectors can edit their own field records, supervisors any" ON field_records;
+DROP POLICY IF EXISTS "Collectors can delete their own field records, supervisors any" ON field_records;
+
+CREATE POLICY "Members can view their project's field records"
+  ON field_records
+  FOR SELECT
+  TO authenticated
+  USING (is_project_member(project_id));
+
+CREATE POLICY "Collectors can add field records to their projects"
+  ON field_records
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND has_project_role(project_id, 'admin', 'supervisor', 'collector'));
+
+CREATE POLICY "Collectors can edit their own field records, supervisors any"
+  ON field_records
+  FOR UPDATE
+  TO authenticated
+  USING (can_edit_field_record(project_id, user_id))
+  WITH CHECK (can_edit_field_record(project_id, user_id));
+
+CREATE POLICY "Collectors can delete their own field records, supervisors any"
+  ON field_records
+  FOR DELETE
+  TO authenticated
+  USING (can_edit_field_record(project_id, user_id));
+
+-- Empties the trash the caller may delete from: their own records as a
+-- collector, every record in the projects they supervise.
+CREATE OR REPLACE FUNCTION purge_deleted_field_records(retention_days integer DEFAULT 30)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  purged integer;
+BEGIN
+  DELETE FROM field_records
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < now() - make_interval(days => GREATEST(retention_days, 0))
+    AND can_edit_field_record(project_id, user_id);
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+-- Attachments: the subqueries run under the field_records policies above.
+DROP POLICY IF EXISTS "Reviewers can view attachments on visible field records" ON field_record_attachments;
+DROP POLICY IF EXISTS "Users can manage attachments on their own field records" ON field_record_attachments;
+
+-- Whoever can edit a record can attach files to it, such as a supervisor
+-- adding a photo to a collector's record; the uploader is recorded as the
+-- attachment's user.
+CREATE POLICY "Editors can manage attachments on field records they can edit"
+  ON field_record_attachments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_attachments.record_id
+        AND can_edit_field_record(field_records.project_id, field_records.user_id)
+    )
+  )
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_attachments.record_id
+        AND can_edit_field_record(field_records.project_id, field_records.user_id)
+    )
+  );
+
+CREATE POLICY "Members can view attachments on visible field records"
+  ON field_record_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM field_records
+      WHERE field_records.id = field_record_attachments.record_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Reviewers can view attachment files" ON storage.objects;
+
+CREATE POLICY "Members can view attachment files on visible field records"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'field-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.field_records
+      WHERE field_records.id::text = (storage.foldername(name))[2]
+    )
+  );
+
+-- Files sit under <uploader>/<record id>/; new ones go in the caller's folder.
+DROP POLICY IF EXISTS "Users can manage attachment files on their own field records" ON storage.objects;
+
+CREATE POLICY "Editors can manage attachment files on field records they can edit"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'field-attachments'
+    AND EXISTS (
+      SELECT 1 FROM public.field_records
+      WHERE field_records.id::text = (storage.foldername(name))[2]
+        AND public.can_edit_field_record(field_records.project_id, field_records.user_id)
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'field-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM public.field_records
+      WHERE field_records.id::text = (storage.foldername(name))[2]
+        AND public.can_edit_field_record(field_records.project_id, field_records.user_id)
+    )
+  );
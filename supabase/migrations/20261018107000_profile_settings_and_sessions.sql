@@ -0,0 +1,76 @@
+/*
+  # Profile settings and signed-in sessions
+
+  1. Changes
+    - `profiles`
+      - `display_name` (text, the name shown in the app; falls back to the
+        username when empty)
+      - `units` (text, `metric` or `imperial`)
+      - `timezone` (text, an IANA zone such as `Europe/Oslo`; empty means
+        the device's own zone)
+
+  2. New Functions
+    - `list_my_sessions()` - the caller's signed-in sessions from
+      `auth.sessions`, newest first, with the one making the call flagged
+    - `revoke_my_session(session_id)` - ends one of the caller's sessions;
+      that device is signed out when its token next needs refreshing
+
+  3. Security
+    - Both functions run as security definer because `auth.sessions` is not
+      exposed to clients, and only ever touch rows of `auth.uid()`.
+    - The existing profile policies already let users edit their own row;
+      the role stays protected by `protect_profile_role`.
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS display_name text NOT NULL DEFAULT '';
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS units text NOT NULL DEFAULT 'metric';
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT '';
+
+DO $$
+BEGIN
+  ALTER TABLE profiles ADD CONSTRAINT profiles_units_check CHECK (units IN ('metric', 'imperial'));
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_my_sessions()
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  refreshed_at timestamptz,
+  user_agent text,
+  ip text,
+  is_current boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at::timestamptz, s.updated_at, s.created_at),
+    COALESCE(s.user_agent, ''),
+    COALESCE(host(s.ip), ''),
+    s.id::text = auth.jwt() ->> 'session_id'
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+  ORDER BY 3 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_my_session(session_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM auth.sessions
+  WHERE auth.sessions.id = session_id
+    AND auth.sessions.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION list_my_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_my_session(uuid) TO authenticated;
@@ -0,0 +1,49 @@
+/*
+  # Full-text search and keyset paging for field records
+
+  1. Functions
+    - `search(field_records)` (tsvector of field, value and location)
+      PostgREST exposes it as a computed field the records list filters on.
+      Unlike a generated column it is never part of `select=*`, so rows,
+      exports and revision snapshots do not carry the tsvector.
+
+  2. Indexes
+    - GIN index on the same expression; the planner inlines `search()` and
+      matches it against the index
+    - `(project_id, <column>, id)` indexes for each sortable column, so the
+      list can page with `column > last value` (keyset pagination) instead
+      of ever-growing offsets
+    - `(project_id, timestamp DESC NULLS LAST, id DESC)` for the default
+      newest-first order, which lists records without a timestamp last
+
+  3. Notes
+    - The `simple` configuration neither stems nor drops stop words, which
+      suits short readings such as "pH 6.8 at plot B2" better than English
+      stemming would.
+    - `id` breaks ties between rows with the same sort value, so a page
+      boundary never skips or repeats a record.
+    - Values sort as text, so "10" comes before "9".
+    - Records without a value sort last in both directions; only
+      `timestamp` can be null.
+*/
+
+CREATE OR REPLACE FUNCTION search(field_records)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsvector('simple', $1.field || ' ' || $1.value || ' ' || $1.location);
+$$;
+
+CREATE INDEX IF NOT EXISTS field_records_search_idx ON field_records
+  USING gin (to_tsvector('simple', field || ' ' || value || ' ' || location));
+
+CREATE INDEX IF NOT EXISTS field_records_project_timestamp_id_idx ON field_records(project_id, timestamp, id);
+CREATE INDEX IF NOT EXISTS field_records_project_timestamp_desc_id_idx
+  ON field_records(project_id, timestamp DESC NULLS LAST, id DESC);
+CREATE INDEX IF NOT EXISTS field_records_project_field_id_idx ON field_records(project_id, field, id);
+CREATE INDEX IF NOT EXISTS field_records_project_value_id_idx ON field_records(project_id, value, id);
+CREATE INDEX IF NOT EXISTS field_records_project_location_id_idx ON field_records(project_id, location, id);
+
+-- Superseded by the (project_id, timestamp, id) indexes.
+DROP INDEX IF EXISTS field_records_project_id_timestamp_idx;
@@ -1,9 +1,50 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // The app asks before reloading so a half-filled form is never lost to
+      // an update.
+      registerType: 'prompt',
+      manifest: {
+        name: 'Field Data Collection Sync Platform',
+        short_name: 'Field Data',
+        description: 'Collect field measurements offline and sync them when you reconnect',
+        theme_color: '#2563eb',
+        background_color: '#f3f4f6',
+        display: 'standalone',
+        start_url: '/',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'maskable-icon-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        // Lucide icons are bundled into the JS chunks; the wasm is sql.js for
+        // offline map tiles.
+        globPatterns: ['**/*.{js,css,html,svg,png,ico,woff,woff2,wasm}'],
+        runtimeCaching: [
+          {
+            // Recent record lists stay readable offline. Cleared on sign out
+            // (see RECORDS_CACHE in src/lib/session.ts).
+            urlPattern: ({ url }) => url.pathname === '/rest/v1/field_records',
+            handler: 'NetworkFirst',
+            options: {
+              cacheName: 'field-records',
+              networkTimeoutSeconds: 5,
+              expiration: { maxEntries: 50, maxAgeSeconds: 7 * 24 * 60 * 60 },
+              cacheableResponse: { statuses: [200] },
+            },
+          },
+        ],
+      },
+    }),
+  ],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },